@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { generatePracticeEpisode } from "@/lib/generation/practice"
+import { isEpisodeType } from "@/lib/generation/schedule"
+
+// Practice episodes are generated on demand from live DefiLlama data
+export const dynamic = "force-dynamic"
+export const maxDuration = 60
+
+/**
+ * GET /api/practice?type=protocol|chain|category&slug=...&seed=...
+ *
+ * Generates an off-schedule practice episode for a pool topic.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const type = searchParams.get("type")
+  const slug = searchParams.get("slug")
+  const seed = searchParams.get("seed") || crypto.randomUUID()
+
+  if (!type || !isEpisodeType(type) || !slug) {
+    return NextResponse.json(
+      { error: "Expected type=protocol|chain|category and a topic slug" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const episode = await generatePracticeEpisode(type, slug, seed)
+    if (!episode) {
+      return NextResponse.json(
+        { error: `Could not generate a practice episode for ${slug}` },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(episode)
+  } catch (error) {
+    console.error("Practice episode generation failed:", error)
+    return NextResponse.json(
+      { error: "Practice episode generation failed" },
+      { status: 500 }
+    )
+  }
+}
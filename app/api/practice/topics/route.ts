@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { listPracticeTopics } from "@/lib/generation/practice"
+
+/**
+ * GET /api/practice/topics
+ *
+ * Lists the protocols, chains, and categories available for practice.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ topics: await listPracticeTopics() })
+  } catch (error) {
+    console.error("Failed to list practice topics:", error)
+    return NextResponse.json(
+      { error: "Practice topics unavailable" },
+      { status: 500 }
+    )
+  }
+}
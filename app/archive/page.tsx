@@ -0,0 +1,11 @@
+import type { Metadata } from "next"
+import { ArchivePage } from "@/components/game/archive-page"
+
+export const metadata: Metadata = {
+  title: "DeFidle - Archive",
+  description: "Browse and replay past DeFi quizzes",
+}
+
+export default function Archive() {
+  return <ArchivePage />
+}
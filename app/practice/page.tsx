@@ -0,0 +1,11 @@
+import type { Metadata } from "next"
+import { PracticePage } from "@/components/game/practice-page"
+
+export const metadata: Metadata = {
+  title: "DeFidle - Practice",
+  description: "Practice with fresh DeFi quizzes on any protocol or chain",
+}
+
+export default function Practice() {
+  return <PracticePage />
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, CheckCircle2, Circle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { GameCard } from "@/components/game/game-card"
+import { LoadingContent } from "@/components/game/loading-content"
+import { ShareButton } from "@/components/game/share-button"
+import { fetchEpisodeIndex, getTodayDateUtc } from "@/lib/client/episode"
+import { loadQuizResult, type SavedQuizResult } from "@/lib/client/game-state"
+import { getShareInputFromSaved } from "@/lib/client/share"
+import type { EpisodeIndexEntry } from "@/lib/types/episode"
+
+interface ArchiveRow {
+  entry: EpisodeIndexEntry
+  result: SavedQuizResult | null
+}
+
+type ArchiveState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ready"; months: Array<{ month: string; rows: ArchiveRow[] }> }
+
+/** Format YYYY-MM as a month heading (e.g., "December 2025") */
+function formatMonthHeading(yearMonth: string): string {
+  const [year, month] = yearMonth.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+/** Format YYYY-MM-DD for a row (e.g., "Mon, Dec 15") */
+function formatRowDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+/**
+ * Group published episodes by month, newest first, with saved results attached
+ */
+function buildArchive(entries: EpisodeIndexEntry[], today: string) {
+  const months = new Map<string, ArchiveRow[]>()
+
+  const published = entries
+    .filter((e) => e.dateUtc <= today)
+    .sort((a, b) => b.dateUtc.localeCompare(a.dateUtc))
+
+  for (const entry of published) {
+    const month = entry.dateUtc.slice(0, 7)
+    const rows = months.get(month) ?? []
+    rows.push({ entry, result: loadQuizResult(entry.dateUtc) })
+    months.set(month, rows)
+  }
+
+  return Array.from(months, ([month, rows]) => ({ month, rows }))
+}
+
+export function ArchivePage() {
+  const [state, setState] = useState<ArchiveState>({ status: "loading" })
+  const today = getTodayDateUtc()
+
+  useEffect(() => {
+    fetchEpisodeIndex().then((index) => {
+      if (!index) {
+        setState({ status: "error" })
+        return
+      }
+      setState({ status: "ready", months: buildArchive(index.episodes, today) })
+    })
+  }, [today])
+
+  return (
+    <div className="min-h-screen">
+      <main className="mx-auto max-w-xl px-4 py-8">
+        <GameCard
+          footer={
+            <Button variant="outline" asChild className="w-full">
+              <Link href="/">
+                <ArrowLeft className="mr-2 size-4" />
+                Back to Today
+              </Link>
+            </Button>
+          }
+        >
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-center">Archive</h2>
+
+            {state.status === "loading" && <LoadingContent />}
+
+            {state.status === "error" && (
+              <p className="text-sm text-muted-foreground text-center">
+                Couldn&apos;t load the archive. Please try again later.
+              </p>
+            )}
+
+            {state.status === "ready" &&
+              state.months.map(({ month, rows }) => (
+                <section key={month} className="space-y-2">
+                  <h3 className="text-sm font-semibold text-muted-foreground">
+                    {formatMonthHeading(month)}
+                  </h3>
+                  <ul className="space-y-2">
+                    {rows.map(({ entry, result }) => {
+                      const shareInput = result && getShareInputFromSaved(entry.dateUtc, result)
+                      return (
+                        <li key={entry.dateUtc} className="flex items-center gap-2">
+                          <Link
+                            href={entry.dateUtc === today ? "/" : `/${entry.dateUtc}`}
+                            className="flex flex-1 items-center gap-3 rounded-lg border p-3 text-sm transition-colors hover:bg-accent"
+                          >
+                            {result ? (
+                              <CheckCircle2 className="size-5 shrink-0 text-green-500" />
+                            ) : (
+                              <Circle className="size-5 shrink-0 text-muted-foreground" />
+                            )}
+                            <span className="flex-1 font-medium">{formatRowDate(entry.dateUtc)}</span>
+                            <Badge variant="outline" className="capitalize">
+                              {entry.episodeType}
+                            </Badge>
+                            <span className="w-10 shrink-0 text-right tabular-nums text-muted-foreground">
+                              {result ? `${result.correctCount}/${result.totalQuestions}` : "-"}
+                            </span>
+                          </Link>
+                          {shareInput && <ShareButton input={shareInput} compact />}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </section>
+              ))}
+          </div>
+        </GameCard>
+      </main>
+    </div>
+  )
+}
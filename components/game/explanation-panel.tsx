@@ -6,11 +6,14 @@ import { CheckCircle2, XCircle } from "lucide-react"
 interface ExplanationPanelProps {
   isCorrect: boolean
   explanation: string
+  /** Correct order for rank4 questions (shown above the explanation) */
+  correctOrder?: string[]
 }
 
 export function ExplanationPanel({
   isCorrect,
   explanation,
+  correctOrder,
 }: ExplanationPanelProps) {
   return (
     <Alert variant={isCorrect ? "default" : "destructive"}>
@@ -22,6 +25,11 @@ export function ExplanationPanel({
         )}
       </AlertTitle>
       <AlertDescription className="mt-2">
+        {correctOrder && correctOrder.length > 0 && (
+          <p>
+            Correct order: <span className="font-semibold">{correctOrder.join(" > ")}</span>
+          </p>
+        )}
         {explanation}
       </AlertDescription>
     </Alert>
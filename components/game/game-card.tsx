@@ -3,7 +3,7 @@
 import * as React from "react"
 import { ReactNode } from "react"
 import { useRouter } from "next/navigation"
-import { CalendarIcon, CircleQuestionMark } from "lucide-react"
+import { Archive, CalendarIcon, CircleQuestionMark, Dumbbell } from "lucide-react"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { QuestionProgressIndicator } from "@/components/game/question-progress-indicator"
 import { Button } from "@/components/ui/button"
@@ -12,6 +12,7 @@ import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { getTodayDateUtc } from "@/lib/client/episode"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { StatsDialog } from "@/components/game/stats-dialog"
 import Image from "next/image"
 import {
   Dialog,
@@ -111,6 +112,20 @@ function DatePicker({ date }: { date?: string }) {
           }}
           captionLayout="dropdown"
         />
+        <div className="border-t p-2">
+          <Button variant="ghost" size="sm" asChild className="w-full">
+            <Link href="/archive" onClick={() => setOpen(false)}>
+              <Archive className="size-4" />
+              Browse Archive
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" asChild className="w-full">
+            <Link href="/practice" onClick={() => setOpen(false)}>
+              <Dumbbell className="size-4" />
+              Practice Mode
+            </Link>
+          </Button>
+        </div>
       </PopoverContent>
     </Popover>
   )
@@ -135,6 +150,7 @@ export function GameCard({ currentQuestion, totalQuestions, difficulty, children
               <DatePicker date={date} />
             </div>
             <ThemeToggle />
+            <StatsDialog />
             <Dialog>
               <form>
                 <DialogTrigger asChild>
@@ -9,7 +9,7 @@ import { ExplanationPanel } from "@/components/game/explanation-panel"
 import { ResultsContent } from "@/components/game/results-content"
 import { LoadingContent } from "@/components/game/loading-content"
 import { ErrorContent } from "@/components/game/error-content"
-import { ArrowRight, RefreshCw, RotateCcw, CalendarDays } from "lucide-react"
+import { ArrowRight, Check, RefreshCw, RotateCcw, CalendarDays, Shuffle } from "lucide-react"
 import {
   fetchEpisode,
   type EpisodeError,
@@ -25,13 +25,21 @@ import {
   getProgress,
   isGameComplete,
   getAnswer,
+  revealHint,
+  getVisibleClueCount,
   loadQuizResult,
   saveQuizResult,
   clearQuizResult,
   restoreCompletedState,
+  saveGameProgress,
+  loadGameProgress,
+  clearGameProgress,
+  restoreInProgressState,
   type GameState,
 } from "@/lib/client/game-state"
-import type { Episode } from "@/lib/types/episode"
+import { fetchPracticeEpisode, savePracticeResult } from "@/lib/client/practice"
+import { getShareInputFromState } from "@/lib/client/share"
+import type { Episode, PracticeTopic } from "@/lib/types/episode"
 
 type AppState =
   | { status: "loading" }
@@ -41,6 +49,10 @@ type AppState =
 interface GamePageProps {
   /** Date in YYYY-MM-DD format */
   date: string
+  /** Play an on-demand practice episode for this topic instead of the daily episode */
+  practiceTopic?: PracticeTopic
+  /** Called when the player leaves a practice game to pick another topic */
+  onExitPractice?: () => void
 }
 
 function getYesterdayDate(currentDate: string): string {
@@ -49,21 +61,28 @@ function getYesterdayDate(currentDate: string): string {
   return date.toISOString().split("T")[0]
 }
 
-export function GamePage({ date }: GamePageProps) {
+export function GamePage({ date, practiceTopic, onExitPractice }: GamePageProps) {
   const router = useRouter()
   const [appState, setAppState] = useState<AppState>({ status: "loading" })
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [selectedOrder, setSelectedOrder] = useState<string[] | null>(null)
+  const [writeInText, setWriteInText] = useState("")
 
   const yesterdayDate = getYesterdayDate(date)
   const isFirstEpisode = date === new Date(process.env.NEXT_PUBLIC_FIRST_EPISODE_DATE!).toISOString().split("T")[0]
 
   const loadEpisode = useCallback(async () => {
     setAppState({ status: "loading" })
-    const result = await fetchEpisode(date)
+    setSelectedIndex(null)
+    setSelectedOrder(null)
+    setWriteInText("")
+    const result = practiceTopic
+      ? await fetchPracticeEpisode(practiceTopic)
+      : await fetchEpisode(date)
 
     if (result.success) {
-      // Check for saved results in localStorage
-      const savedResult = loadQuizResult(date)
+      // Check for saved results in localStorage (practice games always start fresh)
+      const savedResult = practiceTopic ? null : loadQuizResult(date)
       if (savedResult) {
         const restoredState = restoreCompletedState(result.episode, savedResult)
         if (restoredState) {
@@ -79,6 +98,27 @@ export function GamePage({ date }: GamePageProps) {
         clearQuizResult(date)
       }
 
+      // Resume a game left mid-quiz (e.g., after a refresh)
+      const savedProgress = practiceTopic ? null : loadGameProgress(date)
+      if (savedProgress) {
+        const restoredState = restoreInProgressState(result.episode, savedProgress)
+        if (restoredState) {
+          const currentQuestion = getCurrentQuestion(restoredState)
+          const currentAnswer = currentQuestion
+            ? getAnswer(restoredState, currentQuestion.qid)
+            : undefined
+          setSelectedIndex(currentAnswer?.selectedIndex ?? null)
+          setAppState({
+            status: "ready",
+            episode: result.episode,
+            gameState: restoredState,
+          })
+          return
+        }
+        // Episode changed since the game was saved - discard the progress
+        clearGameProgress(date)
+      }
+
       // No saved result or stale data - start new game
       const initialState = createGameState(result.episode)
       const startedState = startGame(initialState)
@@ -90,7 +130,7 @@ export function GamePage({ date }: GamePageProps) {
     } else {
       setAppState({ status: "error", error: result.error })
     }
-  }, [date])
+  }, [date, practiceTopic])
 
   useEffect(() => {
     loadEpisode()
@@ -115,11 +155,60 @@ export function GamePage({ date }: GamePageProps) {
     })
   }
 
+  const handleReorder = (order: string[]) => {
+    if (appState.status !== "ready") return
+    if (hasAnsweredCurrent(appState.gameState)) return
+    setSelectedOrder(order)
+  }
+
+  const handleSubmitRanking = () => {
+    if (appState.status !== "ready") return
+
+    const question = getCurrentQuestion(appState.gameState)
+    if (!question) return
+
+    // Submitting without reordering locks in the initial order
+    const order = selectedOrder ?? question.choices ?? []
+    const newState = submitAnswer(appState.gameState, {
+      selectedOrder: order,
+    })
+
+    setSelectedOrder(order)
+    setAppState({
+      ...appState,
+      gameState: newState,
+    })
+  }
+
+  const handleSubmitWriteIn = () => {
+    if (appState.status !== "ready" || !writeInText.trim()) return
+
+    const newState = submitAnswer(appState.gameState, {
+      selectedText: writeInText.trim(),
+    })
+
+    setAppState({
+      ...appState,
+      gameState: newState,
+    })
+  }
+
+  const handleRevealHint = () => {
+    if (appState.status !== "ready") return
+
+    setAppState({
+      ...appState,
+      gameState: revealHint(appState.gameState),
+    })
+  }
+
   const handleContinue = () => {
     if (appState.status !== "ready") return
 
     const newState = nextQuestion(appState.gameState)
     setSelectedIndex(null)
+    setSelectedOrder(null)
+    setWriteInText("")
     setAppState({
       ...appState,
       gameState: newState,
@@ -129,12 +218,20 @@ export function GamePage({ date }: GamePageProps) {
   const handlePlayAgain = () => {
     if (appState.status !== "ready") return
 
+    // Practice replays draw a fresh episode for the same topic
+    if (practiceTopic) {
+      loadEpisode()
+      return
+    }
+
     // Clear saved results from localStorage
     clearQuizResult(date)
 
     const initialState = createGameState(appState.episode)
     const startedState = startGame(initialState)
     setSelectedIndex(null)
+    setSelectedOrder(null)
+    setWriteInText("")
     setAppState({
       ...appState,
       gameState: startedState,
@@ -155,12 +252,22 @@ export function GamePage({ date }: GamePageProps) {
     }
   }, [selectedIndex, appState])
 
-  // Save results to localStorage when game completes
+  // Save progress to localStorage after every answer and question change,
+  // and the final results when the game completes
   useEffect(() => {
-    if (appState.status === "ready" && isGameComplete(appState.gameState)) {
-      saveQuizResult(date, appState.gameState)
+    if (appState.status !== "ready") return
+
+    if (isGameComplete(appState.gameState)) {
+      if (practiceTopic) {
+        savePracticeResult(practiceTopic, appState.gameState)
+      } else {
+        saveQuizResult(date, appState.gameState)
+        clearGameProgress(date)
+      }
+    } else if (!practiceTopic) {
+      saveGameProgress(date, appState.gameState)
     }
-  }, [appState, date])
+  }, [appState, date, practiceTopic])
 
   // Loading state
   if (appState.status === "loading") {
@@ -211,7 +318,12 @@ export function GamePage({ date }: GamePageProps) {
             date={date}
             footer={
               <div className="flex gap-2 w-full">
-                {!isFirstEpisode && <Button
+                {practiceTopic ? onExitPractice && (
+                  <Button variant="outline" onClick={onExitPractice} className="flex-1">
+                    <Shuffle className="mr-2 size-4" />
+                    New Topic
+                  </Button>
+                ) : !isFirstEpisode && <Button
                   variant="outline"
                   onClick={() => router.push(`/${yesterdayDate}`)}
                   className="flex-1"
@@ -221,17 +333,19 @@ export function GamePage({ date }: GamePageProps) {
                 </Button>}
                 <Button variant="outline" onClick={handlePlayAgain} className="flex-1">
                   <RotateCcw className="mr-2 size-4" />
-                  Play Again
+                  {practiceTopic ? "Practice Again" : "Play Again"}
                 </Button>
               </div>
             }
           >
             <ResultsContent
               correctCount={results.correctCount}
+              score={results.score}
               totalQuestions={results.totalQuestions}
               topic={episode.topic}
               answers={gameState.answers}
               questions={episode.questions}
+              shareInput={practiceTopic ? undefined : getShareInputFromState(gameState)}
             />
           </GameCard>
         </main>
@@ -265,6 +379,10 @@ export function GamePage({ date }: GamePageProps) {
   const currentAnswer = getAnswer(gameState, currentQuestion.qid)
   const isCorrect = currentAnswer?.isCorrect ?? false
   const isLastQuestion = gameState.currentQuestionIndex === episode.questions.length - 1
+  const isRanking = currentQuestion.format === "rank4"
+  const isWriteIn = currentQuestion.format === "text"
+  const rankingOrder =
+    currentAnswer?.selectedOrder ?? selectedOrder ?? currentQuestion.choices ?? []
 
   // Question state
   return (
@@ -276,11 +394,27 @@ export function GamePage({ date }: GamePageProps) {
           totalQuestions={progress.total}
           difficulty={currentQuestion.difficulty}
           footer={
-            hasAnswered && (
+            hasAnswered ? (
               <Button onClick={handleContinue} className="w-full">
                 {isLastQuestion ? "See Results" : "Next Question"}
                 <ArrowRight className="ml-2 size-4" />
               </Button>
+            ) : isRanking ? (
+              <Button onClick={handleSubmitRanking} className="w-full">
+                <Check className="mr-2 size-4" />
+                Lock In Order
+              </Button>
+            ) : (
+              isWriteIn && (
+                <Button
+                  onClick={handleSubmitWriteIn}
+                  disabled={!writeInText.trim()}
+                  className="w-full"
+                >
+                  <Check className="mr-2 size-4" />
+                  Submit Answer
+                </Button>
+              )
             )
           }
         >
@@ -288,14 +422,23 @@ export function GamePage({ date }: GamePageProps) {
             <QuestionContent
               question={currentQuestion}
               selectedIndex={selectedIndex}
+              rankingOrder={rankingOrder}
+              writeInText={currentAnswer?.selectedText ?? writeInText}
+              visibleClueCount={getVisibleClueCount(gameState)}
               hasAnswered={hasAnswered}
+              isCorrect={isCorrect}
               onSelectChoice={handleSelectChoice}
+              onReorder={handleReorder}
+              onWriteInChange={setWriteInText}
+              onWriteInSubmit={handleSubmitWriteIn}
+              onRevealHint={handleRevealHint}
             />
 
             {hasAnswered && (
               <ExplanationPanel
                 isCorrect={isCorrect}
                 explanation={currentQuestion.explanation}
+                correctOrder={isRanking ? currentQuestion.answerOrder : undefined}
               />
             )}
           </div>
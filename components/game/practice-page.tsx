@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { GameCard } from "@/components/game/game-card"
+import { GamePage } from "@/components/game/game-page"
+import { LoadingContent } from "@/components/game/loading-content"
+import { getTodayDateUtc } from "@/lib/client/episode"
+import { normalizeAnswer } from "@/lib/client/fuzzy-match"
+import {
+  fetchPracticeTopics,
+  loadPracticeHistory,
+  type SavedPracticeResult,
+} from "@/lib/client/practice"
+import { cn } from "@/lib/utils"
+import type { EpisodeType, PracticeTopic } from "@/lib/types/episode"
+
+type TopicsState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ready"; topics: PracticeTopic[] }
+
+/** Max topics listed at once (the search narrows the rest) */
+const MAX_LISTED_TOPICS = 30
+
+/** Recent practice results shown under the picker */
+const MAX_RECENT_RESULTS = 5
+
+const TYPE_TABS: Array<{ type: EpisodeType; label: string }> = [
+  { type: "protocol", label: "Protocols" },
+  { type: "chain", label: "Chains" },
+  { type: "category", label: "Categories" },
+]
+
+function TopicPicker({
+  topics,
+  history,
+  onPick,
+}: {
+  topics: PracticeTopic[]
+  history: SavedPracticeResult[]
+  onPick: (topic: PracticeTopic) => void
+}) {
+  // Hide tabs without topics (e.g., no category pool has been generated yet)
+  const tabs = useMemo(
+    () => TYPE_TABS.filter((tab) => topics.some((t) => t.type === tab.type)),
+    [topics]
+  )
+  const [type, setType] = useState<EpisodeType>(tabs[0]?.type ?? "protocol")
+  const [query, setQuery] = useState("")
+
+  const matches = useMemo(() => {
+    const needle = normalizeAnswer(query)
+    return topics
+      .filter((t) => t.type === type)
+      .filter((t) => !needle || normalizeAnswer(t.name).includes(needle))
+      .slice(0, MAX_LISTED_TOPICS)
+  }, [topics, type, query])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {tabs.map((tab) => (
+          <Button
+            key={tab.type}
+            variant={tab.type === type ? "default" : "outline"}
+            size="sm"
+            onClick={() => setType(tab.type)}
+            className="flex-1"
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        autoComplete="off"
+        placeholder="Search topics..."
+        aria-label="Search topics"
+        onChange={(e) => setQuery(e.target.value)}
+        className={cn(
+          "h-10 w-full rounded-md border bg-background px-3 text-sm shadow-xs outline-none dark:bg-input/30",
+          "focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        )}
+      />
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">No matching topics.</p>
+      ) : (
+        <ul className="max-h-80 space-y-2 overflow-y-auto">
+          {matches.map((topic) => (
+            <li key={topic.slug}>
+              <button
+                type="button"
+                onClick={() => onPick(topic)}
+                className="flex w-full items-center gap-3 rounded-lg border p-3 text-left text-sm transition-colors hover:bg-accent"
+              >
+                <span className="flex-1 font-medium">{topic.name}</span>
+                {topic.category && <Badge variant="outline">{topic.category}</Badge>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {history.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">Recent Practice</h3>
+          <ul className="space-y-1">
+            {history.slice(0, MAX_RECENT_RESULTS).map((result) => (
+              <li key={result.episodeId} className="flex items-center justify-between text-sm">
+                <span className="min-w-0 truncate">{result.topic.name}</span>
+                <span className="shrink-0 tabular-nums text-muted-foreground">
+                  {result.correctCount}/{result.totalQuestions}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
+
+export function PracticePage() {
+  const [state, setState] = useState<TopicsState>({ status: "loading" })
+  const [history, setHistory] = useState<SavedPracticeResult[]>([])
+  const [topic, setTopic] = useState<PracticeTopic | null>(null)
+
+  useEffect(() => {
+    fetchPracticeTopics().then((topics) => {
+      setHistory(loadPracticeHistory())
+      setState(topics ? { status: "ready", topics } : { status: "error" })
+    })
+  }, [])
+
+  if (topic) {
+    return (
+      <GamePage
+        date={getTodayDateUtc()}
+        practiceTopic={topic}
+        onExitPractice={() => {
+          setHistory(loadPracticeHistory())
+          setTopic(null)
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="min-h-screen">
+      <main className="mx-auto max-w-xl px-4 py-8">
+        <GameCard
+          footer={
+            <Button variant="outline" asChild className="w-full">
+              <Link href="/">
+                <ArrowLeft className="mr-2 size-4" />
+                Back to Today
+              </Link>
+            </Button>
+          }
+        >
+          <div className="space-y-6">
+            <div className="space-y-1 text-center">
+              <h2 className="text-xl font-semibold">Practice</h2>
+              <p className="text-sm text-muted-foreground">
+                Pick a topic for a fresh quiz. Practice results don&apos;t count toward your stats.
+              </p>
+            </div>
+
+            {state.status === "loading" && <LoadingContent />}
+
+            {state.status === "error" && (
+              <p className="text-sm text-muted-foreground text-center">
+                Couldn&apos;t load practice topics. Please try again later.
+              </p>
+            )}
+
+            {state.status === "ready" && (
+              <TopicPicker topics={state.topics} history={history} onPick={setTopic} />
+            )}
+          </div>
+        </GameCard>
+      </main>
+    </div>
+  )
+}
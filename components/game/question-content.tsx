@@ -1,21 +1,50 @@
 "use client"
 
+import { Lightbulb } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { HINT_PENALTY } from "@/lib/client/scoring"
 import { ChoiceButton, type ChoiceState } from "./choice-button"
+import { RankingList } from "./ranking-list"
+import { WriteInInput } from "./write-in-input"
 import type { Question } from "@/lib/types/episode"
 
 interface QuestionContentProps {
   question: Question
   selectedIndex: number | null
+  /** Current order of items (rank4 questions only) */
+  rankingOrder?: string[]
+  /** Typed answer (text questions only) */
+  writeInText?: string
+  /** Number of clues shown (all clues if undefined) */
+  visibleClueCount?: number
   hasAnswered: boolean
+  isCorrect?: boolean
   onSelectChoice: (index: number) => void
+  onReorder?: (order: string[]) => void
+  onWriteInChange?: (value: string) => void
+  onWriteInSubmit?: () => void
+  /** Reveal the next clue (hint button hidden if undefined) */
+  onRevealHint?: () => void
 }
 
 export function QuestionContent({
   question,
   selectedIndex,
+  rankingOrder,
+  writeInText,
+  visibleClueCount,
   hasAnswered,
+  isCorrect = false,
   onSelectChoice,
+  onReorder,
+  onWriteInChange,
+  onWriteInSubmit,
+  onRevealHint,
 }: QuestionContentProps) {
+  const clues = question.clues ?? []
+  const shownClues = clues.slice(0, visibleClueCount ?? clues.length)
+  const hiddenClueCount = clues.length - shownClues.length
+
   const getChoiceState = (index: number): ChoiceState => {
     if (!hasAnswered) {
       return selectedIndex === index ? "selected" : "default"
@@ -35,26 +64,52 @@ export function QuestionContent({
     <div className="space-y-8">
       <div className="space-y-2">
         <h2 className="text-xl font-semibold text-center">{question.prompt}</h2>
-        {question.clues && question.clues.length > 0 && (
+        {shownClues.length > 0 && (
           <ul className="text-center space-y-1 text-sm text-muted-foreground">
-            {question.clues.map((clue, i) => (
+            {shownClues.map((clue, i) => (
               <li key={i}>{clue}</li>
             ))}
           </ul>
         )}
+        {!hasAnswered && hiddenClueCount > 0 && onRevealHint && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={onRevealHint}>
+              <Lightbulb className="size-4" />
+              Reveal a clue ({hiddenClueCount} left, -{Math.round(HINT_PENALTY * 100)}% credit)
+            </Button>
+          </div>
+        )}
       </div>
-      <div className="grid grid-cols-1 gap-2 xs:grid-cols-2">
-        {question.choices?.map((choice, index) => (
-          <ChoiceButton
-            key={index}
-            choice={choice}
-            index={index}
-            state={getChoiceState(index)}
-            disabled={hasAnswered}
-            onClick={() => onSelectChoice(index)}
-          />
-        ))}
-      </div>
+      {question.format === "text" ? (
+        <WriteInInput
+          value={writeInText ?? ""}
+          correctAnswer={question.acceptedAnswers?.[0]}
+          hasAnswered={hasAnswered}
+          isCorrect={isCorrect}
+          onChange={(value) => onWriteInChange?.(value)}
+          onSubmit={() => onWriteInSubmit?.()}
+        />
+      ) : question.format === "rank4" ? (
+        <RankingList
+          items={rankingOrder ?? question.choices ?? []}
+          correctOrder={question.answerOrder}
+          hasAnswered={hasAnswered}
+          onReorder={(order) => onReorder?.(order)}
+        />
+      ) : (
+        <div className="grid grid-cols-1 gap-2 xs:grid-cols-2">
+          {question.choices?.map((choice, index) => (
+            <ChoiceButton
+              key={index}
+              choice={choice}
+              index={index}
+              state={getChoiceState(index)}
+              disabled={hasAnswered}
+              onClick={() => onSelectChoice(index)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   )
 }
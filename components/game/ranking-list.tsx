@@ -0,0 +1,182 @@
+"use client"
+
+import { useState, type KeyboardEvent } from "react"
+import { ChevronDown, ChevronUp, GripVertical } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+
+interface RankingListProps {
+  /** Items in the player's current order (first = highest) */
+  items: string[]
+  /** Correct order, used to color rows after answering */
+  correctOrder?: string[]
+  hasAnswered: boolean
+  onReorder: (items: string[]) => void
+}
+
+/** Move an item from one position to another, returning a new array */
+function moveItem(items: string[], from: number, to: number): string[] {
+  if (to < 0 || to >= items.length || from === to) return items
+  const result = [...items]
+  const [moved] = result.splice(from, 1)
+  result.splice(to, 0, moved)
+  return result
+}
+
+/**
+ * Orderable list for rank4 questions.
+ *
+ * Supports three input styles:
+ * - Drag and drop (pointer devices)
+ * - Tap one item, then tap the position it should move to
+ * - Keyboard: focus an item and use the arrow keys, or the up/down buttons
+ */
+export function RankingList({
+  items,
+  correctOrder,
+  hasAnswered,
+  onReorder,
+}: RankingListProps) {
+  const [pickedIndex, setPickedIndex] = useState<number | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [announcement, setAnnouncement] = useState("")
+
+  const reorder = (from: number, to: number) => {
+    const next = moveItem(items, from, to)
+    if (next === items) return
+    onReorder(next)
+    setAnnouncement(`${items[from]} moved to position ${to + 1} of ${items.length}`)
+  }
+
+  const handleTap = (index: number) => {
+    if (hasAnswered) return
+    if (pickedIndex === null) {
+      setPickedIndex(index)
+      return
+    }
+    reorder(pickedIndex, index)
+    setPickedIndex(null)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent, index: number) => {
+    if (hasAnswered) return
+    if (event.key === "ArrowUp" && index > 0) {
+      event.preventDefault()
+      reorder(index, index - 1)
+      setPickedIndex(null)
+      focusRow(index - 1)
+    } else if (event.key === "ArrowDown" && index < items.length - 1) {
+      event.preventDefault()
+      reorder(index, index + 1)
+      setPickedIndex(null)
+      focusRow(index + 1)
+    } else if (event.key === "Escape") {
+      setPickedIndex(null)
+    }
+  }
+
+  const getRowState = (index: number): "default" | "picked" | "correct" | "incorrect" => {
+    if (hasAnswered && correctOrder) {
+      return correctOrder[index] === items[index] ? "correct" : "incorrect"
+    }
+    return pickedIndex === index ? "picked" : "default"
+  }
+
+  return (
+    <div className="space-y-2">
+      {!hasAnswered && (
+        <p className="text-center text-xs text-muted-foreground">
+          Drag, tap two items, or use the arrow keys to reorder. Top = highest.
+        </p>
+      )}
+      <ol className="space-y-2" aria-label="Ranking, highest first">
+        {items.map((item, index) => {
+          const state = getRowState(index)
+          return (
+            <li
+              key={item}
+              draggable={!hasAnswered}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (dragIndex !== null) reorder(dragIndex, index)
+                setDragIndex(null)
+                setPickedIndex(null)
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={cn(
+                "flex items-center gap-2 rounded-md border bg-background px-2 py-2 shadow-xs dark:bg-input/30",
+                dragIndex === index && "opacity-50",
+                state === "picked" && "border-primary bg-primary/5",
+                state === "correct" &&
+                "border-green-500 bg-green-500/10 text-green-700 dark:text-green-400",
+                state === "incorrect" &&
+                "border-red-500 bg-red-500/10 text-red-700 dark:text-red-400"
+              )}
+            >
+              {!hasAnswered && (
+                <GripVertical className="size-4 shrink-0 cursor-grab text-muted-foreground" aria-hidden />
+              )}
+              <button
+                type="button"
+                data-rank-row={index}
+                disabled={hasAnswered}
+                aria-pressed={state === "picked"}
+                aria-label={`${item}, position ${index + 1} of ${items.length}`}
+                onClick={() => handleTap(index)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                className="flex min-w-0 flex-1 items-center gap-3 rounded-sm text-left text-sm outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:cursor-default"
+              >
+                <span
+                  className={cn(
+                    "flex size-6 shrink-0 items-center justify-center rounded-full border text-xs font-medium",
+                    state === "default" && "border-muted-foreground/30 bg-muted",
+                    state === "picked" && "border-primary bg-primary text-primary-foreground",
+                    state === "correct" && "border-green-500 bg-green-500 text-white",
+                    state === "incorrect" && "border-red-500 bg-red-500 text-white"
+                  )}
+                >
+                  {index + 1}
+                </span>
+                <span className="min-w-0 flex-1 break-words">{item}</span>
+              </button>
+              {!hasAnswered && (
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    disabled={index === 0}
+                    aria-label={`Move ${item} up`}
+                    onClick={() => reorder(index, index - 1)}
+                  >
+                    <ChevronUp />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    disabled={index === items.length - 1}
+                    aria-label={`Move ${item} down`}
+                    onClick={() => reorder(index, index + 1)}
+                  >
+                    <ChevronDown />
+                  </Button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+      <p className="sr-only" aria-live="polite">
+        {announcement}
+      </p>
+    </div>
+  )
+}
+
+/** Move keyboard focus to a row after it has been reordered */
+function focusRow(index: number) {
+  requestAnimationFrame(() => {
+    document.querySelector<HTMLButtonElement>(`[data-rank-row="${index}"]`)?.focus()
+  })
+}
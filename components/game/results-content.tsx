@@ -2,9 +2,12 @@
 
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
-import type { PlayerAnswer } from "@/lib/client/game-state"
+import { getAnswerScore, getTotalHints, type PlayerAnswer } from "@/lib/client/game-state"
+import { formatScore } from "@/lib/client/scoring"
+import type { ShareInput } from "@/lib/client/share"
+import { ShareButton } from "./share-button"
 import type { DifficultyTarget, Question, Topic } from "@/lib/types/episode"
-import { CheckCircle2, XCircle } from "lucide-react"
+import { CheckCircle2, CircleDashed, Lightbulb, XCircle } from "lucide-react"
 
 const difficultyStyles: Record<DifficultyTarget, string> = {
   easy: "bg-green-500/20 text-green-700 dark:text-green-400 border-green-500/30",
@@ -14,20 +17,27 @@ const difficultyStyles: Record<DifficultyTarget, string> = {
 
 interface ResultsContentProps {
   correctCount: number
+  /** Total credit including partial credit */
+  score: number
   totalQuestions: number
   topic: Topic
   answers: PlayerAnswer[]
   questions: Question[]
+  /** Share card data (share button hidden if undefined) */
+  shareInput?: ShareInput
 }
 
 export function ResultsContent({
   correctCount,
+  score,
   totalQuestions,
   topic,
   answers,
   questions,
+  shareInput,
 }: ResultsContentProps) {
   const percentage = Math.round((correctCount / totalQuestions) * 100)
+  const totalHints = getTotalHints(answers)
 
   const getMessage = () => {
     if (percentage === 100) return "True Degen!"
@@ -51,13 +61,29 @@ export function ResultsContent({
           {correctCount}/{totalQuestions}
         </div>
         <p className="mt-1 text-sm text-muted-foreground">correct answers</p>
+        {score !== correctCount && (
+          <p className="mt-1 text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">
+              {formatScore(score)}/{totalQuestions}
+            </span>{" "}
+            {totalHints > 0 ? "after hint penalties" : "with partial credit"}
+          </p>
+        )}
       </div>
 
+      {shareInput && <ShareButton input={shareInput} />}
+
       <div className="space-y-2">
         {questions.map((question) => {
           const answer = answers.find(a => a.qid === question.qid)
           const isCorrect = answer?.isCorrect ?? false
-          const correctAnswer = question.choices?.[question.answerIndex ?? 0] ?? ""
+          const credit = answer ? getAnswerScore(answer) : 0
+          const isPartial = !isCorrect && credit > 0
+          const hintsUsed = answer?.hintsUsed ?? 0
+          const correctAnswer =
+            question.format === "rank4"
+              ? question.answerOrder?.join(" > ") ?? ""
+              : question.choices?.[question.answerIndex ?? 0] ?? ""
 
           return (
             <div
@@ -67,6 +93,8 @@ export function ResultsContent({
               <div className="mt-0.5 shrink-0">
                 {isCorrect ? (
                   <CheckCircle2 className="size-5 text-green-500" />
+                ) : isPartial ? (
+                  <CircleDashed className="size-5 text-yellow-500" />
                 ) : (
                   <XCircle className="size-5 text-red-500" />
                 )}
@@ -76,6 +104,18 @@ export function ResultsContent({
                   {question.prompt}{" "}
                   <span className="font-bold">{correctAnswer}</span>
                 </p>
+                {isPartial && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Partial credit: +{formatScore(credit)}
+                  </p>
+                )}
+                {hintsUsed > 0 && (
+                  <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                    <Lightbulb className="size-3" />
+                    {hintsUsed} {hintsUsed === 1 ? "hint" : "hints"} used
+                    {isCorrect && ` (+${formatScore(credit)})`}
+                  </p>
+                )}
               </div>
               <Badge
                 variant="outline"
@@ -0,0 +1,47 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Share2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { buildShareText, shareText, type ShareInput } from "@/lib/client/share"
+
+interface ShareButtonProps {
+  input: ShareInput
+  /** Icon-only button (e.g., for archive rows) */
+  compact?: boolean
+}
+
+export function ShareButton({ input, compact = false }: ShareButtonProps) {
+  const [status, setStatus] = useState<"idle" | "copied" | "failed">("idle")
+
+  const handleShare = async () => {
+    const text = buildShareText(input, window.location.origin)
+    const result = await shareText(text)
+    if (result === "shared" || result === "dismissed") return
+
+    setStatus(result)
+    setTimeout(() => setStatus("idle"), 2000)
+  }
+
+  const label =
+    status === "copied" ? "Copied to Clipboard" : status === "failed" ? "Couldn't Share" : "Share Results"
+
+  if (compact) {
+    return (
+      <Button variant="ghost" size="icon-sm" onClick={handleShare} aria-label={label} title={label}>
+        {status === "copied" ? <Check className="size-4" /> : <Share2 className="size-4" />}
+      </Button>
+    )
+  }
+
+  return (
+    <Button onClick={handleShare} className="w-full">
+      {status === "copied" ? (
+        <Check className="mr-2 size-4" />
+      ) : (
+        <Share2 className="mr-2 size-4" />
+      )}
+      {label}
+    </Button>
+  )
+}
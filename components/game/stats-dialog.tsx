@@ -0,0 +1,138 @@
+"use client"
+
+import { useState } from "react"
+import { ChartColumn } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { formatDuration } from "@/lib/client/game-state"
+import {
+  formatAccuracy,
+  formatTemplateId,
+  loadPlayerStats,
+  type AccuracyStat,
+  type PlayerStats,
+} from "@/lib/client/stats"
+import type { DifficultyTarget } from "@/lib/types/episode"
+
+const DIFFICULTIES: DifficultyTarget[] = ["easy", "medium", "hard"]
+
+function StatTile({ value, label }: { value: string | number; label: string }) {
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-2xl font-bold">{value}</span>
+      <span className="text-xs text-muted-foreground text-center">{label}</span>
+    </div>
+  )
+}
+
+function AccuracyRow({ label, stat }: { label: string; stat: AccuracyStat }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="min-w-0 truncate capitalize">{label}</span>
+      <span className="shrink-0 tabular-nums text-muted-foreground">
+        {formatAccuracy(stat)}{" "}
+        <span className="text-xs">({stat.correct}/{stat.total})</span>
+      </span>
+    </div>
+  )
+}
+
+function StatsBody({ stats }: { stats: PlayerStats }) {
+  if (stats.gamesPlayed === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        Play a quiz to start tracking your stats.
+      </p>
+    )
+  }
+
+  const maxCount = Math.max(...stats.distribution, 1)
+  const templates = Object.entries(stats.accuracyByTemplate).sort(
+    ([, a], [, b]) => b.total - a.total
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 gap-2">
+        <StatTile value={stats.gamesPlayed} label="Played" />
+        <StatTile value={stats.currentStreak} label="Current Streak" />
+        <StatTile value={stats.maxStreak} label="Max Streak" />
+        <StatTile value={formatDuration(stats.averageTimeMs)} label="Avg Time" />
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold">Score Distribution</h3>
+        {stats.distribution.map((count, score) => (
+          <div key={score} className="flex items-center gap-2 text-sm">
+            <span className="w-3 tabular-nums">{score}</span>
+            <div className="flex-1">
+              <div
+                className="rounded-sm bg-primary px-1.5 text-right text-xs text-primary-foreground"
+                style={{ width: `${Math.max((count / maxCount) * 100, 8)}%` }}
+              >
+                {count}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold">Accuracy by Difficulty</h3>
+        {DIFFICULTIES.map((difficulty) => (
+          <AccuracyRow
+            key={difficulty}
+            label={difficulty}
+            stat={stats.accuracyByDifficulty[difficulty]}
+          />
+        ))}
+      </div>
+
+      {templates.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold">Accuracy by Question Type</h3>
+          <div className="max-h-40 space-y-1 overflow-y-auto pr-1">
+            {templates.map(([templateId, stat]) => (
+              <AccuracyRow
+                key={templateId}
+                label={formatTemplateId(templateId)}
+                stat={stat}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Stats button and dialog. Stats are read from localStorage when opened.
+ */
+export function StatsDialog() {
+  const [stats, setStats] = useState<PlayerStats | null>(null)
+
+  return (
+    <Dialog onOpenChange={(open) => open && setStats(loadPlayerStats())}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="size-8 p-0" aria-label="Stats">
+          <ChartColumn className="size-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Statistics</DialogTitle>
+          <DialogDescription>Daily quizzes played on this device.</DialogDescription>
+        </DialogHeader>
+        {stats && <StatsBody stats={stats} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
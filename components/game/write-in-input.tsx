@@ -0,0 +1,63 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+
+interface WriteInInputProps {
+  value: string
+  /** Display name of the correct answer, shown after a wrong guess */
+  correctAnswer?: string
+  hasAnswered: boolean
+  isCorrect: boolean
+  onChange: (value: string) => void
+  onSubmit: () => void
+}
+
+/**
+ * Free-text answer input for text format questions.
+ * Enter submits; typos and common name variations are forgiven on evaluation.
+ */
+export function WriteInInput({
+  value,
+  correctAnswer,
+  hasAnswered,
+  isCorrect,
+  onChange,
+  onSubmit,
+}: WriteInInputProps) {
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (!hasAnswered && value.trim()) onSubmit()
+      }}
+    >
+      <input
+        type="text"
+        value={value}
+        disabled={hasAnswered}
+        autoFocus
+        autoComplete="off"
+        autoCapitalize="off"
+        spellCheck={false}
+        placeholder="Type your answer..."
+        aria-label="Your answer"
+        onChange={(e) => onChange(e.target.value)}
+        className={cn(
+          "h-12 w-full rounded-md border bg-background px-4 text-base shadow-xs outline-none dark:bg-input/30",
+          "focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50",
+          "disabled:cursor-default",
+          hasAnswered && isCorrect &&
+          "border-green-500 bg-green-500/10 text-green-700 dark:text-green-400",
+          hasAnswered && !isCorrect &&
+          "border-red-500 bg-red-500/10 text-red-700 dark:text-red-400"
+        )}
+      />
+      {hasAnswered && !isCorrect && correctAnswer && (
+        <p className="text-center text-sm text-muted-foreground">
+          Answer: <span className="font-semibold text-foreground">{correctAnswer}</span>
+        </p>
+      )}
+    </form>
+  )
+}
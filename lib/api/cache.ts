@@ -0,0 +1,262 @@
+/**
+ * API Response Cache
+ *
+ * TTL-based response cache for DefiLlama requests, so batch runs (date
+ * ranges, pool refreshes) don't re-fetch the same large endpoints.
+ *
+ * Entries are content-addressed by a hash of the request URL and kept both
+ * in memory (per process) and on disk in .cache/defillama/{hash}.json, so
+ * consecutive script runs share them. Each endpoint has its own TTL.
+ *
+ * The memory layer is bounded: least recently used entries are evicted past
+ * MAX_MEMORY_BYTES, and expired entries are dropped when read. This matters
+ * for long-running processes like the Next.js server. Disk-only endpoints
+ * (the full yields pool list) skip the memory layer entirely.
+ *
+ * Disable via DEFILLAMA_CACHE=off or configureApiCache({ enabled: false }).
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as crypto from "crypto"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ApiCacheEntry {
+  url: string
+  fetchedAt: number
+  data: unknown
+}
+
+interface EndpointRule {
+  /** URL path prefix */
+  prefix: string
+  ttlMs: number
+  /** Skip the memory layer (cache on disk only) */
+  diskOnly?: boolean
+}
+
+interface MemoryCacheEntry {
+  entry: ApiCacheEntry
+  /** Serialized size, used for the memory budget */
+  bytes: number
+}
+
+export interface ApiCacheConfig {
+  enabled: boolean
+  /** Directory holding cache files */
+  dir: string
+}
+
+export interface ApiCacheStats {
+  hits: number
+  misses: number
+  /** Misses caused by an expired entry (included in misses) */
+  expired: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+/** Memory budget for cached responses (serialized size); larger entries stay on disk only */
+const MAX_MEMORY_BYTES = 64 * 1024 * 1024
+
+/** Fallback TTL for endpoints without a specific entry */
+const DEFAULT_TTL_MS = HOUR_MS
+
+/**
+ * Per-endpoint TTLs, matched by URL path prefix (first match wins).
+ * Leaderboards move quickly; histories and per-protocol details less so.
+ * Disk-only endpoints are large payloads that callers only ever filter,
+ * so keeping them in memory would crowd out everything else.
+ */
+const ENDPOINT_TTLS: EndpointRule[] = [
+  { prefix: "/protocols", ttlMs: HOUR_MS },
+  { prefix: "/protocol/", ttlMs: 6 * HOUR_MS },
+  { prefix: "/tvl/", ttlMs: 30 * MINUTE_MS },
+  { prefix: "/v2/chains", ttlMs: HOUR_MS },
+  { prefix: "/v2/historicalChainTvl/", ttlMs: 6 * HOUR_MS },
+  { prefix: "/overview/", ttlMs: HOUR_MS },
+  { prefix: "/summary/", ttlMs: 6 * HOUR_MS },
+  // stablecoins.llama.fi
+  { prefix: "/stablecoins", ttlMs: HOUR_MS },
+  { prefix: "/stablecoinchains", ttlMs: HOUR_MS },
+  { prefix: "/stablecoincharts/", ttlMs: 6 * HOUR_MS },
+  // yields.llama.fi
+  { prefix: "/pools", ttlMs: HOUR_MS, diskOnly: true },
+  // bridges.llama.fi
+  { prefix: "/bridges", ttlMs: HOUR_MS },
+  { prefix: "/bridgevolume/", ttlMs: 6 * HOUR_MS },
+]
+
+let config: ApiCacheConfig = {
+  enabled: process.env.DEFILLAMA_CACHE !== "off",
+  dir: path.join(process.cwd(), ".cache", "defillama"),
+}
+
+// Map iteration order is insertion order, so the first key is least recently used
+const memoryCache = new Map<string, MemoryCacheEntry>()
+let memoryBytes = 0
+
+const stats: ApiCacheStats = { hits: 0, misses: 0, expired: 0 }
+
+/**
+ * Override cache settings (e.g., from a --no-api-cache CLI flag)
+ */
+export function configureApiCache(overrides: Partial<ApiCacheConfig>): void {
+  config = {
+    enabled: overrides.enabled ?? config.enabled,
+    dir: overrides.dir ? path.resolve(overrides.dir) : config.dir,
+  }
+}
+
+/**
+ * Get the active cache configuration
+ */
+export function getApiCacheConfig(): ApiCacheConfig {
+  return { ...config }
+}
+
+/**
+ * Get cache hit/miss counts for this process
+ */
+export function getApiCacheStats(): ApiCacheStats {
+  return { ...stats }
+}
+
+// =============================================================================
+// Keys & TTLs
+// =============================================================================
+
+/**
+ * Get the content-addressed cache key for a URL
+ */
+export function getApiCacheKey(url: string): string {
+  return crypto.createHash("sha256").update(url).digest("hex").slice(0, 32)
+}
+
+function findEndpointRule(url: string): EndpointRule | undefined {
+  const { pathname } = new URL(url)
+  return ENDPOINT_TTLS.find((e) => pathname.startsWith(e.prefix))
+}
+
+/**
+ * Get the TTL for a URL's endpoint
+ */
+export function getEndpointTtlMs(url: string): number {
+  return findEndpointRule(url)?.ttlMs ?? DEFAULT_TTL_MS
+}
+
+/**
+ * Whether a URL's endpoint bypasses the memory layer
+ */
+function isDiskOnly(url: string): boolean {
+  return findEndpointRule(url)?.diskOnly ?? false
+}
+
+function getCacheFilePath(key: string): string {
+  return path.join(config.dir, `${key}.json`)
+}
+
+// =============================================================================
+// Memory Layer
+// =============================================================================
+
+function forgetEntry(key: string): void {
+  const cached = memoryCache.get(key)
+  if (!cached) return
+  memoryCache.delete(key)
+  memoryBytes -= cached.bytes
+}
+
+/**
+ * Keep an entry in memory as the most recently used, evicting the least
+ * recently used entries to stay within MAX_MEMORY_BYTES
+ */
+function rememberEntry(key: string, entry: ApiCacheEntry, bytes: number): void {
+  forgetEntry(key)
+  if (bytes > MAX_MEMORY_BYTES) return
+
+  memoryCache.set(key, { entry, bytes })
+  memoryBytes += bytes
+
+  for (const oldest of memoryCache.keys()) {
+    if (memoryBytes <= MAX_MEMORY_BYTES) break
+    forgetEntry(oldest)
+  }
+}
+
+// =============================================================================
+// Read / Write
+// =============================================================================
+
+async function readEntry(key: string, url: string): Promise<ApiCacheEntry | undefined> {
+  const cached = memoryCache.get(key)
+  if (cached) {
+    rememberEntry(key, cached.entry, cached.bytes)
+    return cached.entry
+  }
+
+  try {
+    const content = await fs.readFile(getCacheFilePath(key), "utf-8")
+    const entry = JSON.parse(content) as ApiCacheEntry
+    if (!isDiskOnly(url)) rememberEntry(key, entry, content.length)
+    return entry
+  } catch {
+    // Missing or unreadable entry - treat as a miss
+    return undefined
+  }
+}
+
+/**
+ * Get a fresh cached response for a URL
+ * Returns undefined (a miss) if caching is disabled, or the entry is missing or expired
+ */
+export async function getCachedResponse<T>(url: string): Promise<T | undefined> {
+  if (!config.enabled) return undefined
+
+  const key = getApiCacheKey(url)
+  const entry = await readEntry(key, url)
+
+  // Guard against hash collisions
+  if (!entry || entry.url !== url) {
+    stats.misses++
+    return undefined
+  }
+
+  if (Date.now() - entry.fetchedAt > getEndpointTtlMs(url)) {
+    forgetEntry(key)
+    stats.misses++
+    stats.expired++
+    return undefined
+  }
+
+  stats.hits++
+  return entry.data as T
+}
+
+/**
+ * Cache a response for a URL
+ * Disk write failures (e.g., read-only filesystems) are ignored
+ */
+export async function setCachedResponse(url: string, data: unknown): Promise<void> {
+  if (!config.enabled) return
+
+  const key = getApiCacheKey(url)
+  const entry: ApiCacheEntry = { url, fetchedAt: Date.now(), data }
+  const content = JSON.stringify(entry)
+  if (!isDiskOnly(url)) rememberEntry(key, entry, content.length)
+
+  try {
+    await fs.mkdir(config.dir, { recursive: true })
+    await fs.writeFile(getCacheFilePath(key), content, "utf-8")
+  } catch {
+    // Memory cache still serves this process (except for disk-only endpoints)
+  }
+}
@@ -3,6 +3,9 @@
  * 
  * Free endpoints only (no Pro API required)
  * Includes error handling, timeouts, and retry logic
+ * Responses are cached with per-endpoint TTLs (see ./cache) and can be
+ * recorded to / replayed from fixtures (see ./fixtures)
+ * Payloads are validated and repaired before use (see ./validators)
  */
 
 import type {
@@ -16,9 +19,42 @@ import type {
   AllDEXOverview,
   ChainDEXOverview,
   ProtocolDEXData,
+  StablecoinAsset,
+  StablecoinChainEntry,
+  StablecoinChartPoint,
+  YieldPool,
+  BridgeEntry,
+  BridgeVolumePoint,
 } from "@/lib/types/defillama"
+import { getFixtureConfig, readFixture, writeFixture } from "./fixtures"
+import { getCachedResponse, setCachedResponse } from "./cache"
+import {
+  validateProtocolList,
+  validateProtocolDetail,
+  validateProtocolTVL,
+  validateChainList,
+  validateChainHistory,
+  validateProtocolFees,
+  validateAllFees,
+  validateChainFees,
+  validateAllDEXVolume,
+  validateChainDEXVolume,
+  validateProtocolDEXData,
+  validateStablecoins,
+  validateStablecoinChains,
+  validateStablecoinChart,
+  validateYieldPools,
+  validateBridges,
+  validateBridgeVolume,
+  formatValidationWarning,
+  type ValidationResult,
+  type ValidationWarning,
+} from "./validators"
 
 const BASE_URL = "https://api.llama.fi"
+const STABLECOINS_BASE_URL = "https://stablecoins.llama.fi"
+const YIELDS_BASE_URL = "https://yields.llama.fi"
+const BRIDGES_BASE_URL = "https://bridges.llama.fi"
 const DEFAULT_TIMEOUT_MS = 30000
 const MAX_RETRIES = 3
 const RETRY_DELAY_MS = 1000
@@ -26,6 +62,10 @@ const RETRY_DELAY_MS = 1000
 interface FetchOptions {
   timeout?: number
   retries?: number
+  /**
+   * Collects payload validation warnings (logged to the console if omitted)
+   */
+  warnings?: ValidationWarning[]
 }
 
 class DefiLlamaError extends Error {
@@ -41,10 +81,46 @@ class DefiLlamaError extends Error {
 
 /**
  * Fetch with timeout and retry logic
+ *
+ * Serves fresh responses from the API cache when available. In fixture
+ * replay mode, serves the saved response instead (a missing fixture fails
+ * like a 404). In record mode, saves every response handed out.
+ *
+ * Network responses aren't cached here: the caller caches them once the
+ * payload passes validation (fromNetwork is true).
  */
 async function fetchWithRetry<T>(
   url: string,
   options: FetchOptions = {}
+): Promise<{ data: T; fromNetwork: boolean }> {
+  const { mode } = getFixtureConfig()
+
+  if (mode === "replay") {
+    const fixture = await readFixture<T>(url)
+    if (fixture === undefined) {
+      throw new DefiLlamaError(`No fixture recorded for ${url}`, 404, url)
+    }
+    return { data: fixture, fromNetwork: false }
+  }
+
+  let data = await getCachedResponse<T>(url)
+  const fromNetwork = data === undefined
+  if (data === undefined) {
+    data = await fetchFromNetwork<T>(url, options)
+  }
+
+  if (mode === "record") {
+    await writeFixture(url, data)
+  }
+  return { data, fromNetwork }
+}
+
+/**
+ * Fetch from the network with timeout and retry logic
+ */
+async function fetchFromNetwork<T>(
+  url: string,
+  options: FetchOptions
 ): Promise<T> {
   const { timeout = DEFAULT_TIMEOUT_MS, retries = MAX_RETRIES } = options
 
@@ -94,6 +170,44 @@ async function fetchWithRetry<T>(
   throw lastError || new Error("Unknown fetch error")
 }
 
+/**
+ * Fetch a payload and run it through its validator
+ *
+ * Warnings go to options.warnings (or the console). Throws if the
+ * validator rejects the payload.
+ */
+async function fetchValidated<T>(
+  url: string,
+  validate: (raw: unknown, source: string) => ValidationResult<T>,
+  options: FetchOptions = {}
+): Promise<T> {
+  const { data: raw, fromNetwork } = await fetchWithRetry<unknown>(url, options)
+
+  // Source label is the endpoint path (e.g., "protocol/aave")
+  const { pathname, search } = new URL(url)
+  const { data, warnings } = validate(raw, `${pathname.slice(1)}${search}`)
+
+  if (warnings.length > 0) {
+    if (options.warnings) {
+      options.warnings.push(...warnings)
+    } else {
+      for (const warning of warnings) {
+        console.warn(`DefiLlama payload: ${formatValidationWarning(warning)}`)
+      }
+    }
+  }
+
+  if (data === null) {
+    throw new DefiLlamaError("Invalid response payload", undefined, url)
+  }
+
+  // Only cache accepted payloads, so a rejected one isn't served for the whole TTL
+  if (fromNetwork) {
+    await setCachedResponse(url, raw)
+  }
+  return data
+}
+
 // =============================================================================
 // TVL & Protocol Endpoints
 // =============================================================================
@@ -104,8 +218,9 @@ async function fetchWithRetry<T>(
 export async function getProtocols(
   options?: FetchOptions
 ): Promise<ProtocolListEntry[]> {
-  return fetchWithRetry<ProtocolListEntry[]>(
+  return fetchValidated(
     `${BASE_URL}/protocols`,
+    validateProtocolList,
     options
   )
 }
@@ -117,8 +232,9 @@ export async function getProtocol(
   slug: string,
   options?: FetchOptions
 ): Promise<ProtocolDetail> {
-  return fetchWithRetry<ProtocolDetail>(
+  return fetchValidated(
     `${BASE_URL}/protocol/${encodeURIComponent(slug)}`,
+    validateProtocolDetail,
     options
   )
 }
@@ -130,8 +246,9 @@ export async function getProtocolTVL(
   slug: string,
   options?: FetchOptions
 ): Promise<number> {
-  return fetchWithRetry<number>(
+  return fetchValidated(
     `${BASE_URL}/tvl/${encodeURIComponent(slug)}`,
+    validateProtocolTVL,
     options
   )
 }
@@ -146,8 +263,9 @@ export async function getProtocolTVL(
 export async function getChains(
   options?: FetchOptions
 ): Promise<ChainListEntry[]> {
-  return fetchWithRetry<ChainListEntry[]>(
+  return fetchValidated(
     `${BASE_URL}/v2/chains`,
+    validateChainList,
     options
   )
 }
@@ -159,8 +277,9 @@ export async function getChainTVLHistory(
   chain: string,
   options?: FetchOptions
 ): Promise<ChainTVLHistoryPoint[]> {
-  return fetchWithRetry<ChainTVLHistoryPoint[]>(
+  return fetchValidated(
     `${BASE_URL}/v2/historicalChainTvl/${encodeURIComponent(chain)}`,
+    validateChainHistory,
     options
   )
 }
@@ -183,8 +302,9 @@ export type FeesDataType = "dailyFees" | "dailyRevenue" | "dailyHoldersRevenue"
 export async function getAllFees(
   options?: FetchOptions
 ): Promise<AllFeesOverview> {
-  return fetchWithRetry<AllFeesOverview>(
+  return fetchValidated(
     `${BASE_URL}/overview/fees`,
+    validateAllFees,
     options
   )
 }
@@ -196,8 +316,9 @@ export async function getChainFees(
   chain: string,
   options?: FetchOptions
 ): Promise<ChainFeesOverview> {
-  return fetchWithRetry<ChainFeesOverview>(
+  return fetchValidated(
     `${BASE_URL}/overview/fees/${encodeURIComponent(chain)}`,
+    validateChainFees,
     options
   )
 }
@@ -217,7 +338,7 @@ export async function getProtocolFees(
   const url = dataType
     ? `${BASE_URL}/summary/fees/${encodeURIComponent(slug)}?dataType=${dataType}`
     : `${BASE_URL}/summary/fees/${encodeURIComponent(slug)}`
-  return fetchWithRetry<ProtocolFeesData>(url, options)
+  return fetchValidated(url, validateProtocolFees, options)
 }
 
 // =============================================================================
@@ -230,8 +351,9 @@ export async function getProtocolFees(
 export async function getAllDEXVolume(
   options?: FetchOptions
 ): Promise<AllDEXOverview> {
-  return fetchWithRetry<AllDEXOverview>(
+  return fetchValidated(
     `${BASE_URL}/overview/dexs`,
+    validateAllDEXVolume,
     options
   )
 }
@@ -243,8 +365,9 @@ export async function getChainDEXVolume(
   chain: string,
   options?: FetchOptions
 ): Promise<ChainDEXOverview> {
-  return fetchWithRetry<ChainDEXOverview>(
+  return fetchValidated(
     `${BASE_URL}/overview/dexs/${encodeURIComponent(chain)}`,
+    validateChainDEXVolume,
     options
   )
 }
@@ -256,8 +379,101 @@ export async function getProtocolDEXVolume(
   slug: string,
   options?: FetchOptions
 ): Promise<ProtocolDEXData> {
-  return fetchWithRetry<ProtocolDEXData>(
+  return fetchValidated(
     `${BASE_URL}/summary/dexs/${encodeURIComponent(slug)}`,
+    validateProtocolDEXData,
+    options
+  )
+}
+
+// =============================================================================
+// Stablecoin Endpoints
+// =============================================================================
+
+/**
+ * GET stablecoins.llama.fi/stablecoins - USD stablecoins with supply by chain
+ */
+export async function getStablecoins(
+  options?: FetchOptions
+): Promise<StablecoinAsset[]> {
+  return fetchValidated(
+    `${STABLECOINS_BASE_URL}/stablecoins`,
+    validateStablecoins,
+    options
+  )
+}
+
+/**
+ * GET stablecoins.llama.fi/stablecoinchains - Current stablecoin supply by chain
+ */
+export async function getStablecoinChains(
+  options?: FetchOptions
+): Promise<StablecoinChainEntry[]> {
+  return fetchValidated(
+    `${STABLECOINS_BASE_URL}/stablecoinchains`,
+    validateStablecoinChains,
+    options
+  )
+}
+
+/**
+ * GET stablecoins.llama.fi/stablecoincharts/{chain} - Historical stablecoin supply for a chain
+ */
+export async function getChainStablecoinHistory(
+  chain: string,
+  options?: FetchOptions
+): Promise<StablecoinChartPoint[]> {
+  return fetchValidated(
+    `${STABLECOINS_BASE_URL}/stablecoincharts/${encodeURIComponent(chain)}`,
+    validateStablecoinChart,
+    options
+  )
+}
+
+// =============================================================================
+// Yields Endpoints
+// =============================================================================
+
+/**
+ * GET yields.llama.fi/pools - All yield pools with current TVL and APY
+ */
+export async function getYieldPools(
+  options?: FetchOptions
+): Promise<YieldPool[]> {
+  return fetchValidated(
+    `${YIELDS_BASE_URL}/pools`,
+    validateYieldPools,
+    options
+  )
+}
+
+// =============================================================================
+// Bridge Endpoints
+// =============================================================================
+
+/**
+ * GET bridges.llama.fi/bridges - All bridges with volumes and connected chains
+ */
+export async function getBridges(
+  options?: FetchOptions
+): Promise<BridgeEntry[]> {
+  return fetchValidated(
+    `${BRIDGES_BASE_URL}/bridges?includeChains=true`,
+    validateBridges,
+    options
+  )
+}
+
+/**
+ * GET bridges.llama.fi/bridgevolume/{chain} - Daily bridge deposits and withdrawals for a chain
+ */
+export async function getChainBridgeVolume(
+  chain: string,
+  options?: FetchOptions
+): Promise<BridgeVolumePoint[]> {
+  return fetchValidated(
+    `${BRIDGES_BASE_URL}/bridgevolume/${encodeURIComponent(chain)}`,
+    validateBridgeVolume,
     options
   )
 }
@@ -0,0 +1,158 @@
+/**
+ * API Fixtures (Record/Replay)
+ *
+ * Saves API responses to disk in record mode and serves them back in
+ * replay mode, so episode generation can run offline and reproducibly
+ * against a fixed data snapshot.
+ *
+ * Fixtures are stored one file per endpoint, keyed by URL path and query:
+ *   https://api.llama.fi/protocol/aave -> {dir}/protocol/aave.json
+ *   https://api.llama.fi/summary/fees/aave?dataType=dailyRevenue
+ *     -> {dir}/summary/fees/aave__dataType=dailyRevenue.json
+ *   https://stablecoins.llama.fi/stablecoincharts/Ethereum
+ *     -> {dir}/stablecoincharts/Ethereum.json
+ *
+ * The host is not part of the key; DefiLlama's API hosts don't share paths.
+ *
+ * Configure via environment (DEFILLAMA_FIXTURES=record|replay,
+ * DEFILLAMA_FIXTURES_DIR) or programmatically with configureFixtures().
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Fixture mode
+ * - off: always hit the network
+ * - record: hit the network and save each response
+ * - replay: serve saved responses, never hit the network
+ */
+export type FixtureMode = "off" | "record" | "replay"
+
+export interface FixtureConfig {
+  mode: FixtureMode
+  /** Directory holding fixture files */
+  dir: string
+}
+
+export interface FixtureStats {
+  recorded: number
+  replayed: number
+  missing: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "data", "fixtures", "defillama")
+
+const FIXTURE_MODES: FixtureMode[] = ["off", "record", "replay"]
+
+function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (!value) return "off"
+  if (FIXTURE_MODES.includes(value as FixtureMode)) return value as FixtureMode
+  throw new Error(
+    `Invalid DEFILLAMA_FIXTURES value "${value}" (expected ${FIXTURE_MODES.join(", ")})`
+  )
+}
+
+let config: FixtureConfig = {
+  mode: parseFixtureMode(process.env.DEFILLAMA_FIXTURES),
+  dir: process.env.DEFILLAMA_FIXTURES_DIR
+    ? path.resolve(process.env.DEFILLAMA_FIXTURES_DIR)
+    : DEFAULT_FIXTURES_DIR,
+}
+
+const stats: FixtureStats = { recorded: 0, replayed: 0, missing: 0 }
+
+/**
+ * Override the fixture mode and/or directory (e.g., from CLI flags)
+ */
+export function configureFixtures(overrides: Partial<FixtureConfig>): void {
+  config = {
+    mode: overrides.mode ?? config.mode,
+    dir: overrides.dir ? path.resolve(overrides.dir) : config.dir,
+  }
+}
+
+/**
+ * Get the active fixture configuration
+ */
+export function getFixtureConfig(): FixtureConfig {
+  return { ...config }
+}
+
+/**
+ * Get counts of recorded, replayed, and missing fixtures for this process
+ */
+export function getFixtureStats(): FixtureStats {
+  return { ...stats }
+}
+
+// =============================================================================
+// Fixture Paths
+// =============================================================================
+
+/**
+ * Get the fixture file path for a URL, relative to the fixtures directory
+ */
+export function getFixtureKey(url: string): string {
+  const { pathname, search } = new URL(url)
+
+  const base = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/[^A-Za-z0-9._%-]/g, "_"))
+    .join("/")
+
+  const query = search
+    .slice(1)
+    .split("&")
+    .filter(Boolean)
+    .sort()
+    .map((param) => param.replace(/[^A-Za-z0-9._%=-]/g, "_"))
+    .join("__")
+
+  return `${base || "index"}${query ? `__${query}` : ""}.json`
+}
+
+function getFixturePath(url: string): string {
+  return path.join(config.dir, getFixtureKey(url))
+}
+
+// =============================================================================
+// Record / Replay
+// =============================================================================
+
+/**
+ * Read the saved response for a URL
+ * Returns undefined if no fixture exists
+ */
+export async function readFixture<T>(url: string): Promise<T | undefined> {
+  try {
+    const content = await fs.readFile(getFixturePath(url), "utf-8")
+    stats.replayed++
+    return JSON.parse(content) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      stats.missing++
+      return undefined
+    }
+    throw error
+  }
+}
+
+/**
+ * Save a response for a URL
+ */
+export async function writeFixture(url: string, data: unknown): Promise<void> {
+  const filePath = getFixturePath(url)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(data), "utf-8")
+  stats.recorded++
+}
@@ -0,0 +1,843 @@
+/**
+ * DefiLlama Response Validators
+ *
+ * Runtime checks for API payloads, so shape drift doesn't silently turn
+ * into NaN TVLs or empty questions. Each validator either returns a
+ * repaired payload matching the types in lib/types/defillama.ts, or null
+ * when the payload is unusable.
+ *
+ * Repairs:
+ * - Numeric strings are coerced to numbers ("123.4" -> 123.4)
+ * - Missing or null arrays become empty arrays
+ * - Invalid time series points and list entries are dropped
+ * - Non-numeric optional numbers are removed
+ *
+ * Every repair is recorded as a ValidationWarning. Warnings for list
+ * entries are aggregated by path ("protocols[].tvl") with a count.
+ */
+
+import type {
+  ProtocolListEntry,
+  ProtocolDetail,
+  ChainListEntry,
+  ChainTVLHistoryPoint,
+  ChainTVLData,
+  TVLDataPoint,
+  ProtocolFeesData,
+  ChainFeesOverview,
+  AllFeesOverview,
+  AllDEXOverview,
+  ChainDEXOverview,
+  ProtocolDEXData,
+  StablecoinAsset,
+  StablecoinChainEntry,
+  StablecoinChartPoint,
+  YieldPool,
+  BridgeEntry,
+  BridgeVolumePoint,
+} from "@/lib/types/defillama"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ValidationIssue =
+  | "coerced_number"
+  | "invalid_number"
+  | "missing_field"
+  | "wrong_type"
+  | "dropped_entries"
+  | "rejected_payload"
+
+/**
+ * A repair (or rejection) applied to an API payload
+ */
+export interface ValidationWarning {
+  /** Endpoint the payload came from (e.g., "protocol/aave") */
+  source: string
+  /** Field path within the payload (e.g., "tvl[].totalLiquidityUSD") */
+  path: string
+  issue: ValidationIssue
+  /** Number of occurrences (list entries are aggregated) */
+  count: number
+}
+
+export interface ValidationResult<T> {
+  /** Repaired payload, or null if rejected */
+  data: T | null
+  warnings: ValidationWarning[]
+}
+
+/**
+ * Collects warnings while validating one payload
+ */
+class WarningCollector {
+  private readonly byKey = new Map<string, ValidationWarning>()
+
+  constructor(private readonly source: string) {}
+
+  add(path: string, issue: ValidationIssue, count: number = 1): void {
+    if (count <= 0) return
+    const key = `${path}|${issue}`
+    const existing = this.byKey.get(key)
+    if (existing) {
+      existing.count += count
+    } else {
+      this.byKey.set(key, { source: this.source, path, issue, count })
+    }
+  }
+
+  result<T>(data: T | null): ValidationResult<T> {
+    if (data === null) this.add("$", "rejected_payload")
+    return { data, warnings: Array.from(this.byKey.values()) }
+  }
+}
+
+// =============================================================================
+// Primitive Readers
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Read a finite number, coercing numeric strings
+ * Returns undefined for missing or invalid values
+ */
+function readNumber(w: WarningCollector, value: unknown, path: string): number | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "number") {
+    if (Number.isFinite(value)) return value
+    w.add(path, "invalid_number")
+    return undefined
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value)
+    if (Number.isFinite(parsed)) {
+      w.add(path, "coerced_number")
+      return parsed
+    }
+  }
+  w.add(path, "invalid_number")
+  return undefined
+}
+
+/**
+ * Read a string, returning undefined for anything else
+ */
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined
+}
+
+/**
+ * Read an array of strings (missing -> [], non-strings dropped)
+ */
+function readStringArray(w: WarningCollector, value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) {
+    w.add(path, value === undefined || value === null ? "missing_field" : "wrong_type")
+    return []
+  }
+  const strings = value.filter((v): v is string => typeof v === "string" && v !== "")
+  w.add(`${path}[]`, "dropped_entries", value.length - strings.length)
+  return strings
+}
+
+/**
+ * Read a Record<string, number> (invalid values dropped)
+ */
+function readNumberRecord(
+  w: WarningCollector,
+  value: unknown,
+  path: string
+): Record<string, number> {
+  if (!isRecord(value)) {
+    w.add(path, value === undefined || value === null ? "missing_field" : "wrong_type")
+    return {}
+  }
+  const record: Record<string, number> = {}
+  for (const [key, raw] of Object.entries(value)) {
+    const num = readNumber(w, raw, `${path}{}`)
+    if (num !== undefined) record[key] = num
+  }
+  return record
+}
+
+/**
+ * Set optional numeric fields on a target, dropping invalid values
+ */
+function copyOptionalNumbers<K extends string>(
+  w: WarningCollector,
+  raw: Record<string, unknown>,
+  target: Partial<Record<K, number>>,
+  keys: readonly K[],
+  pathPrefix: string
+): void {
+  for (const key of keys) {
+    const num = readNumber(w, raw[key], `${pathPrefix}${key}`)
+    if (num !== undefined) target[key] = num
+  }
+}
+
+/**
+ * Read a time series of { date, [valueKey] } points
+ * Points with an invalid date or value are dropped
+ */
+function readTimeSeries<K extends string>(
+  w: WarningCollector,
+  value: unknown,
+  path: string,
+  valueKey: K
+): Array<{ date: number } & Record<K, number>> {
+  if (!Array.isArray(value)) {
+    w.add(path, value === undefined || value === null ? "missing_field" : "wrong_type")
+    return []
+  }
+
+  const points: Array<{ date: number } & Record<K, number>> = []
+  let dropped = 0
+  for (const point of value) {
+    const date = isRecord(point) ? readNumber(w, point.date, `${path}[].date`) : undefined
+    const val = isRecord(point) ? readNumber(w, point[valueKey], `${path}[].${valueKey}`) : undefined
+    if (date === undefined || val === undefined) {
+      dropped++
+      continue
+    }
+    points.push({ date, [valueKey]: val } as { date: number } & Record<K, number>)
+  }
+  w.add(`${path}[]`, "dropped_entries", dropped)
+  return points
+}
+
+/**
+ * Read a [timestamp, value] chart (invalid pairs dropped)
+ */
+function readChart(
+  w: WarningCollector,
+  value: unknown,
+  path: string
+): Array<[number, number]> | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) {
+    w.add(path, "wrong_type")
+    return undefined
+  }
+
+  const chart: Array<[number, number]> = []
+  let dropped = 0
+  for (const pair of value) {
+    const ts = Array.isArray(pair) ? readNumber(w, pair[0], `${path}[][0]`) : undefined
+    const val = Array.isArray(pair) ? readNumber(w, pair[1], `${path}[][1]`) : undefined
+    if (ts === undefined || val === undefined) {
+      dropped++
+      continue
+    }
+    chart.push([ts, val])
+  }
+  w.add(`${path}[]`, "dropped_entries", dropped)
+  return chart
+}
+
+/**
+ * Read a list of entries, dropping the ones the reader rejects
+ */
+function readEntries<T>(
+  w: WarningCollector,
+  value: unknown,
+  path: string,
+  readEntry: (raw: Record<string, unknown>) => T | null
+): T[] {
+  if (!Array.isArray(value)) {
+    w.add(path, value === undefined || value === null ? "missing_field" : "wrong_type")
+    return []
+  }
+
+  const entries: T[] = []
+  let dropped = 0
+  for (const raw of value) {
+    const entry = isRecord(raw) ? readEntry(raw) : null
+    if (entry) entries.push(entry)
+    else dropped++
+  }
+  w.add(`${path}[]`, "dropped_entries", dropped)
+  return entries
+}
+
+// =============================================================================
+// TVL & Protocol Validators
+// =============================================================================
+
+/**
+ * Validate GET /protocols
+ * Entries without a name, slug, or numeric TVL are dropped
+ */
+export function validateProtocolList(
+  raw: unknown,
+  source: string
+): ValidationResult<ProtocolListEntry[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<ProtocolListEntry[]>(null)
+  }
+
+  const entries = readEntries(w, raw, "protocols", (p) => {
+    const name = readString(p.name)
+    const slug = readString(p.slug)
+    const tvl = readNumber(w, p.tvl, "protocols[].tvl")
+    if (!name || !slug || tvl === undefined) return null
+
+    const entry: ProtocolListEntry = {
+      id: String(p.id ?? slug),
+      name,
+      slug,
+      category: readString(p.category) ?? "",
+      chains: readStringArray(w, p.chains, "protocols[].chains"),
+      tvl,
+      chainTvls: readNumberRecord(w, p.chainTvls ?? {}, "protocols[].chainTvls"),
+    }
+    copyOptionalNumbers(w, p, entry, ["change_1h", "change_1d", "change_7d", "mcap"] as const, "protocols[].")
+    if (readString(p.symbol)) entry.symbol = p.symbol as string
+    if (readString(p.logo)) entry.logo = p.logo as string
+    if (readString(p.url)) entry.url = p.url as string
+    return entry
+  })
+
+  // An empty list can't back any question
+  return w.result(entries.length > 0 ? entries : null)
+}
+
+/**
+ * Validate GET /protocol/{slug}
+ * Rejected without a name; missing TVL history and chains are repaired to empty
+ */
+export function validateProtocolDetail(
+  raw: unknown,
+  source: string
+): ValidationResult<ProtocolDetail> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<ProtocolDetail>(null)
+  }
+
+  const name = readString(raw.name)
+  if (!name) {
+    w.add("name", "missing_field")
+    return w.result<ProtocolDetail>(null)
+  }
+
+  const chainTvls: Record<string, ChainTVLData> = {}
+  if (isRecord(raw.chainTvls)) {
+    for (const [chain, chainData] of Object.entries(raw.chainTvls)) {
+      if (!isRecord(chainData)) {
+        w.add("chainTvls{}", "wrong_type")
+        continue
+      }
+      chainTvls[chain] = {
+        tvl: readTimeSeries(w, chainData.tvl, "chainTvls{}.tvl", "totalLiquidityUSD") as TVLDataPoint[],
+      }
+    }
+  } else {
+    w.add("chainTvls", "missing_field")
+  }
+
+  const detail: ProtocolDetail = {
+    id: String(raw.id ?? ""),
+    name,
+    slug: readString(raw.slug) ?? "",
+    category: readString(raw.category) ?? "",
+    chains: readStringArray(w, raw.chains, "chains"),
+    chainTvls,
+    tvl: readTimeSeries(w, raw.tvl, "tvl", "totalLiquidityUSD") as TVLDataPoint[],
+    currentChainTvls: readNumberRecord(w, raw.currentChainTvls, "currentChainTvls"),
+  }
+
+  if (!readString(raw.category)) w.add("category", "missing_field")
+
+  for (const key of ["symbol", "description", "logo", "url", "twitter"] as const) {
+    const value = readString(raw[key])
+    if (value) detail[key] = value
+  }
+
+  const mcap = readNumber(w, raw.mcap, "mcap")
+  if (mcap !== undefined) detail.mcap = mcap
+
+  if (raw.raises !== undefined && raw.raises !== null) {
+    detail.raises = readEntries(w, raw.raises, "raises", (r) => {
+      const date = readRaiseDate(w, r.date)
+      const amount = readNumber(w, r.amount, "raises[].amount")
+      if (!date || amount === undefined) return null
+      return { ...r, date, amount }
+    })
+  }
+
+  return w.result(detail)
+}
+
+/**
+ * Read a raise date as YYYY-MM-DD
+ * Unix timestamps (seconds) are DefiLlama's normal format and convert
+ * silently; strings are kept with a warning.
+ */
+function readRaiseDate(w: WarningCollector, value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return toDateString(value)
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) {
+      w.add("raises[].date", "coerced_number")
+      return toDateString(seconds)
+    }
+    w.add("raises[].date", "wrong_type")
+    return value
+  }
+  w.add("raises[].date", value === undefined || value === null ? "missing_field" : "wrong_type")
+  return undefined
+}
+
+function toDateString(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().split("T")[0]
+}
+
+/**
+ * Validate GET /tvl/{protocol}
+ */
+export function validateProtocolTVL(raw: unknown, source: string): ValidationResult<number> {
+  const w = new WarningCollector(source)
+  return w.result(readNumber(w, raw, "$") ?? null)
+}
+
+// =============================================================================
+// Chain Validators
+// =============================================================================
+
+/**
+ * Validate GET /v2/chains
+ * Entries without a name or numeric TVL are dropped
+ */
+export function validateChainList(
+  raw: unknown,
+  source: string
+): ValidationResult<ChainListEntry[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<ChainListEntry[]>(null)
+  }
+
+  const entries = readEntries(w, raw, "chains", (c) => {
+    const name = readString(c.name)
+    const tvl = readNumber(w, c.tvl, "chains[].tvl")
+    if (!name || tvl === undefined) return null
+
+    const entry: ChainListEntry = { name, tvl }
+    if (readString(c.gecko_id)) entry.gecko_id = c.gecko_id as string
+    if (readString(c.tokenSymbol)) entry.tokenSymbol = c.tokenSymbol as string
+    if (readString(c.cmcId)) entry.cmcId = c.cmcId as string
+    const chainId = readNumber(w, c.chainId, "chains[].chainId")
+    if (chainId !== undefined) entry.chainId = chainId
+    return entry
+  })
+
+  return w.result(entries.length > 0 ? entries : null)
+}
+
+/**
+ * Validate GET /v2/historicalChainTvl/{chain}
+ */
+export function validateChainHistory(
+  raw: unknown,
+  source: string
+): ValidationResult<ChainTVLHistoryPoint[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<ChainTVLHistoryPoint[]>(null)
+  }
+  return w.result(readTimeSeries(w, raw, "history", "tvl"))
+}
+
+// =============================================================================
+// Fees & Volume Validators
+// =============================================================================
+
+const SUMMARY_NUMBER_KEYS = [
+  "total24h",
+  "total48hto24h",
+  "total7d",
+  "total30d",
+  "totalAllTime",
+  "change_1d",
+  "change_7d",
+] as const
+
+const OVERVIEW_ENTRY_NUMBER_KEYS = [
+  "total24h",
+  "total7d",
+  "change_1d",
+  "fees24h",
+  "revenue24h",
+] as const
+
+/**
+ * Validate a per-protocol summary (GET /summary/fees/{protocol}, /summary/dexs/{protocol})
+ */
+function validateSummary(
+  raw: unknown,
+  source: string
+): ValidationResult<ProtocolFeesData & ProtocolDEXData> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<ProtocolFeesData & ProtocolDEXData>(null)
+  }
+
+  const name = readString(raw.name) ?? readString(raw.displayName) ?? ""
+  const summary: ProtocolFeesData & ProtocolDEXData = {
+    id: String(raw.id ?? ""),
+    name,
+    displayName: readString(raw.displayName) ?? name,
+    slug: readString(raw.slug) ?? "",
+    chains: readStringArray(w, raw.chains, "chains"),
+  }
+  copyOptionalNumbers(w, raw, summary, SUMMARY_NUMBER_KEYS, "")
+
+  const chart = readChart(w, raw.totalDataChart, "totalDataChart")
+  if (chart) summary.totalDataChart = chart
+
+  // Breakdown shapes vary by adapter; pass through when structurally sane
+  if (Array.isArray(raw.totalDataChartBreakdown)) {
+    summary.totalDataChartBreakdown =
+      raw.totalDataChartBreakdown as ProtocolFeesData["totalDataChartBreakdown"]
+  }
+  if (isRecord(raw.chainBreakdown)) {
+    summary.chainBreakdown = {}
+    for (const [chain, value] of Object.entries(raw.chainBreakdown)) {
+      const total24h = isRecord(value)
+        ? readNumber(w, value.total24h, "chainBreakdown{}.total24h")
+        : undefined
+      summary.chainBreakdown[chain] = total24h !== undefined ? { total24h } : {}
+    }
+  }
+  if (typeof raw.latestFetchIsOk === "boolean") {
+    summary.latestFetchIsOk = raw.latestFetchIsOk
+  }
+
+  return w.result(summary)
+}
+
+export function validateProtocolFees(
+  raw: unknown,
+  source: string
+): ValidationResult<ProtocolFeesData> {
+  return validateSummary(raw, source)
+}
+
+export function validateProtocolDEXData(
+  raw: unknown,
+  source: string
+): ValidationResult<ProtocolDEXData> {
+  return validateSummary(raw, source)
+}
+
+type OverviewPayload = AllFeesOverview & ChainFeesOverview & AllDEXOverview & ChainDEXOverview
+
+/**
+ * Validate a leaderboard overview (GET /overview/fees[/chain], /overview/dexs[/chain])
+ * Missing protocol lists are repaired to empty; entries without a slug or name are dropped
+ */
+function validateOverview(raw: unknown, source: string): ValidationResult<OverviewPayload> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<OverviewPayload>(null)
+  }
+
+  const overview: OverviewPayload = {
+    protocols: readEntries(w, raw.protocols, "protocols", (p) => {
+      const name = readString(p.name) ?? readString(p.displayName)
+      const slug = readString(p.slug)
+      if (!name || !slug) return null
+
+      const entry: OverviewPayload["protocols"][number] = {
+        name,
+        slug,
+        chains: readStringArray(w, p.chains ?? [], "protocols[].chains"),
+      }
+      copyOptionalNumbers(w, p, entry, OVERVIEW_ENTRY_NUMBER_KEYS, "protocols[].")
+      if (readString(p.displayName)) entry.displayName = p.displayName as string
+      if (readString(p.defillamaId)) entry.defillamaId = p.defillamaId as string
+      return entry
+    }),
+  }
+  copyOptionalNumbers(
+    w,
+    raw,
+    overview,
+    ["totalFees24h", "totalRevenue24h", "totalVolume", "change_1d", "change_7d", "change_30d"] as const,
+    ""
+  )
+
+  return w.result(overview)
+}
+
+export function validateAllFees(raw: unknown, source: string): ValidationResult<AllFeesOverview> {
+  return validateOverview(raw, source)
+}
+
+export function validateChainFees(raw: unknown, source: string): ValidationResult<ChainFeesOverview> {
+  return validateOverview(raw, source)
+}
+
+export function validateAllDEXVolume(raw: unknown, source: string): ValidationResult<AllDEXOverview> {
+  return validateOverview(raw, source)
+}
+
+export function validateChainDEXVolume(
+  raw: unknown,
+  source: string
+): ValidationResult<ChainDEXOverview> {
+  return validateOverview(raw, source)
+}
+
+// =============================================================================
+// Stablecoin Validators
+// =============================================================================
+
+/**
+ * Sum a { peggedUSD, peggedEUR, ... } amount record (invalid values dropped)
+ */
+function sumPeggedAmounts(w: WarningCollector, value: unknown, path: string): number | undefined {
+  if (!isRecord(value)) return undefined
+  const amounts = Object.values(readNumberRecord(w, value, path))
+  return amounts.length > 0 ? amounts.reduce((sum, v) => sum + v, 0) : undefined
+}
+
+/**
+ * Validate GET stablecoins.llama.fi/stablecoins
+ * Only USD-pegged stablecoins are kept; entries without a name, symbol,
+ * or circulating supply are dropped
+ */
+export function validateStablecoins(
+  raw: unknown,
+  source: string
+): ValidationResult<StablecoinAsset[]> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw) || !Array.isArray(raw.peggedAssets)) {
+    w.add("peggedAssets", isRecord(raw) ? "missing_field" : "wrong_type")
+    return w.result<StablecoinAsset[]>(null)
+  }
+
+  // Other pegs report supply in their own units, so they can't be compared in USD
+  const usdPegged = raw.peggedAssets.filter((a) => !isRecord(a) || a.pegType === "peggedUSD")
+
+  const entries = readEntries(w, usdPegged, "peggedAssets", (a) => {
+    const name = readString(a.name)
+    const symbol = readString(a.symbol)
+    const circulating = isRecord(a.circulating)
+      ? readNumber(w, a.circulating.peggedUSD, "peggedAssets[].circulating.peggedUSD")
+      : undefined
+    if (!name || !symbol || circulating === undefined) return null
+
+    const chainCirculating: Record<string, number> = {}
+    if (isRecord(a.chainCirculating)) {
+      for (const [chain, value] of Object.entries(a.chainCirculating)) {
+        const current = isRecord(value) && isRecord(value.current)
+          ? readNumber(w, value.current.peggedUSD, "peggedAssets[].chainCirculating{}.current.peggedUSD")
+          : undefined
+        if (current !== undefined) chainCirculating[chain] = current
+      }
+    }
+
+    const entry: StablecoinAsset = {
+      id: String(a.id ?? symbol),
+      name,
+      symbol,
+      pegType: "peggedUSD",
+      circulating,
+      chainCirculating,
+      chains: readStringArray(w, a.chains ?? [], "peggedAssets[].chains"),
+    }
+    if (readString(a.pegMechanism)) entry.pegMechanism = a.pegMechanism as string
+    return entry
+  })
+
+  return w.result(entries.length > 0 ? entries : null)
+}
+
+/**
+ * Validate GET stablecoins.llama.fi/stablecoinchains
+ * Entries without a name or supply are dropped
+ */
+export function validateStablecoinChains(
+  raw: unknown,
+  source: string
+): ValidationResult<StablecoinChainEntry[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<StablecoinChainEntry[]>(null)
+  }
+
+  const entries = readEntries(w, raw, "chains", (c) => {
+    const name = readString(c.name)
+    const total = sumPeggedAmounts(w, c.totalCirculatingUSD, "chains[].totalCirculatingUSD")
+    if (!name || total === undefined) return null
+
+    const entry: StablecoinChainEntry = { name, totalCirculatingUSD: total }
+    if (readString(c.gecko_id)) entry.gecko_id = c.gecko_id as string
+    if (readString(c.tokenSymbol)) entry.tokenSymbol = c.tokenSymbol as string
+    return entry
+  })
+
+  return w.result(entries.length > 0 ? entries : null)
+}
+
+/**
+ * Validate GET stablecoins.llama.fi/stablecoincharts/{chain}
+ * Dates are served as strings and converted without a warning;
+ * points without a date or supply are dropped
+ */
+export function validateStablecoinChart(
+  raw: unknown,
+  source: string
+): ValidationResult<StablecoinChartPoint[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<StablecoinChartPoint[]>(null)
+  }
+
+  const points = readEntries(w, raw, "chart", (p) => {
+    const date = typeof p.date === "string" && p.date.trim() !== "" ? Number(p.date) : p.date
+    const ts = readNumber(w, date, "chart[].date")
+    const total = sumPeggedAmounts(w, p.totalCirculatingUSD, "chart[].totalCirculatingUSD")
+    if (ts === undefined || total === undefined) return null
+    return { date: ts, totalCirculatingUSD: total }
+  })
+
+  return w.result(points)
+}
+
+// =============================================================================
+// Yields Validators
+// =============================================================================
+
+/**
+ * Validate GET yields.llama.fi/pools
+ * Pools without an ID, project, symbol, chain, or numeric TVL are dropped
+ */
+export function validateYieldPools(raw: unknown, source: string): ValidationResult<YieldPool[]> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw) || !Array.isArray(raw.data)) {
+    w.add("data", isRecord(raw) ? "missing_field" : "wrong_type")
+    return w.result<YieldPool[]>(null)
+  }
+
+  const pools = readEntries(w, raw.data, "data", (p) => {
+    const pool = readString(p.pool)
+    const project = readString(p.project)
+    const symbol = readString(p.symbol)
+    const chain = readString(p.chain)
+    const tvlUsd = readNumber(w, p.tvlUsd, "data[].tvlUsd")
+    if (!pool || !project || !symbol || !chain || tvlUsd === undefined) return null
+
+    const entry: YieldPool = { pool, project, symbol, chain, tvlUsd }
+    copyOptionalNumbers(w, p, entry, ["apy", "apyBase", "apyReward"] as const, "data[].")
+    if (typeof p.stablecoin === "boolean") entry.stablecoin = p.stablecoin
+    for (const key of ["ilRisk", "exposure", "poolMeta"] as const) {
+      const value = readString(p[key])
+      if (value) entry[key] = value
+    }
+    return entry
+  })
+
+  return w.result(pools.length > 0 ? pools : null)
+}
+
+// =============================================================================
+// Bridge Validators
+// =============================================================================
+
+/**
+ * Validate GET bridges.llama.fi/bridges
+ * Bridges without a numeric ID or name are dropped
+ */
+export function validateBridges(raw: unknown, source: string): ValidationResult<BridgeEntry[]> {
+  const w = new WarningCollector(source)
+  if (!isRecord(raw) || !Array.isArray(raw.bridges)) {
+    w.add("bridges", isRecord(raw) ? "missing_field" : "wrong_type")
+    return w.result<BridgeEntry[]>(null)
+  }
+
+  const bridges = readEntries(w, raw.bridges, "bridges", (b) => {
+    const id = readNumber(w, b.id, "bridges[].id")
+    const name = readString(b.name)
+    if (id === undefined || !name) return null
+
+    const entry: BridgeEntry = {
+      id,
+      name,
+      displayName: readString(b.displayName) ?? name,
+      chains: readStringArray(w, b.chains ?? [], "bridges[].chains"),
+    }
+    copyOptionalNumbers(
+      w,
+      b,
+      entry,
+      ["last24hVolume", "weeklyVolume", "monthlyVolume"] as const,
+      "bridges[]."
+    )
+    for (const key of ["destinationChain", "slug"] as const) {
+      const value = readString(b[key])
+      if (value) entry[key] = value
+    }
+    return entry
+  })
+
+  return w.result(bridges.length > 0 ? bridges : null)
+}
+
+/**
+ * Validate GET bridges.llama.fi/bridgevolume/{chain}
+ * Dates are served as strings and converted without a warning;
+ * points without a date, deposits, or withdrawals are dropped
+ */
+export function validateBridgeVolume(
+  raw: unknown,
+  source: string
+): ValidationResult<BridgeVolumePoint[]> {
+  const w = new WarningCollector(source)
+  if (!Array.isArray(raw)) {
+    w.add("$", "wrong_type")
+    return w.result<BridgeVolumePoint[]>(null)
+  }
+
+  const points = readEntries(w, raw, "volume", (p) => {
+    const date = typeof p.date === "string" && p.date.trim() !== "" ? Number(p.date) : p.date
+    const ts = readNumber(w, date, "volume[].date")
+    const depositUSD = readNumber(w, p.depositUSD, "volume[].depositUSD")
+    const withdrawUSD = readNumber(w, p.withdrawUSD, "volume[].withdrawUSD")
+    if (ts === undefined || depositUSD === undefined || withdrawUSD === undefined) return null
+
+    const point: BridgeVolumePoint = { date: ts, depositUSD, withdrawUSD }
+    copyOptionalNumbers(w, p, point, ["depositTxs", "withdrawTxs"] as const, "volume[].")
+    return point
+  })
+
+  return w.result(points)
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a warning for logs (e.g., "protocol/aave: tvl[] dropped_entries x3")
+ */
+export function formatValidationWarning(warning: ValidationWarning): string {
+  const count = warning.count > 1 ? ` x${warning.count}` : ""
+  return `${warning.source}: ${warning.path} ${warning.issue}${count}`
+}
@@ -5,7 +5,7 @@
  * Episodes are served from: /episodes/{YYYY-MM}/{DD}.json
  */
 
-import type { Episode } from "@/lib/types/episode"
+import type { Episode, EpisodeIndex } from "@/lib/types/episode"
 
 // =============================================================================
 // Date Utilities
@@ -162,13 +162,52 @@ export async function fetchTodayEpisode(): Promise<FetchEpisodeResponse> {
   return fetchEpisode(today)
 }
 
+// =============================================================================
+// Episode Index
+// =============================================================================
+
+const EPISODE_INDEX_PATH = "/episodes/index.json"
+
+/** Cached index request, shared across callers for the session */
+let episodeIndexPromise: Promise<EpisodeIndex | null> | null = null
+
+/**
+ * Fetch the manifest of published episodes (built at deploy time)
+ *
+ * @returns Episode index, or null if unavailable
+ */
+export function fetchEpisodeIndex(): Promise<EpisodeIndex | null> {
+  if (!episodeIndexPromise) {
+    episodeIndexPromise = fetch(EPISODE_INDEX_PATH)
+      .then(async (response) => {
+        if (!response.ok) return null
+        const data = await response.json()
+        return Array.isArray(data?.episodes) ? (data as EpisodeIndex) : null
+      })
+      .catch(() => null)
+      .then((index) => {
+        // Allow a retry on the next call if the fetch failed
+        if (!index) episodeIndexPromise = null
+        return index
+      })
+  }
+  return episodeIndexPromise
+}
+
 /**
  * Check if an episode exists for a given date (without downloading full content)
  *
+ * Uses the episode index when available, falling back to a HEAD request.
+ *
  * @param date - Date in YYYY-MM-DD format
  * @returns Whether the episode exists
  */
 export async function checkEpisodeExists(date: string): Promise<boolean> {
+  const index = await fetchEpisodeIndex()
+  if (index) {
+    return index.episodes.some((e) => e.dateUtc === date)
+  }
+
   const path = getEpisodePath(date)
 
   try {
@@ -0,0 +1,79 @@
+/**
+ * Client-side Write-in Answer Matching
+ *
+ * Matches free-form player input against a question's accepted answers.
+ * Input is normalized (case, accents, punctuation, filler words) and then
+ * compared with a small typo tolerance that scales with answer length.
+ */
+
+/**
+ * Filler words that are often added or dropped from protocol/chain names
+ * (e.g., "Lido Finance" vs "Lido", "Polygon Network" vs "Polygon")
+ */
+const FILLER_WORDS = new Set(["protocol", "finance", "network", "chain", "dao", "the"])
+
+/**
+ * Normalize a name for comparison
+ *
+ * Lowercases, strips accents and punctuation, and drops filler words.
+ * Falls back to the full word list if only filler words remain.
+ */
+export function normalizeAnswer(value: string): string {
+  const words = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+
+  const meaningful = words.filter((w) => !FILLER_WORDS.has(w))
+  return (meaningful.length > 0 ? meaningful : words).join("")
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Number of typos tolerated for a normalized answer of a given length.
+ * Short answers (tickers like "ETH") must match exactly.
+ */
+function getTypoTolerance(length: number): number {
+  if (length >= 9) return 2
+  if (length >= 5) return 1
+  return 0
+}
+
+/**
+ * Check whether player input matches any accepted answer
+ */
+export function matchesWriteIn(input: string, acceptedAnswers: string[]): boolean {
+  const normalizedInput = normalizeAnswer(input)
+  if (!normalizedInput) return false
+
+  return acceptedAnswers.some((answer) => {
+    const normalizedAnswer = normalizeAnswer(answer)
+    if (!normalizedAnswer) return false
+    if (normalizedInput === normalizedAnswer) return true
+    const tolerance = getTypoTolerance(normalizedAnswer.length)
+    return tolerance > 0 && editDistance(normalizedInput, normalizedAnswer) <= tolerance
+  })
+}
@@ -1,11 +1,14 @@
 /**
  * Client-side Game State Management
  *
- * Manages session-only state for the quiz game.
- * No persistence - state is lost on page refresh.
+ * Manages state for the quiz game. In-progress games are saved to
+ * localStorage after every answer and question change so a refresh
+ * resumes where the player left off; completed games are saved as results.
  */
 
-import type { Episode, Question } from "@/lib/types/episode"
+import type { DifficultyTarget, Episode, Question } from "@/lib/types/episode"
+import { scoreAnswer } from "./scoring"
+import { matchesWriteIn } from "./fuzzy-match"
 
 // =============================================================================
 // Answer Types
@@ -23,8 +26,17 @@ export interface PlayerAnswer {
   selectedValue?: boolean
   /** Order selected (for rank format) */
   selectedOrder?: string[]
+  /** Typed answer (for text format) */
+  selectedText?: string
+  /** Extra clues revealed before answering (fingerprint questions) */
+  hintsUsed?: number
   /** Whether the answer was correct */
   isCorrect: boolean
+  /**
+   * Credit earned, from 0 to 1 (partial credit for near misses).
+   * Missing on results saved before partial credit existed.
+   */
+  score?: number
   /** Time taken to answer in milliseconds */
   timeMs: number
 }
@@ -56,6 +68,8 @@ export interface GameState {
   completedAt: number | null
   /** When the current question was shown */
   questionStartedAt: number | null
+  /** Extra clues revealed for the current question */
+  hintsRevealed: number
 }
 
 // =============================================================================
@@ -74,6 +88,7 @@ export function createGameState(episode: Episode): GameState {
     startedAt: null,
     completedAt: null,
     questionStartedAt: null,
+    hintsRevealed: 0,
   }
 }
 
@@ -111,6 +126,7 @@ export function isAnswerCorrect(
     selectedIndex?: number
     selectedValue?: boolean
     selectedOrder?: string[]
+    selectedText?: string
   }
 ): boolean {
   const format = question.format
@@ -123,6 +139,10 @@ export function isAnswerCorrect(
       // All choice-based formats use answerIndex
       return question.answerIndex === answer.selectedIndex
 
+    case "text":
+      if (!question.acceptedAnswers || !answer.selectedText) return false
+      return matchesWriteIn(answer.selectedText, question.acceptedAnswers)
+
     case "rank4":
       if (!question.answerOrder || !answer.selectedOrder) return false
       if (question.answerOrder.length !== answer.selectedOrder.length)
@@ -149,6 +169,7 @@ export function submitAnswer(
     selectedIndex?: number
     selectedValue?: boolean
     selectedOrder?: string[]
+    selectedText?: string
   }
 ): GameState {
   if (state.status !== "in_progress") {
@@ -166,6 +187,8 @@ export function submitAnswer(
 
   // Evaluate answer
   const isCorrect = isAnswerCorrect(currentQuestion, answer)
+  const hintsUsed = state.hintsRevealed
+  const score = scoreAnswer(currentQuestion, answer, isCorrect, hintsUsed)
 
   // Create player answer record
   const playerAnswer: PlayerAnswer = {
@@ -173,7 +196,10 @@ export function submitAnswer(
     selectedIndex: answer.selectedIndex,
     selectedValue: answer.selectedValue,
     selectedOrder: answer.selectedOrder,
+    selectedText: answer.selectedText,
+    hintsUsed: hintsUsed > 0 ? hintsUsed : undefined,
     isCorrect,
+    score,
     timeMs,
   }
 
@@ -210,6 +236,27 @@ export function nextQuestion(state: GameState): GameState {
     ...state,
     currentQuestionIndex: nextIndex,
     questionStartedAt: Date.now(),
+    hintsRevealed: 0,
+  }
+}
+
+/**
+ * Reveal the next clue of the current question as a hint
+ * No-op once answered or when every clue is already shown
+ */
+export function revealHint(state: GameState): GameState {
+  if (state.status !== "in_progress" || hasAnsweredCurrent(state)) {
+    return state
+  }
+
+  const currentQuestion = getCurrentQuestion(state)
+  if (!currentQuestion || state.hintsRevealed >= getAvailableHints(currentQuestion)) {
+    return state
+  }
+
+  return {
+    ...state,
+    hintsRevealed: state.hintsRevealed + 1,
   }
 }
 
@@ -222,6 +269,7 @@ export function submitAndAdvance(
     selectedIndex?: number
     selectedValue?: boolean
     selectedOrder?: string[]
+    selectedText?: string
   },
   autoAdvance: boolean = false
 ): GameState {
@@ -248,6 +296,25 @@ export function getCurrentQuestion(state: GameState): Question | null {
   return state.episode.questions[state.currentQuestionIndex] ?? null
 }
 
+/**
+ * Get the number of hints a question offers
+ * Fingerprint questions start with one clue; each hint reveals another.
+ */
+export function getAvailableHints(question: Question): number {
+  return Math.max(0, (question.clues?.length ?? 0) - 1)
+}
+
+/**
+ * Get the number of clues to show for the current question
+ * All clues are shown once the question has been answered.
+ */
+export function getVisibleClueCount(state: GameState): number {
+  const currentQuestion = getCurrentQuestion(state)
+  if (!currentQuestion?.clues) return 0
+  if (hasAnsweredCurrent(state)) return currentQuestion.clues.length
+  return Math.min(currentQuestion.clues.length, 1 + state.hintsRevealed)
+}
+
 /**
  * Check if there's an answer for the current question
  */
@@ -267,12 +334,29 @@ export function getAnswer(
   return state.answers.find((a) => a.qid === qid)
 }
 
+/**
+ * Get the credit earned for an answer, falling back to
+ * all-or-nothing for answers saved without a score
+ */
+export function getAnswerScore(answer: PlayerAnswer): number {
+  return answer.score ?? (answer.isCorrect ? 1 : 0)
+}
+
+/**
+ * Get the total number of hints revealed across answers
+ */
+export function getTotalHints(answers: PlayerAnswer[]): number {
+  return answers.reduce((sum, a) => sum + (a.hintsUsed ?? 0), 0)
+}
+
 /**
  * Get game results
  */
 export function getResults(state: GameState): {
   totalQuestions: number
   correctCount: number
+  /** Total credit including partial credit */
+  score: number
   incorrectCount: number
   unansweredCount: number
   totalTimeMs: number
@@ -280,6 +364,7 @@ export function getResults(state: GameState): {
 } {
   const totalQuestions = state.episode.questions.length
   const correctCount = state.answers.filter((a) => a.isCorrect).length
+  const score = state.answers.reduce((sum, a) => sum + getAnswerScore(a), 0)
   const answeredCount = state.answers.length
   const incorrectCount = answeredCount - correctCount
   const unansweredCount = totalQuestions - answeredCount
@@ -290,6 +375,7 @@ export function getResults(state: GameState): {
   return {
     totalQuestions,
     correctCount,
+    score,
     incorrectCount,
     unansweredCount,
     totalTimeMs,
@@ -358,6 +444,15 @@ export function isGameStarted(state: GameState): boolean {
 // localStorage Persistence
 // =============================================================================
 
+/**
+ * Per-question metadata saved alongside answers (for stats)
+ */
+export interface SavedQuestionSummary {
+  qid: string
+  templateId: string
+  difficulty: DifficultyTarget
+}
+
 /**
  * Saved quiz result structure for localStorage
  */
@@ -370,15 +465,40 @@ export interface SavedQuizResult {
   answers: PlayerAnswer[]
   /** Number of correct answers */
   correctCount: number
+  /** Total credit including partial credit (missing on older saves) */
+  score?: number
   /** Total number of questions */
   totalQuestions: number
+  /** Question metadata (missing on older saves) */
+  questions?: SavedQuestionSummary[]
 }
 
+const STORAGE_KEY_PREFIX = "defidle:results:"
+
 /**
  * Get the localStorage key for a given date
  */
 function getStorageKey(date: string): string {
-  return `defidle:results:${date}`
+  return `${STORAGE_KEY_PREFIX}${date}`
+}
+
+/**
+ * List dates (YYYY-MM-DD) that have a saved quiz result, oldest first
+ */
+export function listSavedResultDates(): string[] {
+  try {
+    const dates: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(STORAGE_KEY_PREFIX)) {
+        dates.push(key.slice(STORAGE_KEY_PREFIX.length))
+      }
+    }
+    return dates.sort()
+  } catch {
+    // localStorage unavailable
+    return []
+  }
 }
 
 /**
@@ -395,7 +515,13 @@ export function saveQuizResult(date: string, state: GameState): void {
     completedAt: state.completedAt ?? Date.now(),
     answers: state.answers,
     correctCount: results.correctCount,
+    score: results.score,
     totalQuestions: results.totalQuestions,
+    questions: state.episode.questions.map((q) => ({
+      qid: q.qid,
+      templateId: q.templateId,
+      difficulty: q.difficulty,
+    })),
   }
 
   try {
@@ -472,5 +598,139 @@ export function restoreCompletedState(
     startedAt: savedResult.completedAt, // approximate
     completedAt: savedResult.completedAt,
     questionStartedAt: null,
+    hintsRevealed: 0,
+  }
+}
+
+// =============================================================================
+// In-Progress Persistence
+// =============================================================================
+
+/**
+ * Saved in-progress game structure for localStorage
+ */
+export interface SavedGameProgress {
+  /** Episode ID for validation */
+  episodeId: string
+  /** Current question index (0-based) */
+  currentQuestionIndex: number
+  /** Answers submitted so far */
+  answers: PlayerAnswer[]
+  /** When the game started */
+  startedAt: number | null
+  /** When the current question was shown */
+  questionStartedAt: number | null
+  /** Extra clues revealed for the current question (missing on older saves) */
+  hintsRevealed?: number
+}
+
+const PROGRESS_KEY_PREFIX = "defidle:progress:"
+
+/**
+ * Get the localStorage key for in-progress state on a given date
+ */
+function getProgressKey(date: string): string {
+  return `${PROGRESS_KEY_PREFIX}${date}`
+}
+
+/**
+ * Save in-progress game state to localStorage
+ * Ignored unless the game is in progress
+ */
+export function saveGameProgress(date: string, state: GameState): void {
+  if (state.status !== "in_progress") {
+    return
+  }
+
+  const progress: SavedGameProgress = {
+    episodeId: state.episode.episodeId,
+    currentQuestionIndex: state.currentQuestionIndex,
+    answers: state.answers,
+    startedAt: state.startedAt,
+    questionStartedAt: state.questionStartedAt,
+    hintsRevealed: state.hintsRevealed,
+  }
+
+  try {
+    localStorage.setItem(getProgressKey(date), JSON.stringify(progress))
+  } catch {
+    // localStorage unavailable or quota exceeded - fail silently
+  }
+}
+
+/**
+ * Load in-progress game state from localStorage
+ * Returns null if not found or invalid
+ */
+export function loadGameProgress(date: string): SavedGameProgress | null {
+  try {
+    const stored = localStorage.getItem(getProgressKey(date))
+    if (!stored) return null
+
+    const parsed = JSON.parse(stored) as SavedGameProgress
+
+    // Basic validation
+    if (
+      !parsed.episodeId ||
+      !Array.isArray(parsed.answers) ||
+      typeof parsed.currentQuestionIndex !== "number"
+    ) {
+      return null
+    }
+
+    return parsed
+  } catch {
+    // localStorage unavailable or parse error
+    return null
+  }
+}
+
+/**
+ * Clear in-progress game state from localStorage
+ */
+export function clearGameProgress(date: string): void {
+  try {
+    localStorage.removeItem(getProgressKey(date))
+  } catch {
+    // localStorage unavailable - fail silently
+  }
+}
+
+/**
+ * Restore an in-progress game state from saved progress
+ * Returns null if the episodeId doesn't match (stale data) or the saved
+ * progress doesn't fit the episode
+ */
+export function restoreInProgressState(
+  episode: Episode,
+  progress: SavedGameProgress
+): GameState | null {
+  // Validate that the saved progress matches this episode
+  if (progress.episodeId !== episode.episodeId) {
+    return null
+  }
+
+  const { currentQuestionIndex, answers } = progress
+  if (currentQuestionIndex < 0 || currentQuestionIndex >= episode.questions.length) {
+    return null
+  }
+
+  // Every answer must belong to a question at or before the current one
+  const reachedQids = new Set(
+    episode.questions.slice(0, currentQuestionIndex + 1).map((q) => q.qid)
+  )
+  if (!answers.every((a) => reachedQids.has(a.qid))) {
+    return null
+  }
+
+  return {
+    episode,
+    currentQuestionIndex,
+    answers,
+    status: "in_progress",
+    startedAt: progress.startedAt,
+    completedAt: null,
+    questionStartedAt: progress.questionStartedAt ?? Date.now(),
+    hintsRevealed: progress.hintsRevealed ?? 0,
   }
 }
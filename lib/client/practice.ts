@@ -0,0 +1,139 @@
+/**
+ * Client-side Practice Mode
+ *
+ * Fetches on-demand practice episodes from the practice API and keeps
+ * practice results in their own localStorage key, separate from daily
+ * results so they never count toward streaks or stats.
+ */
+
+import type { PracticeTopic } from "@/lib/types/episode"
+import type { FetchEpisodeResponse } from "./episode"
+import { getResults, type GameState } from "./game-state"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Saved practice result
+ */
+export interface SavedPracticeResult {
+  episodeId: string
+  topic: PracticeTopic
+  completedAt: number
+  correctCount: number
+  totalQuestions: number
+}
+
+const PRACTICE_STORAGE_KEY = "defidle:practice:results"
+
+/** Number of practice results kept in history */
+const MAX_PRACTICE_HISTORY = 50
+
+// =============================================================================
+// Fetching
+// =============================================================================
+
+/**
+ * Fetch the topics available for practice
+ */
+export async function fetchPracticeTopics(): Promise<PracticeTopic[] | null> {
+  try {
+    const response = await fetch("/api/practice/topics")
+    if (!response.ok) return null
+    const data = await response.json()
+    return Array.isArray(data?.topics) ? (data.topics as PracticeTopic[]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetch a freshly generated practice episode for a topic
+ */
+export async function fetchPracticeEpisode(
+  topic: Pick<PracticeTopic, "type" | "slug">
+): Promise<FetchEpisodeResponse> {
+  const params = new URLSearchParams({
+    type: topic.type,
+    slug: topic.slug,
+    seed: crypto.randomUUID(),
+  })
+
+  try {
+    const response = await fetch(`/api/practice?${params}`)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: response.status === 404
+          ? { code: "NOT_FOUND", message: "Couldn't build a practice quiz for this topic" }
+          : { code: "NETWORK_ERROR", message: `Practice generation failed: ${response.status}` },
+      }
+    }
+
+    const data = await response.json()
+    if (!data.episodeId || !Array.isArray(data.questions)) {
+      return {
+        success: false,
+        error: { code: "PARSE_ERROR", message: "Invalid episode format" },
+      }
+    }
+
+    return { success: true, episode: data }
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: "NETWORK_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+    }
+  }
+}
+
+// =============================================================================
+// localStorage Persistence
+// =============================================================================
+
+/**
+ * Load practice history, newest first
+ */
+export function loadPracticeHistory(): SavedPracticeResult[] {
+  try {
+    const stored = localStorage.getItem(PRACTICE_STORAGE_KEY)
+    if (!stored) return []
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? (parsed as SavedPracticeResult[]) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Save a completed practice game to practice history
+ */
+export function savePracticeResult(topic: PracticeTopic, state: GameState): void {
+  if (state.status !== "completed") return
+
+  const results = getResults(state)
+  const entry: SavedPracticeResult = {
+    episodeId: state.episode.episodeId,
+    topic,
+    completedAt: state.completedAt ?? Date.now(),
+    correctCount: results.correctCount,
+    totalQuestions: results.totalQuestions,
+  }
+
+  // The same episode can only be recorded once
+  const history = loadPracticeHistory().filter((r) => r.episodeId !== entry.episodeId)
+
+  try {
+    localStorage.setItem(
+      PRACTICE_STORAGE_KEY,
+      JSON.stringify([entry, ...history].slice(0, MAX_PRACTICE_HISTORY))
+    )
+  } catch {
+    // localStorage unavailable or quota exceeded - fail silently
+  }
+}
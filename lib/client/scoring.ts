@@ -0,0 +1,121 @@
+/**
+ * Client-side Answer Scoring
+ *
+ * Awards partial credit for near-miss answers:
+ * - rank4: Kendall tau correlation against the correct order
+ * - Ordered bucket choices: one bucket off earns half credit
+ *
+ * Every other answer scores 1 if correct and 0 otherwise. Revealing extra
+ * fingerprint clues (hints) then reduces whatever credit was earned.
+ */
+
+import type { Question } from "@/lib/types/episode"
+
+/** Credit for picking a bucket adjacent to the correct one */
+export const ADJACENT_BUCKET_CREDIT = 0.5
+
+/** Fraction of a question's credit lost per revealed hint */
+export const HINT_PENALTY = 0.15
+
+/** Most credit hints can take away, so a correct answer always earns something */
+export const MAX_HINT_PENALTY = 0.6
+
+/**
+ * Count pairs of items whose relative order differs between two rankings
+ * (the Kendall tau distance). Items missing from either ranking are ignored.
+ */
+export function kendallTauDistance(correct: string[], selected: string[]): number {
+  const position = new Map(selected.map((item, i) => [item, i]))
+  const items = correct.filter((item) => position.has(item))
+
+  let discordant = 0
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (position.get(items[i])! > position.get(items[j])!) discordant++
+    }
+  }
+  return discordant
+}
+
+/**
+ * Score a ranking from 0 to 1.
+ *
+ * Uses the Kendall tau correlation, clamped at 0 so that orders no better
+ * than random earn nothing. For 4 items, one adjacent swap scores 2/3.
+ */
+export function scoreRanking(correct: string[], selected: string[]): number {
+  if (correct.length < 2 || correct.length !== selected.length) return 0
+  if (!correct.every((item) => selected.includes(item))) return 0
+
+  const pairs = (correct.length * (correct.length - 1)) / 2
+  const tau = 1 - (2 * kendallTauDistance(correct, selected)) / pairs
+  return Math.max(0, tau)
+}
+
+/**
+ * Score a bucket choice from 0 to 1 based on its distance from the answer
+ */
+export function scoreBucketChoice(answerIndex: number, selectedIndex: number): number {
+  const distance = Math.abs(answerIndex - selectedIndex)
+  if (distance === 0) return 1
+  if (distance === 1) return ADJACENT_BUCKET_CREDIT
+  return 0
+}
+
+/**
+ * Get the credit multiplier after revealing hints (1 with no hints)
+ */
+export function getHintMultiplier(hintsUsed: number): number {
+  return 1 - Math.min(MAX_HINT_PENALTY, HINT_PENALTY * Math.max(0, hintsUsed))
+}
+
+/**
+ * Score an answer from 0 (wrong) to 1 (fully correct), after hint penalties
+ */
+export function scoreAnswer(
+  question: Question,
+  answer: {
+    selectedIndex?: number
+    selectedOrder?: string[]
+  },
+  isCorrect: boolean,
+  hintsUsed: number = 0
+): number {
+  return scoreBaseAnswer(question, answer, isCorrect) * getHintMultiplier(hintsUsed)
+}
+
+/**
+ * Score an answer from 0 to 1, ignoring hints
+ */
+function scoreBaseAnswer(
+  question: Question,
+  answer: {
+    selectedIndex?: number
+    selectedOrder?: string[]
+  },
+  isCorrect: boolean
+): number {
+  if (isCorrect) return 1
+
+  if (question.format === "rank4") {
+    if (!question.answerOrder || !answer.selectedOrder) return 0
+    return scoreRanking(question.answerOrder, answer.selectedOrder)
+  }
+
+  if (
+    question.orderedChoices &&
+    question.answerIndex !== undefined &&
+    answer.selectedIndex !== undefined
+  ) {
+    return scoreBucketChoice(question.answerIndex, answer.selectedIndex)
+  }
+
+  return 0
+}
+
+/**
+ * Format a score total for display (e.g., "3.5", "4")
+ */
+export function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1)
+}
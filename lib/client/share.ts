@@ -0,0 +1,165 @@
+/**
+ * Client-side Result Sharing
+ *
+ * Builds a Wordle-style emoji grid for a completed episode and shares it
+ * via the Web Share API or the clipboard. The topic name is never included
+ * so shared results don't spoil the quiz.
+ */
+
+import type { DifficultyTarget, EpisodeType } from "@/lib/types/episode"
+import {
+  getAnswerScore,
+  getResults,
+  getTotalHints,
+  type GameState,
+  type PlayerAnswer,
+  type SavedQuestionSummary,
+  type SavedQuizResult,
+} from "./game-state"
+import { formatScore } from "./scoring"
+
+/** Glyph for a fully correct answer, tinted by difficulty */
+const CORRECT_GLYPHS: Record<DifficultyTarget, string> = {
+  easy: "🟩",
+  medium: "🟨",
+  hard: "🟪",
+}
+
+/** Glyph for a partial credit answer, tinted by difficulty */
+const PARTIAL_GLYPHS: Record<DifficultyTarget, string> = {
+  easy: "🟢",
+  medium: "🟡",
+  hard: "🟣",
+}
+
+/** Glyph for an incorrect or unanswered question */
+const INCORRECT_GLYPH = "⬛"
+
+/** Marker for hints revealed on fingerprint questions */
+const HINT_GLYPH = "💡"
+
+const EPISODE_TYPE_LABELS: Record<EpisodeType, string> = {
+  protocol: "Protocol",
+  chain: "Chain",
+  category: "Category",
+}
+
+/**
+ * Everything needed to render a share card
+ */
+export interface ShareInput {
+  date: string
+  episodeType: EpisodeType
+  questions: Pick<SavedQuestionSummary, "qid" | "difficulty">[]
+  answers: PlayerAnswer[]
+  correctCount: number
+  totalQuestions: number
+  score: number
+}
+
+/**
+ * Render one glyph per question
+ */
+export function getShareGrid(input: Pick<ShareInput, "questions" | "answers">): string {
+  return input.questions
+    .map((question) => {
+      const answer = input.answers.find((a) => a.qid === question.qid)
+      if (!answer) return INCORRECT_GLYPH
+      if (answer.isCorrect) return CORRECT_GLYPHS[question.difficulty]
+      if (getAnswerScore(answer) > 0) return PARTIAL_GLYPHS[question.difficulty]
+      return INCORRECT_GLYPH
+    })
+    .join("")
+}
+
+/**
+ * Build the full share text (header, grid, optional link)
+ */
+export function buildShareText(input: ShareInput, url?: string): string {
+  const typeLabel = EPISODE_TYPE_LABELS[input.episodeType] ?? input.episodeType
+  const totalHints = getTotalHints(input.answers)
+
+  let scoreLabel = `${input.correctCount}/${input.totalQuestions}`
+  if (input.score !== input.correctCount) {
+    const adjustment = totalHints > 0 ? "after hints" : "with partial credit"
+    scoreLabel += ` (${formatScore(input.score)} ${adjustment})`
+  }
+  if (totalHints > 0) {
+    scoreLabel += ` · ${HINT_GLYPH}${totalHints}`
+  }
+
+  const lines = [
+    `DeFidle ${input.date} · ${typeLabel}`,
+    scoreLabel,
+    getShareGrid(input),
+  ]
+  if (url) lines.push(url)
+  return lines.join("\n")
+}
+
+/**
+ * Build share input from a completed game state
+ */
+export function getShareInputFromState(state: GameState): ShareInput {
+  const results = getResults(state)
+  return {
+    date: state.episode.dateUtc,
+    episodeType: state.episode.episodeType,
+    questions: state.episode.questions,
+    answers: state.answers,
+    correctCount: results.correctCount,
+    totalQuestions: results.totalQuestions,
+    score: results.score,
+  }
+}
+
+/**
+ * Build share input from a saved result (e.g., for the archive)
+ * Returns null for results saved without question metadata
+ */
+export function getShareInputFromSaved(
+  date: string,
+  saved: SavedQuizResult
+): ShareInput | null {
+  if (!saved.questions) return null
+
+  // Episode ID format: "YYYY-MM-DD:type:slug"
+  const episodeType = saved.episodeId.split(":")[1] as EpisodeType
+
+  return {
+    date,
+    episodeType,
+    questions: saved.questions,
+    answers: saved.answers,
+    correctCount: saved.correctCount,
+    totalQuestions: saved.totalQuestions,
+    score: saved.score ?? saved.correctCount,
+  }
+}
+
+/**
+ * Share text via the Web Share API, falling back to the clipboard
+ * Returns "dismissed" when the player closes the share sheet without sharing.
+ */
+export async function shareText(
+  text: string
+): Promise<"shared" | "dismissed" | "copied" | "failed"> {
+  if (typeof navigator === "undefined") return "failed"
+
+  if (typeof navigator.share === "function") {
+    try {
+      await navigator.share({ text })
+      return "shared"
+    } catch (error) {
+      // User dismissed the share sheet - don't fall back to the clipboard
+      if (error instanceof DOMException && error.name === "AbortError") return "dismissed"
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text)
+    return "copied"
+  } catch {
+    return "failed"
+  }
+}
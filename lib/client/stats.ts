@@ -0,0 +1,183 @@
+/**
+ * Client-side Player Stats
+ *
+ * Aggregates saved quiz results from localStorage into streaks,
+ * score distribution, timing, and accuracy breakdowns.
+ */
+
+import type { DifficultyTarget } from "@/lib/types/episode"
+import {
+  listSavedResultDates,
+  loadQuizResult,
+  type SavedQuizResult,
+} from "./game-state"
+import { getTodayDateUtc } from "./episode"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Correct/total tally for an accuracy breakdown
+ */
+export interface AccuracyStat {
+  correct: number
+  total: number
+}
+
+/**
+ * Aggregated stats across all saved episodes
+ */
+export interface PlayerStats {
+  /** Number of completed episodes */
+  gamesPlayed: number
+  /** Consecutive days played, ending today (or yesterday if today isn't played yet) */
+  currentStreak: number
+  /** Longest run of consecutive days played */
+  maxStreak: number
+  /** Number of games by correct count (index 0-5) */
+  distribution: number[]
+  /** Average time per answered question in milliseconds */
+  averageTimeMs: number
+  /** Accuracy by question difficulty */
+  accuracyByDifficulty: Record<DifficultyTarget, AccuracyStat>
+  /** Accuracy by template ID (only results saved with question metadata) */
+  accuracyByTemplate: Record<string, AccuracyStat>
+}
+
+/**
+ * A saved result paired with its episode date
+ */
+export interface DatedQuizResult {
+  date: string
+  result: SavedQuizResult
+}
+
+/** Highest correct count shown in the distribution */
+export const MAX_DISTRIBUTION_SCORE = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+/**
+ * Convert YYYY-MM-DD to a UTC day number for streak arithmetic
+ */
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS)
+}
+
+/**
+ * Compute current and max streaks from played dates
+ */
+function computeStreaks(
+  dates: string[],
+  today: string
+): { currentStreak: number; maxStreak: number } {
+  const days = [...new Set(dates.map(toDayNumber))].sort((a, b) => a - b)
+  if (days.length === 0) return { currentStreak: 0, maxStreak: 0 }
+
+  let maxStreak = 1
+  let run = 1
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1
+    maxStreak = Math.max(maxStreak, run)
+  }
+
+  // The current streak is still alive if the last play was today or yesterday
+  const todayNumber = toDayNumber(today)
+  const lastDay = days[days.length - 1]
+  const currentStreak = todayNumber - lastDay <= 1 ? run : 0
+
+  return { currentStreak, maxStreak }
+}
+
+/**
+ * Compute player stats from saved results
+ */
+export function computeStats(results: DatedQuizResult[], today: string): PlayerStats {
+  const distribution = new Array(MAX_DISTRIBUTION_SCORE + 1).fill(0)
+  const accuracyByDifficulty: Record<DifficultyTarget, AccuracyStat> = {
+    easy: { correct: 0, total: 0 },
+    medium: { correct: 0, total: 0 },
+    hard: { correct: 0, total: 0 },
+  }
+  const accuracyByTemplate: Record<string, AccuracyStat> = {}
+  let totalTimeMs = 0
+  let answerCount = 0
+
+  for (const { result } of results) {
+    const bucket = Math.min(Math.max(result.correctCount, 0), MAX_DISTRIBUTION_SCORE)
+    distribution[bucket]++
+
+    for (const answer of result.answers) {
+      totalTimeMs += answer.timeMs
+      answerCount++
+
+      const question = result.questions?.find((q) => q.qid === answer.qid)
+      if (!question) continue
+
+      const byDifficulty = accuracyByDifficulty[question.difficulty]
+      if (byDifficulty) {
+        byDifficulty.total++
+        if (answer.isCorrect) byDifficulty.correct++
+      }
+
+      const byTemplate = (accuracyByTemplate[question.templateId] ??= { correct: 0, total: 0 })
+      byTemplate.total++
+      if (answer.isCorrect) byTemplate.correct++
+    }
+  }
+
+  const { currentStreak, maxStreak } = computeStreaks(
+    results.map((r) => r.date),
+    today
+  )
+
+  return {
+    gamesPlayed: results.length,
+    currentStreak,
+    maxStreak,
+    distribution,
+    averageTimeMs: answerCount > 0 ? Math.round(totalTimeMs / answerCount) : 0,
+    accuracyByDifficulty,
+    accuracyByTemplate,
+  }
+}
+
+/**
+ * Load all saved results from localStorage and compute stats
+ */
+export function loadPlayerStats(today: string = getTodayDateUtc()): PlayerStats {
+  const results: DatedQuizResult[] = []
+  for (const date of listSavedResultDates()) {
+    const result = loadQuizResult(date)
+    if (result) results.push({ date, result })
+  }
+  return computeStats(results, today)
+}
+
+/**
+ * Format an accuracy stat as a percentage (e.g., "75%"), or "-" if empty
+ */
+export function formatAccuracy(stat: AccuracyStat): string {
+  if (stat.total === 0) return "-"
+  return `${Math.round((stat.correct / stat.total) * 100)}%`
+}
+
+/**
+ * Format a template ID for display (e.g., "P1_FINGERPRINT" -> "Fingerprint (P1)")
+ */
+export function formatTemplateId(templateId: string): string {
+  const match = templateId.match(/^([A-Z]+\d+)_(.+)$/)
+  if (!match) return templateId
+  const name = match[2]
+    .toLowerCase()
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ")
+  return `${name} (${match[1]})`
+}
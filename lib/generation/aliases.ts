@@ -0,0 +1,120 @@
+/**
+ * Write-in Alias Database
+ *
+ * Builds the accepted spellings for each protocol and chain in the topic pools.
+ * Used by text-format fingerprint questions, where the player types the answer
+ * instead of picking from choices.
+ *
+ * Aliases are derived from pool data (names, slugs, chain token symbols) and
+ * can be extended per slug via the "aliases" field in data/overrides.json.
+ */
+
+import { readFile } from "fs/promises"
+import type {
+  AliasDatabase,
+  AliasEntry,
+  ChainPoolEntry,
+  PoolOverrides,
+  ProtocolPoolEntry,
+} from "@/lib/types/pools"
+
+export const ALIAS_DATABASE_PATH = "./data/pools/aliases.json"
+
+/**
+ * Remove duplicate aliases (case-insensitive), keeping the first spelling
+ */
+function dedupeAliases(aliases: string[]): string[] {
+  const seen = new Set<string>()
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase()
+      if (!key || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Get accepted spellings for a protocol
+ *
+ * Includes the name, the slug, the slug with spaces, and the name without a
+ * version suffix (e.g., "Aave V3" -> "Aave").
+ */
+export function getProtocolAliases(entry: Pick<ProtocolPoolEntry, "name" | "slug">): string[] {
+  const unversioned = entry.name.replace(/\s+v\d+(\.\d+)?$/i, "")
+  return dedupeAliases([
+    entry.name,
+    entry.slug,
+    entry.slug.replace(/-/g, " "),
+    unversioned,
+  ])
+}
+
+/**
+ * Get accepted spellings for a chain
+ *
+ * Includes the name, the slug, and the native token symbol.
+ */
+export function getChainAliases(
+  entry: Pick<ChainPoolEntry, "name" | "slug" | "tokenSymbol">
+): string[] {
+  return dedupeAliases([entry.name, entry.slug, entry.tokenSymbol ?? ""])
+}
+
+/**
+ * Build the alias database from the topic pools
+ */
+export function buildAliasDatabase(
+  protocols: ProtocolPoolEntry[],
+  chains: ChainPoolEntry[],
+  overrides?: PoolOverrides["aliases"]
+): AliasDatabase {
+  const withOverrides = (slug: string, aliases: string[]) =>
+    dedupeAliases([...aliases, ...(overrides?.[slug] ?? [])])
+
+  const entries: AliasEntry[] = [
+    ...protocols.map((p) => ({
+      slug: p.slug,
+      name: p.name,
+      type: "protocol" as const,
+      aliases: withOverrides(p.slug, getProtocolAliases(p)),
+    })),
+    ...chains.map((c) => ({
+      slug: c.slug,
+      name: c.name,
+      type: "chain" as const,
+      aliases: withOverrides(c.slug, getChainAliases(c)),
+    })),
+  ]
+
+  return {
+    entries,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Load alias entries from the static JSON file
+ */
+export async function loadAliasEntries(): Promise<AliasEntry[]> {
+  try {
+    const content = await readFile(ALIAS_DATABASE_PATH, "utf-8")
+    const db = JSON.parse(content) as AliasDatabase
+    return db.entries
+  } catch (error) {
+    console.warn("Could not load alias database:", error)
+    return []
+  }
+}
+
+/**
+ * Find the alias entry for a topic
+ */
+export function findAliasEntry(
+  entries: AliasEntry[] | undefined,
+  type: AliasEntry["type"],
+  slug: string
+): AliasEntry | undefined {
+  return entries?.find((e) => e.type === type && e.slug === slug)
+}
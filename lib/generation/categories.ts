@@ -0,0 +1,116 @@
+/**
+ * Category Aggregation
+ *
+ * DefiLlama has no free per-category endpoint, so category topics are built
+ * by grouping the /protocols list by category. The same aggregation feeds the
+ * category pool (refresh-pools), category episode metrics, and templates.
+ *
+ * Category TVL sums protocol TVL (borrowed, staking, etc. excluded). The
+ * chain distribution sums each protocol's chainTvls over actual chains, and
+ * 7d growth is the TVL-weighted average of protocol change_7d, which the
+ * API reports in percent (e.g., 3.2 for +3.2%).
+ */
+
+import type { ProtocolListEntry } from "@/lib/types/defillama"
+import { isExcludedCategory, MIN_CATEGORY_TVL, MIN_CATEGORY_PROTOCOLS } from "./constants"
+import { filterToActualChains } from "./chain-filter"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Aggregated stats for one protocol category
+ */
+export interface CategoryStats {
+  /** DefiLlama category name (e.g., "Lending") */
+  name: string
+  slug: string
+  tvl: number
+  /** Protocols with TVL, sorted by TVL descending */
+  protocols: Array<{ slug: string; name: string; tvl: number }>
+  /** Category TVL by chain, sorted by TVL descending */
+  chains: Array<{ chain: string; tvl: number }>
+  /** TVL-weighted 7d change (e.g., 0.03 for +3%), undefined if no protocol reports one */
+  change7d?: number
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Get the pool slug for a category name ("Liquid Staking" -> "liquid-staking")
+ */
+export function getCategorySlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+/**
+ * Group the protocol list into categories, sorted by TVL descending
+ * Excluded categories (CEX) and protocols without TVL are skipped.
+ */
+export function aggregateCategories(list: ProtocolListEntry[]): CategoryStats[] {
+  const groups = new Map<string, ProtocolListEntry[]>()
+  for (const protocol of list) {
+    if (!protocol.category || isExcludedCategory(protocol.category)) continue
+    if (!(protocol.tvl > 0)) continue
+    const group = groups.get(protocol.category)
+    if (group) group.push(protocol)
+    else groups.set(protocol.category, [protocol])
+  }
+
+  const categories: CategoryStats[] = []
+  for (const [name, protocols] of groups) {
+    const tvl = protocols.reduce((sum, p) => sum + p.tvl, 0)
+
+    const chainTvls = new Map<string, number>()
+    for (const protocol of protocols) {
+      for (const [chain, chainTvl] of filterToActualChains(protocol.chainTvls ?? {})) {
+        chainTvls.set(chain, (chainTvls.get(chain) ?? 0) + chainTvl)
+      }
+    }
+
+    // Weight 7d change by TVL, over protocols that report one
+    const reporting = protocols.filter((p) => p.change_7d !== undefined)
+    const reportingTvl = reporting.reduce((sum, p) => sum + p.tvl, 0)
+
+    categories.push({
+      name,
+      slug: getCategorySlug(name),
+      tvl,
+      protocols: protocols
+        .map((p) => ({ slug: p.slug, name: p.name, tvl: p.tvl }))
+        .sort((a, b) => b.tvl - a.tvl),
+      chains: Array.from(chainTvls, ([chain, chainTvl]) => ({ chain, tvl: chainTvl })).sort(
+        (a, b) => b.tvl - a.tvl
+      ),
+      change7d:
+        reportingTvl > 0
+          ? reporting.reduce((sum, p) => sum + (p.change_7d! / 100) * p.tvl, 0) / reportingTvl
+          : undefined,
+    })
+  }
+
+  return categories.sort((a, b) => b.tvl - a.tvl)
+}
+
+/**
+ * Check if a category is large enough for topics and comparisons
+ */
+export function isSignificantCategory(category: CategoryStats): boolean {
+  return category.tvl >= MIN_CATEGORY_TVL && category.protocols.length >= MIN_CATEGORY_PROTOCOLS
+}
+
+/**
+ * Find a category's stats by pool slug
+ */
+export function findCategoryStats(
+  categories: CategoryStats[],
+  slug: string
+): CategoryStats | undefined {
+  return categories.find((c) => c.slug === slug)
+}
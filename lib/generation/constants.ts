@@ -26,3 +26,50 @@ export function isExcludedCategory(category: string | undefined): boolean {
   if (!category) return false
   return EXCLUDED_PROTOCOL_CATEGORIES.includes(category as ExcludedCategory)
 }
+
+/**
+ * Protocol categories that typically list yield pools on DefiLlama.
+ *
+ * Only consulted for pool entries refreshed before the hasYieldData flag
+ * existed. The yields pool list is a large download, so protocols that
+ * don't offer yield (bridges, chains, payments) skip it.
+ */
+export const YIELD_POOL_CATEGORIES = [
+  "Dexs",
+  "Lending",
+  "CDP",
+  "Yield",
+  "Yield Aggregator",
+  "Liquid Staking",
+  "Liquid Restaking",
+  "Restaking",
+  "Basis Trading",
+  "Derivatives",
+  "Onchain Capital Allocator",
+  "Risk Curators",
+  "RWA Lending",
+] as const
+
+/**
+ * Check if a protocol category typically lists yield pools
+ */
+export function isYieldPoolCategory(category: string): boolean {
+  return (YIELD_POOL_CATEGORIES as readonly string[]).includes(category)
+}
+
+/**
+ * Minimum pool TVL (USD) for a yield pool to count in APY questions.
+ *
+ * Dust pools often report extreme APYs from tiny reward emissions, which
+ * would skew a protocol's median APY.
+ */
+export const MIN_YIELD_POOL_TVL = 100_000
+
+/**
+ * Minimum category size for category topics and category comparisons.
+ *
+ * Tiny categories swing wildly on a single protocol's TVL, so their growth
+ * and market share questions would mostly measure noise.
+ */
+export const MIN_CATEGORY_TVL = 100_000_000
+export const MIN_CATEGORY_PROTOCOLS = 5
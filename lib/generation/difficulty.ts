@@ -29,6 +29,7 @@ export const FORMAT_FACTORS: Record<QuestionFormat, number> = {
   mc4: 0.55,   // Same - 4-choice is medium
   mc6: 0.75,   // Increased from 0.70 - 6-choice is harder
   rank4: 0.90, // Increased from 0.85 - ranking is hardest
+  text: 0.85,  // Write-in - no choices to eliminate, but fuzzy matching forgives typos
 }
 
 /**
@@ -66,6 +67,28 @@ export const TEMPLATE_COMPLEXITY_BONUS: Record<string, number> = {
   "P29_CATEGORY_GROWTH": 0.06,
   // Chain growth ranking requires knowing multiple chains' trends
   "C4_GROWTH_RANKING": 0.06,
+  // Funding history is niche knowledge; round timing is as hard as ATH timing
+  "P34_RAISED_BAND": 0.04,
+  "P35_LARGEST_ROUND_TIMING": 0.10,
+  "P36_TVL_VS_RAISED": 0.06,
+  // Market cap to TVL requires knowing both token and TVL figures
+  "P37_MCAP_TVL_BUCKET": 0.06,
+  // Volume figures are less familiar than TVL; rank needs the whole DEX leaderboard
+  "P38_VOLUME_TVL_RATIO": 0.06,
+  "P40_VOLUME_TREND_30D": 0.04,
+  "P41_DEX_VOLUME_RANK": 0.08,
+  // Yield pool composition and APYs are rarely quoted for a protocol
+  "P43_MEDIAN_APY_BAND": 0.06,
+  "P44_STABLE_POOL_SHARE": 0.04,
+  // Stablecoin supply figures are rarely quoted alongside chain TVL
+  "C17_STABLECOIN_SHARE": 0.06,
+  // Bridge flows and bridge leaderboards are rarely tracked per chain
+  "C18_BRIDGE_NET_FLOW": 0.04,
+  "C19_BUSIEST_BRIDGE": 0.06,
+  // Category internals (market share, chain split, weekly growth) are rarely quoted
+  "CAT3_CONCENTRATION": 0.04,
+  "CAT4_TOP_CHAIN": 0.04,
+  "CAT5_GROWTH_VS_CATEGORIES": 0.06,
 }
 
 /**
@@ -657,3 +657,20 @@ export function getChangeBucketIndex(change: number): number {
   if (change >= -0.1) return 1
   return 0
 }
+
+/**
+ * Get bucket choices for APY questions
+ */
+export function getApyBucketChoices(): string[] {
+  return ["<2%", "2-5%", "5-10%", ">10%"]
+}
+
+/**
+ * Get the answer index for an APY (in percent)
+ */
+export function getApyBucketIndex(apy: number): number {
+  if (apy >= 10) return 3
+  if (apy >= 5) return 2
+  if (apy >= 2) return 1
+  return 0
+}
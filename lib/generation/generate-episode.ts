@@ -6,13 +6,21 @@
  */
 
 import type {
+  BuildLogEntry,
+  DataSnapshot,
   Episode,
   FetchedData,
   DerivedMetrics,
   TemplateContext,
   ComparisonEntry,
 } from "@/lib/types/episode"
-import type { ProtocolPoolEntry, ChainPoolEntry, ChainPool } from "@/lib/types/pools"
+import type {
+  ProtocolPoolEntry,
+  ChainPoolEntry,
+  CategoryPoolEntry,
+  ChainPool,
+} from "@/lib/types/pools"
+import type { Template } from "@/lib/types/template"
 
 import {
   getProtocol,
@@ -22,24 +30,42 @@ import {
   getChainTVLHistory,
   getChainFees,
   getChainDEXVolume,
+  getProtocolDEXVolume,
+  getAllDEXVolume,
+  getStablecoins,
+  getChainStablecoinHistory,
+  getYieldPools,
+  getBridges,
+  getChainBridgeVolume,
 } from "@/lib/api/defillama"
+import type { YieldPool } from "@/lib/types/defillama"
+import { formatValidationWarning, type ValidationWarning } from "@/lib/api/validators"
 
 import { readFile } from "fs/promises"
 
 import {
   selectTopic,
   getEpisodeType,
+  getTopicEpisodeType,
   isProtocolTopic,
+  isCategoryTopic,
+  type Topic,
 } from "./topic-selection"
 
-import { getTemplateMatrix } from "./templates"
+import { getAllTemplates, getTemplateMatrix, withPriorityTemplates } from "./templates"
 import { seedFromParts } from "./rng"
-import { getSlots } from "./schedule"
+import { getScheduleOverride, getSlots } from "./schedule"
 import { selectAllQuestions } from "./slot-selection"
 import { postBalancePass } from "./post-balance"
+import { loadAliasEntries } from "./aliases"
+import { snapshotProtocolData, snapshotChainData, snapshotCategoryData } from "./snapshot"
+import { aggregateCategories, findCategoryStats, isSignificantCategory } from "./categories"
+import { MIN_YIELD_POOL_TVL, isYieldPoolCategory } from "./constants"
 import {
   percentChangeFromTvlHistory,
   percentChangeFromChainHistory,
+  percentChangeFromStablecoinHistory,
+  bridgeFlowsOverDays,
   volatilityFromTvlHistory,
   findAthFromTvlHistory,
   findAthFromChainHistory,
@@ -58,15 +84,19 @@ import {
 
 /**
  * Fetch all data needed for a protocol episode
+ *
+ * @param warnings - Collects payload validation warnings for the build log
  */
 async function fetchProtocolData(
-  topic: ProtocolPoolEntry
+  topic: ProtocolPoolEntry,
+  warnings: ValidationWarning[]
 ): Promise<FetchedData | null> {
   try {
-    // Fetch protocol detail and list in parallel
-    const [protocolDetail, protocolList] = await Promise.all([
-      getProtocol(topic.slug),
-      getProtocols(),
+    // Fetch protocol detail, list, and write-in aliases in parallel
+    const [protocolDetail, protocolList, aliases] = await Promise.all([
+      getProtocol(topic.slug, { warnings }),
+      getProtocols({ warnings }),
+      loadAliasEntries(),
     ])
 
     if (!protocolDetail) {
@@ -77,14 +107,15 @@ async function fetchProtocolData(
     const data: FetchedData = {
       protocolDetail,
       protocolList,
+      aliases,
     }
 
     // Try to fetch fees data if available
     if (topic.hasFeesData) {
       try {
         const [feesData, revenueData] = await Promise.all([
-          getProtocolFees(topic.slug, "dailyFees"),
-          getProtocolFees(topic.slug, "dailyRevenue"),
+          getProtocolFees(topic.slug, "dailyFees", { warnings }),
+          getProtocolFees(topic.slug, "dailyRevenue", { warnings }),
         ])
         data.protocolFees = feesData
         data.protocolRevenue = revenueData
@@ -93,6 +124,30 @@ async function fetchProtocolData(
       }
     }
 
+    // Try to fetch DEX volume data (and the DEX leaderboard for ranking)
+    if (topic.hasVolumeData) {
+      try {
+        const [volumeData, dexOverview] = await Promise.all([
+          getProtocolDEXVolume(topic.slug, { warnings }),
+          getAllDEXVolume({ warnings }),
+        ])
+        data.protocolDexVolume = volumeData
+        data.dexOverview = dexOverview
+      } catch {
+        console.warn(`Could not fetch DEX volume data for ${topic.slug}`)
+      }
+    }
+
+    // Try to fetch yield pools (the list covers every protocol, so skip protocols without any)
+    if (topic.hasYieldData ?? isYieldPoolCategory(topic.category)) {
+      try {
+        const yieldPools = filterProtocolYieldPools(await getYieldPools({ warnings }), topic.slug)
+        if (yieldPools.length > 0) data.yieldPools = yieldPools
+      } catch {
+        console.warn(`Could not fetch yield pools for ${topic.slug}`)
+      }
+    }
+
     return data
   } catch (error) {
     console.error(`Error fetching protocol data:`, error)
@@ -114,20 +169,35 @@ async function loadChainPool(): Promise<ChainPoolEntry[]> {
   }
 }
 
+/**
+ * Get a protocol's yield pools
+ * Yields projects use protocol slugs; parent protocols match their versions
+ * (e.g., "uniswap" -> "uniswap-v2", "uniswap-v3")
+ */
+function filterProtocolYieldPools(pools: YieldPool[], slug: string): YieldPool[] {
+  const exact = pools.filter((p) => p.project === slug)
+  if (exact.length > 0) return exact
+  return pools.filter((p) => p.project.startsWith(`${slug}-`))
+}
+
 /**
  * Fetch all data needed for a chain episode
+ *
+ * @param warnings - Collects payload validation warnings for the build log
  */
 async function fetchChainData(
-  topic: ChainPoolEntry
+  topic: ChainPoolEntry,
+  warnings: ValidationWarning[]
 ): Promise<FetchedData | null> {
   try {
     // Fetch chain list, history, pool, and protocol list in parallel
     // Protocol list is needed for templates like C10 (protocol count), C11 (top protocol), C12 (category dominance)
-    const [chainList, chainHistory, chainPool, protocolList] = await Promise.all([
-      getChains(),
-      getChainTVLHistory(topic.slug),
+    const [chainList, chainHistory, chainPool, protocolList, aliases] = await Promise.all([
+      getChains({ warnings }),
+      getChainTVLHistory(topic.slug, { warnings }),
       loadChainPool(),
-      getProtocols(),
+      getProtocols({ warnings }),
+      loadAliasEntries(),
     ])
 
     if (!chainHistory || chainHistory.length === 0) {
@@ -140,13 +210,14 @@ async function fetchChainData(
       chainHistory,
       chainPool,
       protocolList, // Add protocol list for chain templates that need it
+      aliases,
     }
 
     // Try to fetch chain fees and DEX volume
     try {
       const [chainFees, chainDexVolume] = await Promise.all([
-        getChainFees(topic.slug),
-        getChainDEXVolume(topic.slug),
+        getChainFees(topic.slug, { warnings }),
+        getChainDEXVolume(topic.slug, { warnings }),
       ])
       data.chainFees = chainFees
       data.chainDexVolume = chainDexVolume
@@ -154,6 +225,32 @@ async function fetchChainData(
       console.warn(`Could not fetch fees/dex data for chain ${topic.slug}`)
     }
 
+    // Pools refreshed before the flag existed leave it unset, so only skip an explicit false
+    if (topic.hasStablecoinData !== false) {
+      try {
+        const [stablecoins, chainStablecoinHistory] = await Promise.all([
+          getStablecoins({ warnings }),
+          getChainStablecoinHistory(topic.slug, { warnings }),
+        ])
+        data.stablecoins = stablecoins
+        data.chainStablecoinHistory = chainStablecoinHistory
+      } catch {
+        console.warn(`Could not fetch stablecoin data for chain ${topic.slug}`)
+      }
+    }
+
+    // Bridge flows are optional; many smaller chains have no bridge coverage
+    try {
+      const [bridges, chainBridgeVolume] = await Promise.all([
+        getBridges({ warnings }),
+        getChainBridgeVolume(topic.slug, { warnings }),
+      ])
+      data.bridges = bridges
+      data.chainBridgeVolume = chainBridgeVolume
+    } catch {
+      console.warn(`Could not fetch bridge data for chain ${topic.slug}`)
+    }
+
     return data
   } catch (error) {
     console.error(`Error fetching chain data:`, error)
@@ -161,6 +258,43 @@ async function fetchChainData(
   }
 }
 
+/**
+ * Fetch all data needed for a category episode
+ * Category stats are aggregated from the protocol list, so that's all we need.
+ *
+ * @param warnings - Collects payload validation warnings for the build log
+ */
+async function fetchCategoryData(
+  topic: CategoryPoolEntry,
+  warnings: ValidationWarning[]
+): Promise<FetchedData | null> {
+  try {
+    const protocolList = await getProtocols({ warnings })
+
+    if (!findCategoryStats(aggregateCategories(protocolList), topic.slug)) {
+      console.error(`No protocols found for category ${topic.name}`)
+      return null
+    }
+
+    return { protocolList }
+  } catch (error) {
+    console.error(`Error fetching category data:`, error)
+    return null
+  }
+}
+
+/**
+ * Convert a payload validation warning into a build log entry
+ */
+function toBuildLogEntry(warning: ValidationWarning): BuildLogEntry {
+  const count = warning.count > 1 ? ` (x${warning.count})` : ""
+  return {
+    decision: "data_warning",
+    reason: warning.issue,
+    detail: `${warning.source}: ${warning.path}${count}`,
+  }
+}
+
 // =============================================================================
 // Derived Metrics Computation
 // =============================================================================
@@ -256,6 +390,32 @@ function computeProtocolMetrics(
     metrics.revToFeesRatio = metrics.revenue7d / metrics.fees7d
   }
 
+  // Funding rounds (DefiLlama reports round sizes in millions of USD)
+  const raises = (detail.raises ?? []).filter((r) => r.amount > 0)
+  if (raises.length > 0) {
+    const largest = raises.reduce((max, r) => (r.amount > max.amount ? r : max))
+    metrics.totalRaised = raises.reduce((sum, r) => sum + r.amount, 0) * 1_000_000
+    metrics.raiseCount = raises.length
+    metrics.largestRaiseAmount = largest.amount * 1_000_000
+    metrics.largestRaiseDate = largest.date
+    metrics.largestRaiseRound = largest.round
+  }
+
+  // Market cap to TVL
+  if (detail.mcap && detail.mcap > 0 && currentTvl > 0) {
+    metrics.mcapToTvl = detail.mcap / currentTvl
+  }
+
+  // DEX volume
+  if (data.protocolDexVolume) {
+    Object.assign(metrics, computeVolumeMetrics(topic, data, currentTvl))
+  }
+
+  // Yield pools
+  if (data.yieldPools) {
+    Object.assign(metrics, computeYieldMetrics(data.yieldPools))
+  }
+
   // Store current TVL for threshold comparisons
   metrics.currentTvl = currentTvl
 
@@ -299,6 +459,97 @@ function computeProtocolMetrics(
   return metrics
 }
 
+/**
+ * Compute DEX volume metrics for a protocol episode
+ */
+function computeVolumeMetrics(
+  topic: ProtocolPoolEntry,
+  data: FetchedData,
+  currentTvl: number
+): DerivedMetrics {
+  const metrics: DerivedMetrics = {}
+  const volume = data.protocolDexVolume!
+  const chart = volume.totalDataChart ?? []
+
+  // 7d volume and capital efficiency
+  const volume7d =
+    chart.length >= 7
+      ? chart.slice(-7).reduce((sum, [, val]) => sum + val, 0)
+      : volume.total7d
+  if (volume7d && volume7d > 0) {
+    metrics.volume7d = volume7d
+    if (currentTvl > 0) metrics.volumeToTvl = volume7d / currentTvl
+  }
+
+  // 30d trend: last 30 days vs the 30 days before
+  if (chart.length >= 60) {
+    const recent = chart.slice(-30).reduce((sum, [, val]) => sum + val, 0)
+    const previous = chart.slice(-60, -30).reduce((sum, [, val]) => sum + val, 0)
+    if (previous > 0) metrics.volumeChange30d = (recent - previous) / previous
+  }
+
+  // Top chain by 24h volume
+  const chainVolumes = Object.entries(volume.chainBreakdown ?? {})
+    .map(([chain, v]) => ({ chain, volume: v.total24h ?? 0 }))
+    .filter((c) => c.volume > 0)
+    .sort((a, b) => b.volume - a.volume)
+  if (chainVolumes.length > 0) {
+    const total = chainVolumes.reduce((sum, c) => sum + c.volume, 0)
+    metrics.topVolumeChain = chainVolumes[0].chain
+    metrics.topVolumeChainShare = chainVolumes[0].volume / total
+  }
+
+  // Rank among all DEXs by 7d volume
+  if (data.dexOverview) {
+    const name = data.protocolDetail?.name.toLowerCase()
+    const ranked = data.dexOverview.protocols
+      .filter((p) => (p.total7d ?? 0) > 0)
+      .sort((a, b) => (b.total7d ?? 0) - (a.total7d ?? 0))
+    const index = ranked.findIndex(
+      (p) =>
+        p.slug === topic.slug ||
+        p.name.toLowerCase() === name ||
+        p.displayName?.toLowerCase() === name
+    )
+    if (index >= 0) metrics.dexVolumeRank = index + 1
+  }
+
+  return metrics
+}
+
+/**
+ * Compute yield metrics for a protocol episode
+ */
+function computeYieldMetrics(yieldPools: YieldPool[]): DerivedMetrics {
+  const metrics: DerivedMetrics = {}
+  const pools = yieldPools
+    .filter((p) => p.tvlUsd >= MIN_YIELD_POOL_TVL)
+    .sort((a, b) => b.tvlUsd - a.tvlUsd)
+  if (pools.length === 0) return metrics
+
+  metrics.yieldPoolCount = pools.length
+  metrics.topYieldPool = pools[0].symbol
+
+  // Median APY over pools reporting one
+  const apys = pools
+    .map((p) => p.apy)
+    .filter((apy): apy is number => apy !== undefined)
+    .sort((a, b) => a - b)
+  if (apys.length > 0) {
+    const mid = Math.floor(apys.length / 2)
+    metrics.medianApy = apys.length % 2 === 0 ? (apys[mid - 1] + apys[mid]) / 2 : apys[mid]
+  }
+
+  // Stablecoin-only pools' share of pool TVL
+  const totalTvl = pools.reduce((sum, p) => sum + p.tvlUsd, 0)
+  const stableTvl = pools
+    .filter((p) => p.stablecoin)
+    .reduce((sum, p) => sum + p.tvlUsd, 0)
+  metrics.stablePoolShare = stableTvl / totalTvl
+
+  return metrics
+}
+
 /**
  * Compute derived metrics for a chain episode
  */
@@ -331,6 +582,16 @@ function computeChainMetrics(
     }
   }
 
+  // Stablecoin metrics
+  if (data.chainStablecoinHistory || data.stablecoins) {
+    Object.assign(metrics, computeStablecoinMetrics(topic, data))
+  }
+
+  // Bridge metrics
+  if (data.chainBridgeVolume || data.bridges) {
+    Object.assign(metrics, computeBridgeMetrics(topic, data))
+  }
+
   // Also compute protocol metrics for context
   metrics.tvlRank = topic.tvlRank
   metrics.tvlRankBucket = getRankBucket(topic.tvlRank)
@@ -381,6 +642,141 @@ function computeChainMetrics(
   return metrics
 }
 
+/**
+ * Compute stablecoin metrics for a chain episode
+ */
+function computeStablecoinMetrics(
+  topic: ChainPoolEntry,
+  data: FetchedData
+): DerivedMetrics {
+  const metrics: DerivedMetrics = {}
+  const history = data.chainStablecoinHistory
+
+  // Supply, 30d trend, and share of chain TVL
+  if (history && history.length > 0) {
+    const supply = history[history.length - 1].totalCirculatingUSD
+    if (supply > 0) {
+      metrics.chainStablecoinSupply = supply
+      if (topic.tvl > 0) metrics.stablecoinToTvl = supply / topic.tvl
+    }
+    metrics.chainStablecoinChange30d =
+      percentChangeFromStablecoinHistory(history, 30) ?? undefined
+  }
+
+  // Dominant USD stablecoin on the chain
+  if (data.stablecoins) {
+    const chainLower = topic.slug.toLowerCase()
+    const onChain = data.stablecoins
+      .map((coin) => {
+        const key = Object.keys(coin.chainCirculating).find(
+          (chain) => chain.toLowerCase() === chainLower
+        )
+        return { symbol: coin.symbol, supply: key ? coin.chainCirculating[key] : 0 }
+      })
+      .filter((coin) => coin.supply > 0)
+      .sort((a, b) => b.supply - a.supply)
+    if (onChain.length > 0) {
+      const total = onChain.reduce((sum, coin) => sum + coin.supply, 0)
+      metrics.dominantStablecoin = onChain[0].symbol
+      metrics.dominantStablecoinShare = onChain[0].supply / total
+    }
+  }
+
+  return metrics
+}
+
+/**
+ * Compute bridge flow metrics for a chain episode
+ */
+function computeBridgeMetrics(
+  topic: ChainPoolEntry,
+  data: FetchedData
+): DerivedMetrics {
+  const metrics: DerivedMetrics = {}
+
+  // Net flows and volume over 7d and 30d
+  if (data.chainBridgeVolume) {
+    const flows7d = bridgeFlowsOverDays(data.chainBridgeVolume, 7)
+    if (flows7d && flows7d.volume > 0) {
+      metrics.bridgeNetFlow7d = flows7d.netFlow
+      metrics.bridgeVolume7d = flows7d.volume
+    }
+    const flows30d = bridgeFlowsOverDays(data.chainBridgeVolume, 30)
+    if (flows30d && flows30d.volume > 0) {
+      metrics.bridgeNetFlow30d = flows30d.netFlow
+      metrics.bridgeVolume30d = flows30d.volume
+    }
+  }
+
+  // Connected bridge with the most monthly volume (across all its chains)
+  if (data.bridges) {
+    const chainLower = topic.slug.toLowerCase()
+    const top = data.bridges
+      .filter(
+        (bridge) =>
+          (bridge.monthlyVolume ?? 0) > 0 &&
+          bridge.chains.some((chain) => chain.toLowerCase() === chainLower)
+      )
+      .sort((a, b) => (b.monthlyVolume ?? 0) - (a.monthlyVolume ?? 0))[0]
+    if (top) metrics.busiestBridge = top.displayName
+  }
+
+  return metrics
+}
+
+/**
+ * Compute derived metrics for a category episode
+ */
+function computeCategoryMetrics(
+  topic: CategoryPoolEntry,
+  data: FetchedData
+): DerivedMetrics {
+  const metrics: DerivedMetrics = {}
+  const categories = aggregateCategories(data.protocolList ?? [])
+  const stats = findCategoryStats(categories, topic.slug)
+  if (!stats) return metrics
+
+  // Rank among all categories by TVL
+  metrics.tvlRank = categories.indexOf(stats) + 1
+  metrics.tvlRankBucket = getRankBucket(metrics.tvlRank)
+  metrics.currentTvl = stats.tvl
+  metrics.change7d = stats.change7d
+
+  // Market share within the category
+  metrics.categoryProtocolCount = stats.protocols.length
+  if (stats.tvl > 0) {
+    metrics.categoryLeader = stats.protocols[0].name
+    metrics.categoryLeaderShare = stats.protocols[0].tvl / stats.tvl
+    metrics.categoryTop3Share =
+      stats.protocols.slice(0, 3).reduce((sum, p) => sum + p.tvl, 0) / stats.tvl
+  }
+
+  // Chain distribution
+  const chainTotal = stats.chains.reduce((sum, c) => sum + c.tvl, 0)
+  metrics.categoryChainCount = stats.chains.length
+  if (chainTotal > 0) {
+    metrics.categoryTopChain = stats.chains[0].chain
+    metrics.categoryTopChainShare = stats.chains[0].tvl / chainTotal
+  }
+
+  // Growth rank and nearby categories, among categories large enough to compare
+  const significant = categories.filter(
+    (c) => c.slug === stats.slug || isSignificantCategory(c)
+  )
+  if (stats.change7d !== undefined) {
+    metrics.categoryGrowthRank =
+      significant.filter((c) => c.change7d !== undefined && c.change7d > stats.change7d!)
+        .length + 1
+  }
+
+  const topicIndex = significant.indexOf(stats)
+  metrics.nearbyCategories = significant
+    .map((c, idx) => ({ slug: c.slug, name: c.name, tvl: c.tvl, rank: idx + 1 }))
+    .filter((c, idx) => idx !== topicIndex && Math.abs(idx - topicIndex) <= 3)
+
+  return metrics
+}
+
 // =============================================================================
 // Episode Generation Options
 // =============================================================================
@@ -392,14 +788,41 @@ export interface EpisodeGenerationOptions {
   skipCache?: boolean
   /** Enable verbose logging */
   verbose?: boolean
+  /** Rephrase question prompts with the LLM (original kept on each question) */
+  rephrase?: boolean
+  /**
+   * Use this topic instead of running topic selection.
+   * The episode type follows the topic rather than the day of week.
+   */
+  topic?: Topic
+  /**
+   * Seed key used instead of the date for question selection and the episode ID.
+   * Lets off-schedule episodes (e.g., practice) vary for the same topic and date.
+   */
+  seedKey?: string
+  /**
+   * Rewind historical series to the episode date and recompute values from
+   * them, so past dates reproduce their original facts where possible
+   */
+  snapshot?: boolean
 }
 
 /**
  * Log warnings about topic data quality issues.
  * Helps identify protocols with limited data that may produce lower quality questions.
  */
-function logDataQualityWarnings(topic: ProtocolPoolEntry | ChainPoolEntry): void {
-  if ("hasFeesData" in topic) {
+function logDataQualityWarnings(topic: Topic): void {
+  if (isCategoryTopic(topic)) {
+    if (topic.protocolCount < 10) {
+      console.log(
+        `  Note: Category "${topic.name}" has few protocols (${topic.protocolCount})`
+      )
+    }
+
+    if (topic.change7d === undefined) {
+      console.warn(`  Data quality: Category "${topic.name}" has no 7d growth data`)
+    }
+  } else if ("hasFeesData" in topic) {
     // Protocol topic
     const protocol = topic as ProtocolPoolEntry
 
@@ -458,7 +881,7 @@ function logDataQualityWarnings(topic: ProtocolPoolEntry | ChainPoolEntry): void
  * 8. Returns assembled episode
  *
  * @param date - Date in YYYY-MM-DD format
- * @param options - Generation options (skipLLM, skipCache, verbose)
+ * @param options - Generation options (skipLLM, skipCache, verbose, rephrase, topic, seedKey, snapshot)
  * @returns Generated episode or null if generation failed
  */
 export async function generateEpisode(
@@ -470,19 +893,27 @@ export async function generateEpisode(
   console.log(`\n=== Generating episode for ${date} ===\n`)
 
   // Check LLM readiness
-  const llmStatus = checkLLMReady()
+  const llmStatus = checkLLMReady(options.skipLLM)
   if (verbose) {
     console.log(`LLM Status: ${llmStatus.ready ? "Ready" : `Not ready (${llmStatus.reason})`}`)
   }
 
-  // 1. Determine episode type
-  const episodeType = getEpisodeType(date)
+  // 1. Determine episode type (a forced topic decides its own type)
+  const episodeType = options.topic
+    ? getTopicEpisodeType(options.topic)
+    : getEpisodeType(date)
   console.log(`Episode type: ${episodeType}`)
 
+  // Special-event dates can pin the topic and templates in the schedule config
+  const scheduled = options.topic ? undefined : getScheduleOverride(date)
+  if (scheduled) {
+    console.log(`Scheduled override${scheduled.note ? `: ${scheduled.note}` : ""}`)
+  }
+
   // 2. Select topic
-  let topic: ProtocolPoolEntry | ChainPoolEntry
+  let topic: Topic
   try {
-    topic = await selectTopic(date, episodeType)
+    topic = options.topic ?? await selectTopic(date, episodeType)
     console.log(`Selected topic: ${topic.name} (${topic.slug})`)
     logDataQualityWarnings(topic)
   } catch (error) {
@@ -492,11 +923,18 @@ export async function generateEpisode(
 
   // 3. Fetch data
   console.log("Fetching data...")
+  const dataWarnings: ValidationWarning[] = []
   let data: FetchedData | null
   if (isProtocolTopic(topic)) {
-    data = await fetchProtocolData(topic)
+    data = await fetchProtocolData(topic, dataWarnings)
+  } else if (isCategoryTopic(topic)) {
+    data = await fetchCategoryData(topic, dataWarnings)
   } else {
-    data = await fetchChainData(topic)
+    data = await fetchChainData(topic, dataWarnings)
+  }
+
+  for (const warning of dataWarnings) {
+    console.warn(`Data warning: ${formatValidationWarning(warning)}`)
   }
 
   if (!data) {
@@ -505,11 +943,39 @@ export async function generateEpisode(
   }
   console.log("Data fetched successfully")
 
+  // 3b. Rewind data to the episode date (snapshot mode)
+  let dataSnapshot: DataSnapshot | undefined
+  if (options.snapshot) {
+    const result = isProtocolTopic(topic)
+      ? snapshotProtocolData(topic, data, date)
+      : isCategoryTopic(topic)
+        ? snapshotCategoryData(topic, data, date)
+        : snapshotChainData(topic, data, date)
+
+    if (!result) {
+      console.error(`No TVL history for ${topic.name} as of ${date}`)
+      return null
+    }
+
+    topic = result.topic
+    data = result.data
+    dataSnapshot = result.snapshot
+    console.log(
+      `Snapshot as of ${date}: ${dataSnapshot.asOfMetrics.length} as-of, ` +
+        `${dataSnapshot.latestMetrics.length} latest-available metrics`
+    )
+    if (verbose) {
+      console.log(`  Latest-available: ${dataSnapshot.latestMetrics.join(", ")}`)
+    }
+  }
+
   // 4. Compute derived metrics
   console.log("Computing derived metrics...")
   let derived: DerivedMetrics
   if (isProtocolTopic(topic)) {
     derived = computeProtocolMetrics(topic, data)
+  } else if (isCategoryTopic(topic)) {
+    derived = computeCategoryMetrics(topic, data)
   } else {
     derived = computeChainMetrics(topic, data)
   }
@@ -524,18 +990,35 @@ export async function generateEpisode(
     topic,
     data,
     derived,
+    snapshot: dataSnapshot,
   }
 
-  // 6. Get template matrix and slots
-  const matrix = getTemplateMatrix(episodeType)
+  // 6. Get template matrix and slots (scheduled templates go first)
+  const scheduleLog: BuildLogEntry[] = []
+  const episodeTemplates = getAllTemplates(episodeType)
+  const priorityTemplates: Template[] = []
+  for (const id of scheduled?.templates ?? []) {
+    const template = episodeTemplates.find((t) => t.id === id)
+    if (template) {
+      priorityTemplates.push(template)
+    } else {
+      console.warn(`Scheduled template ${id} is not a ${episodeType} template, ignoring`)
+      scheduleLog.push({ template: id, decision: "skip", reason: "unknown_scheduled_template" })
+    }
+  }
+  const matrix = withPriorityTemplates(getTemplateMatrix(episodeType), priorityTemplates)
   const slots = getSlots()
-  const baseSeed = seedFromParts(date, episodeType, topic.slug)
+  const seedKey = options.seedKey ?? date
+  const baseSeed = seedFromParts(seedKey, episodeType, topic.slug)
 
   // 7. Select questions for each slot
   console.log("Selecting questions...")
   const { drafts, buildLog, usedSemanticTopics } = selectAllQuestions(slots, matrix, ctx, baseSeed)
   console.log(`Selected ${drafts.length} questions`)
 
+  // Data warnings go first, since they explain later prereq failures
+  buildLog.unshift(...dataWarnings.map(toBuildLogEntry), ...scheduleLog)
+
   // 8. Run post-balance pass
   if (verbose) {
     console.log("Running post-balance pass...")
@@ -548,6 +1031,8 @@ export async function generateEpisode(
     skipLLM: options.skipLLM,
     skipCache: options.skipCache,
     verbose: options.verbose,
+    rephrase: options.rephrase,
+    buildLog,
   }
   const questions = await generateAllQuestionText(
     balancedDrafts,
@@ -566,7 +1051,7 @@ export async function generateEpisode(
 
   // 10. Assemble episode
   const episode: Episode = {
-    episodeId: `${date}:${episodeType}:${topic.slug}`,
+    episodeId: `${seedKey}:${episodeType}:${topic.slug}`,
     dateUtc: date,
     episodeType,
     topic: {
@@ -577,6 +1062,7 @@ export async function generateEpisode(
     questions,
     generatedAt: new Date().toISOString(),
     buildLog,
+    ...(dataSnapshot ? { dataSnapshot } : {}),
   }
 
   // Log summary
@@ -132,6 +132,45 @@ export function percentChangeFromChainHistory(
   return percentChange(series, days)
 }
 
+/**
+ * Calculate percentage change from chain stablecoin supply history
+ */
+export function percentChangeFromStablecoinHistory(
+  history: Array<{ date: number; totalCirculatingUSD: number }>,
+  days: number
+): number | null {
+  if (history.length < 2) return null
+
+  const series = history.map((p) => ({
+    ts: p.date,
+    value: p.totalCirculatingUSD,
+  }))
+
+  return percentChange(series, days)
+}
+
+/**
+ * Sum bridge flows over the last N days of a daily bridge volume series
+ * Net flow is withdrawals (arriving) minus deposits (leaving)
+ *
+ * @returns Net flow and total volume in USD, or null if the series doesn't cover the window
+ */
+export function bridgeFlowsOverDays(
+  volume: Array<{ date: number; depositUSD: number; withdrawUSD: number }>,
+  days: number
+): { netFlow: number; volume: number } | null {
+  if (volume.length === 0) return null
+
+  const windowStart = volume[volume.length - 1].date - (days - 1) * 86400
+  if (volume[0].date > windowStart) return null
+
+  const window = volume.filter((p) => p.date >= windowStart)
+  return {
+    netFlow: window.reduce((sum, p) => sum + p.withdrawUSD - p.depositUSD, 0),
+    volume: window.reduce((sum, p) => sum + p.withdrawUSD + p.depositUSD, 0),
+  }
+}
+
 // =============================================================================
 // Margin Calculations
 // =============================================================================
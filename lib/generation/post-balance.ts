@@ -13,7 +13,12 @@ import type {
   BuildLogEntry,
   TemplateContext,
 } from "@/lib/types/episode"
-import { getChangeBucketChoices, getChangeBucketIndex } from "./distractors"
+import {
+  getChangeBucketChoices,
+  getChangeBucketIndex,
+  getApyBucketChoices,
+  getApyBucketIndex,
+} from "./distractors"
 import { computeDifficulty } from "./difficulty"
 
 // Note: Fingerprint redundancy checking has been removed in favor of the
@@ -43,21 +48,22 @@ function convertToBucketFormat(
   draft: QuestionDraft,
   ctx: TemplateContext
 ): QuestionDraft | null {
-  // Only convert if we have change-related data
-  if (
-    draft.templateId === "P6_TVL_TREND" ||
-    draft.templateId === "C4_GROWTH_RANKING"
-  ) {
-    // Convert to bucketed MC4 format
-    const change = ctx.derived.change7d ?? ctx.derived.change30d ?? 0
+  // Only convert if we have change-related data. Cross-entity comparisons
+  // (e.g., C4 growth rankings) ask about other chains, so the topic's own
+  // change buckets can't answer them and they're left as-is.
+  if (draft.templateId === "P6_TVL_TREND" && ctx.derived.change30d !== undefined) {
+    // Convert to bucketed MC4 format (P6 asks about the 30-day change)
     const choices = getChangeBucketChoices()
-    const answerIndex = getChangeBucketIndex(change)
+    const answerIndex = getChangeBucketIndex(ctx.derived.change30d)
 
     return {
       ...draft,
       format: "mc4",
+      prompt: `What was ${ctx.topic.name}'s approximate TVL change over the past 30 days?`,
       choices,
       answerIndex,
+      answerValue: undefined,
+      orderedChoices: true,
       signals: {
         ...draft.signals,
         format: "mc4",
@@ -70,6 +76,32 @@ function convertToBucketFormat(
     }
   }
 
+  // APY questions: convert exact comparisons to APY bands
+  if (
+    draft.templateId === "P43_MEDIAN_APY_BAND" &&
+    draft.format !== "mc4" &&
+    ctx.derived.medianApy !== undefined
+  ) {
+    return {
+      ...draft,
+      format: "mc4",
+      prompt: `What is the median APY across ${ctx.topic.name}'s yield pools?`,
+      choices: getApyBucketChoices(),
+      answerIndex: getApyBucketIndex(ctx.derived.medianApy),
+      answerValue: undefined,
+      orderedChoices: true,
+      signals: {
+        ...draft.signals,
+        format: "mc4",
+        volatility: 0.3, // Reduced volatility for buckets
+      },
+      buildNotes: [
+        ...draft.buildNotes,
+        "Converted to APY bands to reduce volatility",
+      ],
+    }
+  }
+
   return null
 }
 
@@ -221,7 +253,18 @@ function generateAlternativeFallback(
   const isProtocol = ctx.episodeType === "protocol"
   
   // Alternative fallback questions
-  const alternatives = isProtocol
+  const alternatives = ctx.episodeType === "category"
+    ? [
+        {
+          prompt: `Is ${topicName} a DeFi category tracked on DefiLlama?`,
+          explainData: { name: topicName, isTracked: true },
+        },
+        {
+          prompt: `Does the ${topicName} category have any TVL locked?`,
+          explainData: { name: topicName, hasTvl: true },
+        },
+      ]
+    : isProtocol
     ? [
         {
           prompt: `Is ${topicName} tracked on DefiLlama?`,
@@ -0,0 +1,76 @@
+/**
+ * Practice Episode Generation
+ *
+ * Builds off-schedule episodes for a player-chosen topic. Practice episodes
+ * use the same pipeline as daily episodes, but with a forced topic and a
+ * non-date seed so each run draws a different question mix.
+ *
+ * Practice episodes are never saved to storage and skip LLM calls, so they
+ * use fallback explanations and leave the LLM cache untouched.
+ */
+
+import type { Episode, EpisodeType, PracticeTopic } from "@/lib/types/episode"
+import { generateEpisode } from "./generate-episode"
+import {
+  loadCategoryPool,
+  loadChainPool,
+  loadProtocolPool,
+  loadTopicPool,
+} from "./topic-selection"
+import { getTodayDateString } from "./schedule"
+
+/**
+ * List all pool topics available for practice, by TVL rank
+ *
+ * @throws Error if a pool file is missing
+ */
+export async function listPracticeTopics(): Promise<PracticeTopic[]> {
+  const [protocols, chains, categories] = await Promise.all([
+    loadProtocolPool(),
+    loadChainPool(),
+    loadCategoryPool(),
+  ])
+
+  return [
+    ...protocols
+      .sort((a, b) => a.tvlRank - b.tvlRank)
+      .map((p) => ({ type: "protocol" as const, slug: p.slug, name: p.name, category: p.category })),
+    ...chains
+      .sort((a, b) => a.tvlRank - b.tvlRank)
+      .map((c) => ({ type: "chain" as const, slug: c.slug, name: c.name })),
+    ...categories
+      .sort((a, b) => a.tvlRank - b.tvlRank)
+      .map((c) => ({ type: "category" as const, slug: c.slug, name: c.name })),
+  ]
+}
+
+/**
+ * Generate a practice episode for a pool topic
+ *
+ * @param type - Topic type
+ * @param slug - Pool slug of the topic
+ * @param nonce - Distinguishes runs for the same topic (e.g., a random string)
+ * @returns Episode, or null if the topic isn't in the pools or generation failed
+ */
+export async function generatePracticeEpisode(
+  type: EpisodeType,
+  slug: string,
+  nonce: string
+): Promise<Episode | null> {
+  const pool = await loadTopicPool(type)
+  const topic = pool.find((t) => t.slug === slug)
+  if (!topic) return null
+
+  const episode = await generateEpisode(getTodayDateString(), {
+    topic,
+    // No colons: the episode ID is "{seedKey}:{type}:{slug}"
+    seedKey: `practice-${nonce.replace(/:/g, "")}`,
+    skipLLM: true,
+  })
+  if (!episode) return null
+
+  // Build logs are for debugging daily generation only
+  const practiceEpisode = { ...episode }
+  delete practiceEpisode.buildLog
+  return practiceEpisode
+}
@@ -16,6 +16,7 @@
  */
 
 import type {
+  EpisodeType,
   TemplateContext,
   QuestionDraft,
   QuestionFormat,
@@ -61,7 +62,7 @@ const MAX_TF_MARGIN_FOR_HARD_SLOT = 0.25
  * Get fallbacks for a specific episode type and difficulty target
  */
 export function getFallbacksForTarget(
-  episodeType: "protocol" | "chain",
+  episodeType: EpisodeType,
   target: DifficultyTarget
 ): FallbackConfig[] {
   const fallbacks = getFallbacksForType(episodeType)
@@ -75,9 +76,7 @@ export function getFallbacksForTarget(
 /**
  * Get all available fallbacks for an episode type
  */
-export function getAllFallbacks(
-  episodeType: "protocol" | "chain"
-): FallbackConfig[] {
+export function getAllFallbacks(episodeType: EpisodeType): FallbackConfig[] {
   return getFallbacksForType(episodeType)
 }
 
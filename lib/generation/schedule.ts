@@ -3,17 +3,49 @@
  *
  * Maps days of the week to episode types and provides utilities for
  * determining what type of episode to generate for a given date.
+ *
+ * The schedule is resolved from, in increasing precedence:
+ * 1. The default weekday mapping below
+ * 2. The schedule config file (data/schedule.json): weekday mapping plus
+ *    date overrides that pin an episode type, topic, and templates
+ * 3. EPISODE_WEEKDAYS="wed=category,sat=category" for weekdays
+ *
+ * Date overrides always win over the weekday mapping.
  */
 
+import { existsSync, readFileSync } from "fs"
 import type { EpisodeType } from "@/lib/types/episode"
+import type { ScheduleConfig, ScheduleOverride } from "@/lib/types/schedule"
+
+/**
+ * All episode types
+ */
+export const EPISODE_TYPES: readonly EpisodeType[] = ["protocol", "chain", "category"]
+
+/** Default schedule config location */
+export const SCHEDULE_CONFIG_PATH = "./data/schedule.json"
+
+const WEEKDAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+]
+
+const OVERRIDE_KEYS = new Set(["date", "type", "topic", "templates", "note"])
 
 /**
- * Episode schedule by day of week (0 = Sunday)
+ * Default episode schedule by day of week (0 = Sunday)
  *
  * - 4 protocol episodes: Sunday, Monday, Wednesday, Friday
  * - 3 chain episodes: Tuesday, Thursday, Saturday
+ *
+ * Category episodes are opt-in until a category pool has been refreshed.
  */
-const EPISODE_SCHEDULE: Record<number, EpisodeType> = {
+const DEFAULT_EPISODE_SCHEDULE: Record<number, EpisodeType> = {
   0: "protocol", // Sunday
   1: "protocol", // Monday
   2: "chain", // Tuesday
@@ -23,6 +55,217 @@ const EPISODE_SCHEDULE: Record<number, EpisodeType> = {
   6: "chain", // Saturday
 }
 
+/**
+ * Resolved schedule: episode type by weekday, plus date overrides
+ */
+interface ResolvedSchedule {
+  weekdays: Record<number, EpisodeType>
+  overrides: Map<string, ScheduleOverride>
+}
+
+/** Active schedule, resolved from the config file and environment on first use */
+let activeSchedule: ResolvedSchedule | null = null
+
+/**
+ * Check if a string is an episode type
+ */
+export function isEpisodeType(value: string): value is EpisodeType {
+  return (EPISODE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Parse a weekday key: a name ("wednesday"), three-letter name ("wed"), or number (0 = Sunday)
+ *
+ * @returns Day of week, or -1 if the key isn't a weekday
+ */
+function parseWeekday(key: string): number {
+  const dayKey = key.trim().toLowerCase()
+  if (/^[0-6]$/.test(dayKey)) return Number(dayKey)
+  return WEEKDAY_NAMES.findIndex((name) => dayKey === name || dayKey === name.slice(0, 3))
+}
+
+/**
+ * Parse a weekday mapping like "wed=category,sat=category"
+ *
+ * @throws Error on an unknown day or episode type
+ */
+export function parseWeekdaySchedule(value: string): Partial<Record<number, EpisodeType>> {
+  const schedule: Partial<Record<number, EpisodeType>> = {}
+
+  for (const part of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [dayKey, type] = part.split("=").map((p) => p.trim().toLowerCase())
+    const day = parseWeekday(dayKey)
+    if (day === -1) {
+      throw new Error(`Unknown weekday "${dayKey}" in schedule "${value}"`)
+    }
+    if (!type || !isEpisodeType(type)) {
+      throw new Error(`Unknown episode type "${type}" for ${dayKey} (expected ${EPISODE_TYPES.join(", ")})`)
+    }
+    schedule[day] = type
+  }
+
+  return schedule
+}
+
+/**
+ * Check for a real YYYY-MM-DD date (rejects rollovers like 2025-02-30)
+ */
+function isCalendarDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValidDate(date)) return false
+  return new Date(date + "T00:00:00Z").toISOString().startsWith(date)
+}
+
+/**
+ * Validate a parsed schedule config file
+ *
+ * @throws Error listing every problem found
+ */
+export function validateScheduleConfig(value: unknown): ScheduleConfig {
+  const errors: string[] = []
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+
+  if (!isObject(value)) {
+    throw new Error("Invalid schedule config: expected an object")
+  }
+
+  if (value.weekdays !== undefined) {
+    if (!isObject(value.weekdays)) {
+      errors.push("weekdays: expected an object of weekday -> episode type")
+    } else {
+      for (const [key, type] of Object.entries(value.weekdays)) {
+        if (parseWeekday(key) === -1) errors.push(`weekdays: unknown weekday "${key}"`)
+        if (typeof type !== "string" || !isEpisodeType(type)) {
+          errors.push(`weekdays.${key}: unknown episode type "${type}"`)
+        }
+      }
+    }
+  }
+
+  if (value.overrides !== undefined) {
+    if (!Array.isArray(value.overrides)) {
+      errors.push("overrides: expected an array")
+    } else {
+      const seenDates = new Set<string>()
+      value.overrides.forEach((override: unknown, index) => {
+        const label = `overrides[${index}]`
+        if (!isObject(override)) {
+          errors.push(`${label}: expected an object`)
+          return
+        }
+
+        const { date, type, topic, templates, note } = override
+        if (typeof date !== "string" || !isCalendarDate(date)) {
+          errors.push(`${label}.date: expected YYYY-MM-DD, got "${date}"`)
+        } else if (seenDates.has(date)) {
+          errors.push(`${label}.date: duplicate override for ${date}`)
+        } else {
+          seenDates.add(date)
+        }
+        if (typeof type !== "string" || !isEpisodeType(type)) {
+          errors.push(`${label}.type: unknown episode type "${type}"`)
+        }
+        if (topic !== undefined && (typeof topic !== "string" || topic.length === 0)) {
+          errors.push(`${label}.topic: expected a pool slug`)
+        }
+        if (
+          templates !== undefined &&
+          (!Array.isArray(templates) || !templates.every((t) => typeof t === "string" && t))
+        ) {
+          errors.push(`${label}.templates: expected an array of template IDs`)
+        }
+        if (note !== undefined && typeof note !== "string") {
+          errors.push(`${label}.note: expected a string`)
+        }
+        for (const key of Object.keys(override)) {
+          if (!OVERRIDE_KEYS.has(key)) errors.push(`${label}: unknown field "${key}"`)
+        }
+      })
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid schedule config:\n  - ${errors.join("\n  - ")}`)
+  }
+
+  return value as ScheduleConfig
+}
+
+/**
+ * Load and validate the schedule config file
+ * A missing file is an empty config (default schedule, no overrides).
+ *
+ * @throws Error if the file isn't valid JSON or fails validation
+ */
+export function loadScheduleConfig(path: string = SCHEDULE_CONFIG_PATH): ScheduleConfig {
+  if (!existsSync(path)) return {}
+  try {
+    return validateScheduleConfig(JSON.parse(readFileSync(path, "utf-8")))
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+/**
+ * Replace the active schedule with a config (over the default weekday mapping)
+ * Extra weekdays (e.g., from EPISODE_WEEKDAYS) take precedence over the config's.
+ */
+export function configureSchedule(
+  config: ScheduleConfig,
+  weekdays: Partial<Record<number, EpisodeType>> = {}
+): void {
+  const schedule: ResolvedSchedule = {
+    weekdays: { ...DEFAULT_EPISODE_SCHEDULE },
+    overrides: new Map(),
+  }
+
+  for (const [key, type] of Object.entries(config.weekdays ?? {})) {
+    schedule.weekdays[parseWeekday(key)] = type
+  }
+  for (const [day, type] of Object.entries(weekdays)) {
+    if (type) schedule.weekdays[Number(day)] = type
+  }
+  for (const override of config.overrides ?? []) {
+    schedule.overrides.set(override.date, override)
+  }
+
+  activeSchedule = schedule
+}
+
+/**
+ * Get the active schedule, loading the config file and environment on first use
+ */
+function getActiveSchedule(): ResolvedSchedule {
+  if (!activeSchedule) {
+    const fromEnv = process.env.EPISODE_WEEKDAYS
+    configureSchedule(loadScheduleConfig(), fromEnv ? parseWeekdaySchedule(fromEnv) : {})
+  }
+  return activeSchedule!
+}
+
+/**
+ * Get the active episode schedule by day of week (0 = Sunday)
+ */
+export function getEpisodeSchedule(): Record<number, EpisodeType> {
+  return getActiveSchedule().weekdays
+}
+
+/**
+ * Get the schedule override for a date, if any
+ */
+export function getScheduleOverride(date: string): ScheduleOverride | undefined {
+  return getActiveSchedule().overrides.get(date)
+}
+
+/**
+ * Get all schedule overrides, sorted by date
+ */
+export function getScheduleOverrides(): ScheduleOverride[] {
+  return [...getActiveSchedule().overrides.values()].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  )
+}
+
 /**
  * Slot difficulty targets for episode structure
  */
@@ -36,14 +279,18 @@ export const SLOT_DIFFICULTY_TARGETS = {
 
 /**
  * Get the episode type for a given date
+ * A date override wins over the weekday mapping.
  *
  * @param date - Date string in YYYY-MM-DD format
- * @returns Episode type ("protocol" or "chain")
+ * @returns Episode type ("protocol", "chain", or "category")
  */
 export function getEpisodeType(date: string): EpisodeType {
+  const override = getScheduleOverride(date)
+  if (override) return override.type
+
   const d = new Date(date + "T00:00:00Z")
   const dayOfWeek = d.getUTCDay()
-  return EPISODE_SCHEDULE[dayOfWeek]
+  return getEpisodeSchedule()[dayOfWeek]
 }
 
 /**
@@ -0,0 +1,367 @@
+/**
+ * Point-in-Time Snapshots
+ *
+ * Rewinds fetched data to an episode date, so regenerating a past date
+ * produces the facts players would have seen on that day rather than
+ * today's values.
+ *
+ * Historical series (TVL, per-chain TVL, fees/revenue/volume charts, raises,
+ * stablecoin supply, bridge volume) are truncated at the date and the
+ * "current" values derived from them are recomputed. Data DefiLlama only
+ * serves as latest values (pool ranks, protocol/chain lists, overviews,
+ * market cap, stablecoin supply by chain, yield pools, bridge leaderboard)
+ * is kept as-is, and each metric is recorded as "as-of" or
+ * "latest-available" on the episode.
+ *
+ * Ranks aren't recomputed: that would need every peer's TVL history. Peer
+ * lists and ranks are recorded as latest-available instead, and templates
+ * that compare the topic against them (see peerMetrics) are skipped, so no
+ * answer mixes an as-of value with a latest one.
+ *
+ * Category episodes are aggregated from the protocol list, which only has
+ * latest values, so their data is kept as-is.
+ *
+ * Fetched data is shared with the API response cache, so everything here
+ * returns copies and never mutates its inputs.
+ */
+
+import type { DataSnapshot, FetchedData } from "@/lib/types/episode"
+import type {
+  ProtocolDetail,
+  ProtocolFeesData,
+  ProtocolDEXData,
+} from "@/lib/types/defillama"
+import type {
+  ProtocolPoolEntry,
+  ChainPoolEntry,
+  CategoryPoolEntry,
+} from "@/lib/types/pools"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SnapshotResult<
+  T extends ProtocolPoolEntry | ChainPoolEntry | CategoryPoolEntry,
+> {
+  /** Topic with TVL rewound to the snapshot date */
+  topic: T
+  /** Fetched data truncated to the snapshot date */
+  data: FetchedData
+  /** Which metrics are as-of vs latest-available */
+  snapshot: DataSnapshot
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Get the snapshot cutoff for a date (Unix seconds, 00:00 UTC, inclusive)
+ */
+export function getSnapshotCutoff(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000)
+}
+
+/**
+ * Keep only points at or before the cutoff
+ */
+function truncateSeries<T extends { date: number }>(series: T[], cutoff: number): T[] {
+  return series.filter((p) => p.date <= cutoff)
+}
+
+/**
+ * Keep only chart entries ([timestamp, ...]) at or before the cutoff
+ */
+function truncateChart<T extends [number, unknown]>(chart: T[], cutoff: number): T[] {
+  return chart.filter(([ts]) => ts <= cutoff)
+}
+
+/**
+ * Tracks metric sources while a snapshot is built
+ */
+class SnapshotRecorder {
+  private asOf = new Set<string>()
+  private latest = new Set<string>()
+
+  mark(asOf: boolean, ...metrics: string[]): void {
+    const target = asOf ? this.asOf : this.latest
+    for (const metric of metrics) target.add(metric)
+  }
+
+  build(date: string): DataSnapshot {
+    return {
+      asOf: date,
+      asOfMetrics: [...this.asOf],
+      latestMetrics: [...this.latest],
+    }
+  }
+}
+
+// =============================================================================
+// Protocol Snapshots
+// =============================================================================
+
+/**
+ * Rewind a fees/revenue summary to the cutoff
+ * Returns null if there is no daily chart to recompute totals from
+ */
+function snapshotFeesData(
+  fees: ProtocolFeesData,
+  cutoff: number
+): ProtocolFeesData | null {
+  if (!fees.totalDataChart || fees.totalDataChart.length === 0) return null
+
+  const chart = truncateChart(fees.totalDataChart, cutoff)
+  const last = chart[chart.length - 1]?.[1]
+  const previous = chart[chart.length - 2]?.[1]
+
+  return {
+    ...fees,
+    total24h: last,
+    total48hto24h: previous,
+    total7d: chart.length > 0
+      ? chart.slice(-7).reduce((sum, [, value]) => sum + value, 0)
+      : undefined,
+    totalAllTime: chart.reduce((sum, [, value]) => sum + value, 0),
+    change_1d:
+      last !== undefined && previous !== undefined && previous > 0
+        ? ((last - previous) / previous) * 100
+        : undefined,
+    totalDataChart: chart,
+    totalDataChartBreakdown: fees.totalDataChartBreakdown
+      ? truncateChart(fees.totalDataChartBreakdown, cutoff)
+      : undefined,
+  }
+}
+
+/**
+ * Rewind a DEX volume summary to the cutoff
+ * Returns null if there is no daily chart to recompute totals from.
+ * The per-chain breakdown only covers the latest day and is kept as-is.
+ */
+function snapshotVolumeData(
+  volume: ProtocolDEXData,
+  cutoff: number
+): ProtocolDEXData | null {
+  if (!volume.totalDataChart || volume.totalDataChart.length === 0) return null
+
+  const chart = truncateChart(volume.totalDataChart, cutoff)
+  const sumLast = (days: number) =>
+    chart.length > 0
+      ? chart.slice(-days).reduce((sum, [, value]) => sum + value, 0)
+      : undefined
+
+  return {
+    ...volume,
+    total24h: chart[chart.length - 1]?.[1],
+    total7d: sumLast(7),
+    total30d: sumLast(30),
+    totalAllTime: chart.reduce((sum, [, value]) => sum + value, 0),
+    change_1d: undefined,
+    change_7d: undefined,
+    totalDataChart: chart,
+  }
+}
+
+/**
+ * Rewind protocol detail (TVL, per-chain TVL, chains, raises) to the cutoff
+ */
+function snapshotProtocolDetail(
+  detail: ProtocolDetail,
+  cutoff: number,
+  date: string,
+  recorder: SnapshotRecorder
+): ProtocolDetail {
+  const tvl = truncateSeries(detail.tvl ?? [], cutoff)
+  recorder.mark(true, "tvl", "tvlBand", "change7d", "change30d", "tvlVolatility", "ath")
+
+  const snapshot: ProtocolDetail = { ...detail, tvl }
+
+  // Per-chain TVL: recompute current values from each chain's series
+  const chainSeries = Object.entries(detail.chainTvls ?? {})
+  if (chainSeries.length > 0) {
+    const chainTvls: ProtocolDetail["chainTvls"] = {}
+    const currentChainTvls: Record<string, number> = {}
+
+    for (const [key, data] of chainSeries) {
+      const series = truncateSeries(data.tvl ?? [], cutoff)
+      if (series.length === 0) continue
+      chainTvls[key] = { ...data, tvl: series }
+      currentChainTvls[key] = series[series.length - 1].totalLiquidityUSD
+    }
+
+    snapshot.chainTvls = chainTvls
+    snapshot.currentChainTvls = currentChainTvls
+    // Chains without a series are kept, since we can't tell when they launched
+    snapshot.chains = (detail.chains ?? []).filter(
+      (chain) => !(chain in detail.chainTvls) || chain in chainTvls
+    )
+    recorder.mark(true, "chainTvls", "topChain", "topChainShare", "chainCount")
+  } else {
+    recorder.mark(false, "chainTvls", "topChain", "topChainShare", "chainCount")
+  }
+
+  if (detail.raises) {
+    snapshot.raises = detail.raises.filter((raise) => raise.date <= date)
+    recorder.mark(true, "raises")
+  }
+
+  if (detail.mcap !== undefined) {
+    recorder.mark(false, "mcap")
+  }
+
+  return snapshot
+}
+
+/**
+ * Rewind protocol episode data to a date
+ *
+ * @returns Snapshot result, or null if the protocol has no TVL history by the date
+ */
+export function snapshotProtocolData(
+  topic: ProtocolPoolEntry,
+  data: FetchedData,
+  date: string
+): SnapshotResult<ProtocolPoolEntry> | null {
+  const detail = data.protocolDetail
+  if (!detail) return null
+
+  const cutoff = getSnapshotCutoff(date)
+  const recorder = new SnapshotRecorder()
+
+  const protocolDetail = snapshotProtocolDetail(detail, cutoff, date, recorder)
+  if (protocolDetail.tvl.length === 0) return null
+
+  const snapshotData: FetchedData = { ...data, protocolDetail }
+
+  if (data.protocolFees) {
+    const fees = snapshotFeesData(data.protocolFees, cutoff)
+    if (fees) snapshotData.protocolFees = fees
+    recorder.mark(fees !== null, "fees7d")
+  }
+
+  if (data.protocolRevenue) {
+    const revenue = snapshotFeesData(data.protocolRevenue, cutoff)
+    if (revenue) snapshotData.protocolRevenue = revenue
+    recorder.mark(revenue !== null, "revenue7d")
+  }
+
+  if (data.protocolDexVolume) {
+    const volume = snapshotVolumeData(data.protocolDexVolume, cutoff)
+    if (volume) snapshotData.protocolDexVolume = volume
+    recorder.mark(volume !== null, "volume7d", "volumeToTvl", "volumeChange30d")
+    recorder.mark(false, "topVolumeChain")
+  }
+
+  // Leaderboards are only served as latest values
+  recorder.mark(false, "tvlRank", "protocolList")
+  if (data.dexOverview) recorder.mark(false, "dexVolumeRank")
+  if (data.yieldPools) {
+    recorder.mark(false, "topYieldPool", "medianApy", "stablePoolShare")
+  }
+
+  return {
+    topic: {
+      ...topic,
+      tvl: protocolDetail.tvl[protocolDetail.tvl.length - 1].totalLiquidityUSD,
+    },
+    data: snapshotData,
+    snapshot: recorder.build(date),
+  }
+}
+
+// =============================================================================
+// Chain Snapshots
+// =============================================================================
+
+/**
+ * Rewind chain episode data to a date
+ *
+ * @returns Snapshot result, or null if the chain has no TVL history by the date
+ */
+export function snapshotChainData(
+  topic: ChainPoolEntry,
+  data: FetchedData,
+  date: string
+): SnapshotResult<ChainPoolEntry> | null {
+  if (!data.chainHistory) return null
+
+  const cutoff = getSnapshotCutoff(date)
+  const recorder = new SnapshotRecorder()
+
+  const chainHistory = truncateSeries(data.chainHistory, cutoff)
+  if (chainHistory.length === 0) return null
+  recorder.mark(true, "tvl", "chainTvlBand", "chainChange30d", "chainAth")
+
+  const snapshotData: FetchedData = { ...data, chainHistory }
+
+  if (data.chainStablecoinHistory) {
+    snapshotData.chainStablecoinHistory = truncateSeries(data.chainStablecoinHistory, cutoff)
+    recorder.mark(
+      true,
+      "chainStablecoinSupply",
+      "chainStablecoinChange30d",
+      "stablecoinToTvl"
+    )
+  }
+
+  if (data.chainBridgeVolume) {
+    snapshotData.chainBridgeVolume = truncateSeries(data.chainBridgeVolume, cutoff)
+    recorder.mark(true, "bridgeNetFlow7d", "bridgeNetFlow30d")
+  }
+
+  // Leaderboards and overviews are only served as latest values
+  recorder.mark(false, "chainTvlRank", "tvlRank", "chainList")
+  if (data.protocolList) recorder.mark(false, "protocolList")
+  if (data.chainPool) recorder.mark(false, "chainPool")
+  if (data.chainFees) recorder.mark(false, "chainFees")
+  if (data.chainDexVolume) recorder.mark(false, "chainDexVolume")
+  if (data.stablecoins) recorder.mark(false, "dominantStablecoin")
+  if (data.bridges) recorder.mark(false, "busiestBridge")
+
+  return {
+    topic: {
+      ...topic,
+      tvl: chainHistory[chainHistory.length - 1].tvl,
+    },
+    data: snapshotData,
+    snapshot: recorder.build(date),
+  }
+}
+
+// =============================================================================
+// Category Snapshots
+// =============================================================================
+
+/**
+ * Record category episode data as latest-available
+ * The protocol list has no history to rewind, so nothing is truncated.
+ *
+ * @returns Snapshot result, or null if there is no protocol list
+ */
+export function snapshotCategoryData(
+  topic: CategoryPoolEntry,
+  data: FetchedData,
+  date: string
+): SnapshotResult<CategoryPoolEntry> | null {
+  if (!data.protocolList) return null
+
+  const recorder = new SnapshotRecorder()
+  recorder.mark(
+    false,
+    "tvl",
+    "tvlRank",
+    "change7d",
+    "categoryLeader",
+    "categoryTopChain",
+    "categoryGrowthRank",
+    "protocolList"
+  )
+
+  return {
+    topic: { ...topic },
+    data: { ...data },
+    snapshot: recorder.build(date),
+  }
+}
@@ -0,0 +1,648 @@
+/**
+ * Category Templates (CAT1-CAT6)
+ *
+ * Declarative definitions for all protocol category question templates.
+ * Category stats are aggregated from the protocol list (see ../categories).
+ */
+
+import type { TemplateContext } from "@/lib/types/episode"
+import type { CategoryPoolEntry } from "@/lib/types/pools"
+import {
+  type TemplateConfig,
+  createTemplate,
+  isCategoryContext,
+  hasProtocolList,
+} from "./config"
+import {
+  formatNumber,
+  getConcentrationBucketChoices,
+  getConcentrationBucketIndex,
+} from "../distractors"
+import { getTvlBand, getTvlRankBucket, getChangeBucket, abMargin } from "../metrics"
+import { deterministicShuffle, createRng } from "../rng"
+import {
+  aggregateCategories,
+  findCategoryStats,
+  isSignificantCategory,
+  type CategoryStats,
+} from "../categories"
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Aggregated categories per protocol list, so templates don't regroup it each call */
+const categoryCache = new WeakMap<object, CategoryStats[]>()
+
+/**
+ * All categories aggregated from the protocol list, sorted by TVL descending
+ */
+function getCategories(ctx: TemplateContext): CategoryStats[] {
+  const list = ctx.data.protocolList ?? []
+  let categories = categoryCache.get(list)
+  if (!categories) {
+    categories = aggregateCategories(list)
+    categoryCache.set(list, categories)
+  }
+  return categories
+}
+
+/**
+ * Stats for the topic category
+ */
+function getTopicCategory(ctx: TemplateContext): CategoryStats | undefined {
+  const topic = ctx.topic as CategoryPoolEntry
+  return findCategoryStats(getCategories(ctx), topic.slug)
+}
+
+/**
+ * Categories large enough to compare against, excluding the topic
+ */
+function getPeerCategories(ctx: TemplateContext): CategoryStats[] {
+  const topic = ctx.topic as CategoryPoolEntry
+  return getCategories(ctx).filter((c) => c.slug !== topic.slug && isSignificantCategory(c))
+}
+
+/**
+ * Format a decimal change as a signed percentage (e.g., "+3.2%")
+ */
+function formatGrowth(change: number): string {
+  return `${change > 0 ? "+" : ""}${(change * 100).toFixed(1)}%`
+}
+
+/**
+ * Get a human-readable bucket for a category's protocol count
+ */
+function getCategoryProtocolBucket(count: number): string {
+  if (count >= 200) return "200+"
+  if (count >= 100) return "100-200"
+  if (count >= 50) return "50-100"
+  if (count >= 20) return "20-50"
+  return "<20"
+}
+
+// =============================================================================
+// CAT1: Category Fingerprint Guess
+// =============================================================================
+
+interface CAT1Data {
+  tvlRank: number
+  tvlBand: string
+  protocolCount: number
+  chainCount: number
+  trendBucket: string | undefined
+  /** Second and third largest protocols (the leader is left for CAT2) */
+  notableProtocols: string[]
+  distractors: string[]
+}
+
+const CAT1_FINGERPRINT: TemplateConfig<CAT1Data> = {
+  id: "CAT1_FINGERPRINT",
+  name: "Category Fingerprint Guess",
+  description: "Identify a DeFi category from a set of clues",
+  type: "category",
+  semanticTopics: ["fingerprint_base"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    const stats = getTopicCategory(ctx)
+    if (!stats || stats.protocols.length < 3) return { passed: false, reason: "no_category_stats" }
+    if (getPeerCategories(ctx).length < 3) return { passed: false, reason: "need_3_categories" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    const topic = ctx.topic as CategoryPoolEntry
+    if (topic.tvlRank <= 10 && getPeerCategories(ctx).length >= 5) return ["mc6", "mc4"]
+    return ["mc4"]
+  },
+
+  extract(ctx, seed) {
+    const topic = ctx.topic as CategoryPoolEntry
+    const stats = getTopicCategory(ctx)!
+    const categories = getCategories(ctx)
+    const tvlRank = categories.indexOf(stats) + 1
+
+    // Prefer distractors near the topic's rank, so TVL clues don't give it away
+    const nearby = getPeerCategories(ctx)
+      .sort(
+        (a, b) =>
+          Math.abs(categories.indexOf(a) + 1 - tvlRank) -
+          Math.abs(categories.indexOf(b) + 1 - tvlRank)
+      )
+      .slice(0, 8)
+    const distractorCount = topic.tvlRank <= 10 ? 5 : 3
+    const distractors = deterministicShuffle(nearby, `${seed}:distractors`)
+      .slice(0, distractorCount)
+      .map((c) => c.name)
+
+    return {
+      tvlRank,
+      tvlBand: getTvlBand(stats.tvl),
+      protocolCount: stats.protocols.length,
+      chainCount: stats.chains.length,
+      trendBucket: stats.change7d !== undefined ? getChangeBucket(stats.change7d) : undefined,
+      notableProtocols: stats.protocols.slice(1, 3).map((p) => p.name),
+      distractors,
+    }
+  },
+
+  getPrompt() {
+    return "Which DeFi category matches these clues?"
+  },
+
+  getClues(data) {
+    const clues = [
+      `TVL rank among categories: ${getTvlRankBucket(data.tvlRank)}`,
+      `TVL: ${data.tvlBand}`,
+      `Protocols: ${getCategoryProtocolBucket(data.protocolCount)}`,
+      `Deployed on ${data.chainCount} chains`,
+    ]
+    if (data.trendBucket) clues.push(`7d trend: ${data.trendBucket}`)
+    clues.push(`Includes: ${data.notableProtocols.join(", ")}`)
+    return clues
+  },
+
+  getChoices(data, ctx, format, seed) {
+    const topic = ctx.topic as CategoryPoolEntry
+    const count = format === "mc6" ? 5 : 3
+    return deterministicShuffle(
+      [topic.name, ...data.distractors.slice(0, count)],
+      `${seed}:shuffle`
+    )
+  },
+
+  getAnswerIndex(_data, ctx, _format, choices) {
+    const topic = ctx.topic as CategoryPoolEntry
+    return choices.indexOf(topic.name)
+  },
+
+  getMargin() {
+    return null
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as CategoryPoolEntry
+    return {
+      name: topic.name,
+      tvlRank: data.tvlRank,
+      tvlFormatted: data.tvlBand,
+      protocolCount: data.protocolCount,
+      notableProtocols: data.notableProtocols.join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// CAT2: Category Leader
+// =============================================================================
+
+interface CAT2Data {
+  category: string
+  categoryTvl: number
+  protocols: Array<{ name: string; tvl: number }>
+}
+
+const CAT2_CATEGORY_LEADER: TemplateConfig<CAT2Data> = {
+  id: "CAT2_CATEGORY_LEADER",
+  name: "Category Leader",
+  description: "Which protocol has the most TVL in a category",
+  type: "category",
+  semanticTopics: ["category_leader"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    const stats = getTopicCategory(ctx)
+    if (!stats || stats.protocols.length < 2) return { passed: false, reason: "need_2_protocols" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    const stats = getTopicCategory(ctx)!
+    if (stats.protocols.length >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    const stats = getTopicCategory(ctx)!
+    return {
+      category: stats.name,
+      categoryTvl: stats.tvl,
+      protocols: stats.protocols.slice(0, 4),
+    }
+  },
+
+  getPrompt(data) {
+    return `Which protocol has the most TVL in the ${data.category} category?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.protocols.slice(0, count).map((p) => p.name),
+      `${seed}:leader`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.protocols[0].name)
+  },
+
+  getMargin(data) {
+    // Gap between the leader and the runner-up
+    return abMargin(data.protocols[0].tvl, data.protocols[1].tvl)
+  },
+
+  getExplainData(data) {
+    const leader = data.protocols[0]
+    return {
+      category: data.category,
+      leader: leader.name,
+      leaderTvl: formatNumber(leader.tvl),
+      leaderShare: Math.round((leader.tvl / data.categoryTvl) * 100),
+      comparison: data.protocols
+        .slice(1)
+        .map((p) => `${p.name} (${formatNumber(p.tvl)})`)
+        .join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// CAT3: Category Concentration (Market Share)
+// =============================================================================
+
+interface CAT3Data {
+  category: string
+  leader: string
+  leaderShare: number
+  top3: string[]
+  top3Share: number
+}
+
+const CAT3_CONCENTRATION: TemplateConfig<CAT3Data> = {
+  id: "CAT3_CONCENTRATION",
+  name: "Category Concentration",
+  description: "How much of a category's TVL is held by its largest protocols",
+  type: "category",
+  semanticTopics: ["category_concentration"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    const stats = getTopicCategory(ctx)
+    if (!stats || stats.protocols.length < 3) return { passed: false, reason: "need_3_protocols" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    const stats = getTopicCategory(ctx)!
+    const top3Share =
+      stats.protocols.slice(0, 3).reduce((sum, p) => sum + p.tvl, 0) / stats.tvl
+
+    // A top-3 share far from 50% makes an easy true/false, so lead with buckets
+    if (Math.abs(top3Share - 0.5) < 0.15) return ["tf", "mc4"]
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const stats = getTopicCategory(ctx)!
+    const top3 = stats.protocols.slice(0, 3)
+    return {
+      category: stats.name,
+      leader: top3[0].name,
+      leaderShare: top3[0].tvl / stats.tvl,
+      top3: top3.map((p) => p.name),
+      top3Share: top3.reduce((sum, p) => sum + p.tvl, 0) / stats.tvl,
+    }
+  },
+
+  getPrompt(data, _ctx, format) {
+    if (format === "tf") {
+      return `The three largest ${data.category} protocols hold more than half of the category's TVL.`
+    }
+    return `What share of ${data.category} TVL does its largest protocol (${data.leader}) hold?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return getConcentrationBucketChoices()
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.top3Share > 0.5 ? 0 : 1
+    return getConcentrationBucketIndex(data.leaderShare)
+  },
+
+  getAnswerValue(data) {
+    return data.top3Share > 0.5
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return Math.abs(data.top3Share - 0.5)
+    // Distance to the nearest bucket boundary
+    const boundaries = [0.25, 0.5, 0.75]
+    const minDist = Math.min(...boundaries.map((b) => Math.abs(data.leaderShare - b)))
+    return minDist / 0.25
+  },
+
+  getExplainData(data) {
+    return {
+      category: data.category,
+      leader: data.leader,
+      leaderSharePercent: Math.round(data.leaderShare * 100),
+      top3: data.top3.join(", "),
+      top3SharePercent: Math.round(data.top3Share * 100),
+    }
+  },
+}
+
+// =============================================================================
+// CAT4: Category Top Chain
+// =============================================================================
+
+interface CAT4Data {
+  category: string
+  chains: Array<{ chain: string; tvl: number }>
+  topShare: number
+}
+
+const CAT4_TOP_CHAIN: TemplateConfig<CAT4Data> = {
+  id: "CAT4_TOP_CHAIN",
+  name: "Category Top Chain",
+  description: "Which chain holds the most TVL in a category",
+  type: "category",
+  semanticTopics: ["category_chain_distribution"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    const stats = getTopicCategory(ctx)
+    if (!stats || stats.chains.length < 2) return { passed: false, reason: "need_2_chains" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    const stats = getTopicCategory(ctx)!
+    if (stats.chains.length >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    const stats = getTopicCategory(ctx)!
+    const chainTotal = stats.chains.reduce((sum, c) => sum + c.tvl, 0)
+    return {
+      category: stats.name,
+      chains: stats.chains.slice(0, 4),
+      topShare: chainTotal > 0 ? stats.chains[0].tvl / chainTotal : 0,
+    }
+  },
+
+  getPrompt(data) {
+    return `Which chain holds the most ${data.category} TVL?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.chains.slice(0, count).map((c) => c.chain),
+      `${seed}:chains`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.chains[0].chain)
+  },
+
+  getMargin(data) {
+    // Gap between the top two chains
+    return abMargin(data.chains[0].tvl, data.chains[1].tvl)
+  },
+
+  getExplainData(data) {
+    const top = data.chains[0]
+    return {
+      category: data.category,
+      topChain: top.chain,
+      topChainTvl: formatNumber(top.tvl),
+      topChainSharePercent: Math.round(data.topShare * 100),
+      comparison: data.chains
+        .slice(1)
+        .map((c) => `${c.chain} (${formatNumber(c.tvl)})`)
+        .join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// CAT5: Growth vs. Other Categories
+// =============================================================================
+
+interface CAT5Data {
+  category: string
+  growth: number
+  other: { name: string; growth: number }
+}
+
+/** Minimum 7d growth gap for a comparison to be answerable */
+const MIN_GROWTH_GAP = 0.005
+
+/**
+ * Peer categories with a growth figure far enough from the topic's
+ */
+function getGrowthPeers(ctx: TemplateContext): CategoryStats[] {
+  const stats = getTopicCategory(ctx)
+  if (stats?.change7d === undefined) return []
+  return getPeerCategories(ctx).filter(
+    (c) => c.change7d !== undefined && Math.abs(c.change7d - stats.change7d!) >= MIN_GROWTH_GAP
+  )
+}
+
+const CAT5_GROWTH_VS_CATEGORIES: TemplateConfig<CAT5Data> = {
+  id: "CAT5_GROWTH_VS_CATEGORIES",
+  name: "Category Growth Comparison",
+  description: "Whether a category grew faster than another category over 7 days",
+  type: "category",
+  semanticTopics: ["category_trend"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    if (getGrowthPeers(ctx).length === 0) return { passed: false, reason: "no_growth_peers" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["ab", "tf"]
+  },
+
+  extract(ctx, seed) {
+    const stats = getTopicCategory(ctx)!
+    const categories = getCategories(ctx)
+
+    // Compare against one of the closest categories by TVL
+    const topicIndex = categories.indexOf(stats)
+    const peers = getGrowthPeers(ctx)
+      .sort(
+        (a, b) =>
+          Math.abs(categories.indexOf(a) - topicIndex) -
+          Math.abs(categories.indexOf(b) - topicIndex)
+      )
+      .slice(0, 3)
+    const other = peers[Math.floor(createRng(seed)() * peers.length)]
+
+    return {
+      category: stats.name,
+      growth: stats.change7d!,
+      other: { name: other.name, growth: other.change7d! },
+    }
+  },
+
+  getPrompt(data, _ctx, format) {
+    if (format === "tf") {
+      return `${data.category} TVL grew faster than ${data.other.name} TVL over the past 7 days.`
+    }
+    return "Which category's TVL grew more over the past 7 days?"
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    if (format === "tf") return ["True", "False"]
+    return deterministicShuffle([data.category, data.other.name], `${seed}:growth`)
+  },
+
+  getAnswerIndex(data, _ctx, format, choices) {
+    if (format === "tf") return data.growth > data.other.growth ? 0 : 1
+    const winner = data.growth > data.other.growth ? data.category : data.other.name
+    return choices.indexOf(winner)
+  },
+
+  getAnswerValue(data) {
+    return data.growth > data.other.growth
+  },
+
+  getMargin(data) {
+    // Scale the growth gap, as in P29
+    return Math.min(1, Math.abs(data.growth - data.other.growth) * 10)
+  },
+
+  getExplainData(data) {
+    const topicWins = data.growth > data.other.growth
+    return {
+      winner: topicWins ? data.category : data.other.name,
+      loser: topicWins ? data.other.name : data.category,
+      winnerGrowth: formatGrowth(Math.max(data.growth, data.other.growth)),
+      loserGrowth: formatGrowth(Math.min(data.growth, data.other.growth)),
+    }
+  },
+}
+
+// =============================================================================
+// CAT6: Category TVL Comparison
+// =============================================================================
+
+interface CAT6Data {
+  category: string
+  tvl: number
+  other: { name: string; tvl: number }
+}
+
+const CAT6_TVL_COMPARISON: TemplateConfig<CAT6Data> = {
+  id: "CAT6_TVL_COMPARISON",
+  name: "Category TVL Comparison",
+  description: "Which of two neighboring categories has more TVL",
+  type: "category",
+  semanticTopics: ["tvl_rank"],
+
+  checkPrereqs(ctx) {
+    if (!isCategoryContext(ctx)) return { passed: false, reason: "not_category" }
+    if (!hasProtocolList(ctx)) return { passed: false, reason: "no_protocol_list" }
+    if (!getTopicCategory(ctx)) return { passed: false, reason: "no_category_stats" }
+    if (getPeerCategories(ctx).length === 0) return { passed: false, reason: "no_peers" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["ab", "tf"]
+  },
+
+  extract(ctx, seed) {
+    const stats = getTopicCategory(ctx)!
+    const categories = getCategories(ctx)
+    const topicIndex = categories.indexOf(stats)
+
+    // Neighbors within 3 ranks, falling back to the closest peers
+    const peers = getPeerCategories(ctx).sort(
+      (a, b) =>
+        Math.abs(categories.indexOf(a) - topicIndex) -
+        Math.abs(categories.indexOf(b) - topicIndex)
+    )
+    const candidates = peers.filter((c) => Math.abs(categories.indexOf(c) - topicIndex) <= 3)
+    const pool = candidates.length > 0 ? candidates : peers.slice(0, 1)
+    const other = pool[Math.floor(createRng(seed)() * pool.length)]
+
+    return {
+      category: stats.name,
+      tvl: stats.tvl,
+      other: { name: other.name, tvl: other.tvl },
+    }
+  },
+
+  getPrompt(data, _ctx, format) {
+    if (format === "tf") {
+      return `${data.category} has more TVL than ${data.other.name}.`
+    }
+    return "Which DeFi category has more TVL?"
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    if (format === "tf") return ["True", "False"]
+    return deterministicShuffle([data.category, data.other.name], `${seed}:tvl`)
+  },
+
+  getAnswerIndex(data, _ctx, format, choices) {
+    if (format === "tf") return data.tvl > data.other.tvl ? 0 : 1
+    const winner = data.tvl > data.other.tvl ? data.category : data.other.name
+    return choices.indexOf(winner)
+  },
+
+  getAnswerValue(data) {
+    return data.tvl > data.other.tvl
+  },
+
+  getMargin(data) {
+    return abMargin(data.tvl, data.other.tvl)
+  },
+
+  getExplainData(data) {
+    const topicWins = data.tvl > data.other.tvl
+    return {
+      winner: topicWins ? data.category : data.other.name,
+      loser: topicWins ? data.other.name : data.category,
+      winnerTvl: formatNumber(Math.max(data.tvl, data.other.tvl)),
+      loserTvl: formatNumber(Math.min(data.tvl, data.other.tvl)),
+    }
+  },
+}
+
+// =============================================================================
+// Export all templates
+// =============================================================================
+
+export const CATEGORY_TEMPLATE_CONFIGS = {
+  CAT1_FINGERPRINT,
+  CAT2_CATEGORY_LEADER,
+  CAT3_CONCENTRATION,
+  CAT4_TOP_CHAIN,
+  CAT5_GROWTH_VS_CATEGORIES,
+  CAT6_TVL_COMPARISON,
+}
+
+export const cat1CategoryFingerprint = createTemplate(CAT1_FINGERPRINT)
+export const cat2CategoryLeader = createTemplate(CAT2_CATEGORY_LEADER)
+export const cat3Concentration = createTemplate(CAT3_CONCENTRATION)
+export const cat4TopChain = createTemplate(CAT4_TOP_CHAIN)
+export const cat5GrowthVsCategories = createTemplate(CAT5_GROWTH_VS_CATEGORIES)
+export const cat6TvlComparison = createTemplate(CAT6_TVL_COMPARISON)
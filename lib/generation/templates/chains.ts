@@ -17,11 +17,16 @@ import {
   hasChainDexData,
   hasChainPool,
   hasProtocolList,
+  hasChainStablecoinData,
+  hasChainBridgeFlows,
+  isLatestOnly,
 } from "./config"
 import {
   pickChainDistractors,
   formatNumber,
   makeTimingDistractors,
+  getChangeBucketChoices,
+  getChangeBucketIndex,
   type ChainEntity,
 } from "../distractors"
 import {
@@ -34,6 +39,7 @@ import {
   percentChangeFromChainHistory,
 } from "../metrics"
 import { deterministicShuffle, createRng } from "../rng"
+import { findAliasEntry, getChainAliases } from "../aliases"
 
 // =============================================================================
 // Helpers
@@ -126,7 +132,9 @@ const C1_FINGERPRINT: TemplateConfig<C1Data> = {
 
   getFormats(ctx) {
     const topic = ctx.topic as ChainPoolEntry
-    return topic.tvlRank > 20 ? ["mc4"] : ["mc6", "mc4"]
+    if (topic.tvlRank > 20) return ["mc4"]
+    // Write-in only for well-known chains that players can name unaided
+    return topic.tvlRank <= 10 ? ["mc6", "mc4", "text"] : ["mc6", "mc4"]
   },
 
   extract(ctx, seed) {
@@ -210,14 +218,17 @@ const C1_FINGERPRINT: TemplateConfig<C1Data> = {
     return "Which chain matches these clues?"
   },
 
-  getClues(data) {
+  getClues(data, ctx, format) {
     const clues: string[] = []
 
-    // Always include rank bucket
-    clues.push(`TVL rank: ${data.rankBucket}`)
+    // Always include rank bucket (unless it's a latest rank in a snapshot episode)
+    if (!isLatestOnly(ctx, "chainTvlRank")) {
+      clues.push(`TVL rank: ${data.rankBucket}`)
+    }
 
     // Add native token clue - distinctive and helpful for identification
-    if (data.tokenSymbol) {
+    // Skipped for write-in, where the token symbol is itself an accepted answer
+    if (data.tokenSymbol && format !== "text") {
       clues.push(`Native token: ${data.tokenSymbol}`)
     }
 
@@ -248,8 +259,10 @@ const C1_FINGERPRINT: TemplateConfig<C1Data> = {
     return clues
   },
 
-  getChoices(data, ctx, _format, seed) {
+  getChoices(data, ctx, format, seed) {
     const topic = ctx.topic as ChainPoolEntry
+    // Write-in shows no choices; keep the answer so results can display it
+    if (format === "text") return [topic.name]
     const allChoices = [topic.name, ...data.distractors]
     
     // Safety net: remove any duplicates (case-insensitive) that might have slipped through
@@ -273,6 +286,13 @@ const C1_FINGERPRINT: TemplateConfig<C1Data> = {
     return choices.indexOf(topic.name)
   },
 
+  getAcceptedAnswers(_data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    const entry = findAliasEntry(ctx.data.aliases, "chain", topic.slug)
+    const aliases = entry?.aliases ?? getChainAliases(topic)
+    return [topic.name, ...aliases.filter((a) => a !== topic.name)]
+  },
+
   getMargin() {
     return null
   },
@@ -308,6 +328,7 @@ const C2_CHAIN_COMPARISON: TemplateConfig<C2Data> = {
   // Use tvl_comparison instead of tvl_absolute so fingerprint doesn't block this
   // Comparison questions are complementary to knowing absolute TVL magnitude
   semanticTopics: ["tvl_comparison"],
+  peerMetrics: ["chainPool", "chainList"],
 
   checkPrereqs(ctx) {
     if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
@@ -395,6 +416,7 @@ interface C3Data {
   athMonth: string
   athYYYYMM: string
   historyStartYYYYMM: string
+  historyEndYYYYMM: string
   distractorMonths: string[]
 }
 
@@ -435,13 +457,22 @@ const C3_ATH_TIMING: TemplateConfig<C3Data> = {
       const startTs = firstDataPoint.date
       historyStartYYYYMM = formatYYYYMM(startTs)
     } else {
-      // Fallback: use 2 years ago
-      const twoYearsAgo = Date.now() / 1000 - 365 * 2 * 86400
+      // Fallback: use 2 years before the episode date
+      const twoYearsAgo = Date.parse(ctx.date) / 1000 - 365 * 2 * 86400
       historyStartYYYYMM = formatYYYYMM(twoYearsAgo)
     }
 
+    // End the range at the episode month (not today) so past dates stay reproducible
+    const historyEndYYYYMM = ctx.date.slice(0, 7)
+
     // Generate distractor months from full history (5 distractors for mc6)
-    const timing = makeTimingDistractors(athYYYYMM, 5, seed, historyStartYYYYMM)
+    const timing = makeTimingDistractors(
+      athYYYYMM,
+      5,
+      seed,
+      historyStartYYYYMM,
+      historyEndYYYYMM
+    )
 
     return {
       athValue,
@@ -449,6 +480,7 @@ const C3_ATH_TIMING: TemplateConfig<C3Data> = {
       athMonth,
       athYYYYMM,
       historyStartYYYYMM,
+      historyEndYYYYMM,
       distractorMonths: timing.distractorMonths,
     }
   },
@@ -461,7 +493,13 @@ const C3_ATH_TIMING: TemplateConfig<C3Data> = {
   getChoices(data, _ctx, format, seed) {
     // Use full history for distractors (harder question)
     const count = format === "mc6" ? 5 : 3
-    const timing = makeTimingDistractors(data.athYYYYMM, count, seed, data.historyStartYYYYMM)
+    const timing = makeTimingDistractors(
+      data.athYYYYMM,
+      count,
+      seed,
+      data.historyStartYYYYMM,
+      data.historyEndYYYYMM
+    )
     return timing.choices
   },
 
@@ -522,6 +560,7 @@ const C4_GROWTH_RANKING: TemplateConfig<C4Data> = {
   description: "Rank chains by recent TVL growth",
   type: "chain",
   semanticTopics: ["tvl_trend"],
+  peerMetrics: ["chainPool"],
 
   checkPrereqs(ctx) {
     if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
@@ -542,7 +581,7 @@ const C4_GROWTH_RANKING: TemplateConfig<C4Data> = {
   },
 
   getFormats() {
-    return ["mc4", "ab"]
+    return ["rank4", "mc4", "ab"]
   },
 
   extract(ctx, seed) {
@@ -600,8 +639,10 @@ const C4_GROWTH_RANKING: TemplateConfig<C4Data> = {
     }
   },
 
-  getPrompt(_data, ctx) {
-    const topic = ctx.topic as ChainPoolEntry
+  getPrompt(_data, _ctx, format) {
+    if (format === "rank4") {
+      return `Rank these chains by TVL growth over the past 30 days, from highest to lowest.`
+    }
     return `Which of these chains grew the most in TVL over the past 30 days?`
   },
 
@@ -618,11 +659,24 @@ const C4_GROWTH_RANKING: TemplateConfig<C4Data> = {
     return choices.indexOf(data.topGrower.name)
   },
 
-  getMargin(data) {
+  getAnswerOrder(data) {
+    // Distractors are already sorted by growth (highest first)
+    return [data.topGrower.name, ...data.distractors.map((d) => d.name)]
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "rank4") {
+      // Tightest gap between adjacent positions
+      const ordered = [data.topGrower, ...data.distractors]
+      const gaps = ordered
+        .slice(1)
+        .map((c, i) => Math.abs(ordered[i].change30d - c.change30d))
+      return Math.min(1, ...gaps)
+    }
     return Math.min(1, data.margin)
   },
 
-  getExplainData(data, ctx) {
+  getExplainData(data, ctx, format) {
     const topic = ctx.topic as ChainPoolEntry
     const topicChange = data.topicGrowth 
       ? `${data.topicGrowth.change30d > 0 ? "+" : ""}${(data.topicGrowth.change30d * 100).toFixed(1)}%`
@@ -647,6 +701,10 @@ const C4_GROWTH_RANKING: TemplateConfig<C4Data> = {
       episodeTopicChange: topicChange,
       // Whether the topic was the answer
       topicIsAnswer: data.topGrower.name === topic.name,
+      // Full growth order for ranking questions
+      ...(format === "rank4"
+        ? { correctOrder: [data.topGrower.name, ...data.distractors.map((d) => d.name)] }
+        : {}),
     }
   },
 }
@@ -863,6 +921,7 @@ const C7_CHAIN_TVL_BAND: TemplateConfig<C7Data> = {
   type: "chain",
   // Share topic with fingerprint since fingerprint already reveals TVL band as a clue
   semanticTopics: ["tvl_magnitude", "fingerprint_tvl_revealed"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
@@ -1101,6 +1160,7 @@ const C10_PROTOCOL_COUNT: TemplateConfig<C10Data> = {
   description: "How many protocols are deployed on a given chain",
   type: "chain",
   semanticTopics: [],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
@@ -1566,6 +1626,8 @@ const C14_TVL_DOMINANCE: TemplateConfig<C14Data> = {
   description: "What share of a chain's TVL is controlled by its top protocol",
   type: "chain",
   semanticTopics: ["chain_concentration"],
+  peerMetrics: ["protocolList"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
@@ -1670,6 +1732,462 @@ const C14_TVL_DOMINANCE: TemplateConfig<C14Data> = {
   },
 }
 
+// =============================================================================
+// C15: Dominant Stablecoin
+// =============================================================================
+
+interface C15Data {
+  dominant: { symbol: string; supply: number }
+  coins: Array<{ symbol: string; supply: number }>
+  share: number
+}
+
+/**
+ * USD stablecoins on the topic chain, by current supply (one entry per symbol)
+ */
+function getChainStablecoins(ctx: TemplateContext): Array<{ symbol: string; supply: number }> {
+  const topic = ctx.topic as ChainPoolEntry
+  const chainLower = topic.slug.toLowerCase()
+  const bySymbol = new Map<string, number>()
+
+  for (const coin of ctx.data.stablecoins ?? []) {
+    const key = Object.keys(coin.chainCirculating).find(
+      (chain) => chain.toLowerCase() === chainLower
+    )
+    const supply = key ? coin.chainCirculating[key] : 0
+    if (supply > 0 && supply > (bySymbol.get(coin.symbol) ?? 0)) {
+      bySymbol.set(coin.symbol, supply)
+    }
+  }
+
+  return Array.from(bySymbol, ([symbol, supply]) => ({ symbol, supply })).sort(
+    (a, b) => b.supply - a.supply
+  )
+}
+
+const C15_DOMINANT_STABLECOIN: TemplateConfig<C15Data> = {
+  id: "C15_DOMINANT_STABLECOIN",
+  name: "Dominant Stablecoin",
+  description: "Which stablecoin has the largest supply on a chain",
+  type: "chain",
+  semanticTopics: ["stablecoin_dominance"],
+
+  checkPrereqs(ctx) {
+    if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
+    if (getChainStablecoins(ctx).length < 2) {
+      return { passed: false, reason: "need_2_stablecoins" }
+    }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    if (getChainStablecoins(ctx).length >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    const coins = getChainStablecoins(ctx)
+    const total = coins.reduce((sum, c) => sum + c.supply, 0)
+    return {
+      dominant: coins[0],
+      coins: coins.slice(0, 4),
+      share: total > 0 ? coins[0].supply / total : 0,
+    }
+  },
+
+  getPrompt(_data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return `Which stablecoin has the largest supply on ${topic.name}?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.coins.slice(0, count).map((c) => c.symbol),
+      `${seed}:stablecoins`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.dominant.symbol)
+  },
+
+  getMargin(data) {
+    // Gap between the top two stablecoins
+    return abMargin(data.coins[0].supply, data.coins[1].supply)
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return {
+      chain: topic.name,
+      dominant: data.dominant.symbol,
+      dominantSupply: formatNumber(data.dominant.supply),
+      sharePercent: Math.round(data.share * 100),
+      comparison: data.coins
+        .slice(1)
+        .map((c) => `${c.symbol} (${formatNumber(c.supply)})`)
+        .join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// C16: Stablecoin Supply Trend
+// =============================================================================
+
+interface C16Data {
+  change: number
+  bucketIndex: number
+  currentSupply: number
+}
+
+const C16_STABLECOIN_SUPPLY_TREND: TemplateConfig<C16Data> = {
+  id: "C16_STABLECOIN_SUPPLY_TREND",
+  name: "Stablecoin Supply Trend",
+  description: "How a chain's stablecoin supply changed over the past 30 days",
+  type: "chain",
+  semanticTopics: ["stablecoin_trend"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
+    if (!hasChainStablecoinData(ctx)) return { passed: false, reason: "no_stablecoins" }
+    if (ctx.derived.chainStablecoinChange30d === undefined) {
+      return { passed: false, reason: "need_30d_stablecoin_history" }
+    }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const change = ctx.derived.chainStablecoinChange30d!
+    return {
+      change,
+      bucketIndex: getChangeBucketIndex(change),
+      currentSupply: ctx.derived.chainStablecoinSupply!,
+    }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const topic = ctx.topic as ChainPoolEntry
+    if (format === "tf") {
+      return `The stablecoin supply on ${topic.name} grew over the past 30 days.`
+    }
+    return `How did the stablecoin supply on ${topic.name} change over the past 30 days?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return getChangeBucketChoices()
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.change > 0 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.change > 0
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return Math.abs(data.change)
+    // Distance to bucket boundaries
+    const boundaries = [-0.1, -0.01, 0.01, 0.1]
+    const minDist = Math.min(...boundaries.map((b) => Math.abs(data.change - b)))
+    return Math.min(1, minDist * 4)
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return {
+      chain: topic.name,
+      trendDirection: data.change >= 0 ? "grew" : "shrank",
+      changePercent: Math.abs(data.change * 100).toFixed(1),
+      currentSupply: formatNumber(data.currentSupply),
+      bucket: getChangeBucketChoices()[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// C17: Stablecoin Share of TVL
+// =============================================================================
+
+interface C17Data {
+  supply: number
+  tvl: number
+  ratio: number
+  bucketIndex: number
+}
+
+const STABLECOIN_SHARE_BUCKETS = ["<25%", "25-50%", "50-100%", ">100%"]
+const STABLECOIN_SHARE_BOUNDARIES = [0.25, 0.5, 1]
+
+function getStablecoinShareBucketIndex(ratio: number): number {
+  const index = STABLECOIN_SHARE_BOUNDARIES.findIndex((b) => ratio < b)
+  return index === -1 ? STABLECOIN_SHARE_BOUNDARIES.length : index
+}
+
+const C17_STABLECOIN_SHARE: TemplateConfig<C17Data> = {
+  id: "C17_STABLECOIN_SHARE",
+  name: "Stablecoin Share of TVL",
+  description: "How a chain's stablecoin supply compares to its DeFi TVL",
+  type: "chain",
+  semanticTopics: ["stablecoin_share"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
+    if (!hasChainStablecoinData(ctx)) return { passed: false, reason: "no_stablecoins" }
+    if (!ctx.derived.stablecoinToTvl) return { passed: false, reason: "no_tvl" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    // Near parity, the TF is a coin flip; prefer the bucket question
+    const ratio = ctx.derived.stablecoinToTvl ?? 0
+    if (Math.abs(ratio - 1) < 0.1) return ["mc4"]
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    const ratio = ctx.derived.stablecoinToTvl!
+    return {
+      supply: ctx.derived.chainStablecoinSupply!,
+      tvl: topic.tvl,
+      ratio,
+      bucketIndex: getStablecoinShareBucketIndex(ratio),
+    }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const topic = ctx.topic as ChainPoolEntry
+    if (format === "tf") {
+      return `${topic.name} holds more value in stablecoins than in DeFi TVL.`
+    }
+    return `How large is ${topic.name}'s stablecoin supply relative to its DeFi TVL?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return STABLECOIN_SHARE_BUCKETS
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.ratio > 1 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.ratio > 1
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.supply, data.tvl)
+    // Distance to bucket boundaries
+    const minDist = Math.min(
+      ...STABLECOIN_SHARE_BOUNDARIES.map((b) => Math.abs(data.ratio - b) / Math.max(data.ratio, b))
+    )
+    return Math.min(1, minDist * 2)
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return {
+      chain: topic.name,
+      supply: formatNumber(data.supply),
+      tvl: formatNumber(data.tvl),
+      sharePercent: Math.round(data.ratio * 100),
+      bucket: STABLECOIN_SHARE_BUCKETS[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// C18: Bridge Net Flow
+// =============================================================================
+
+interface C18Data {
+  period: "7d" | "30d"
+  netFlow: number
+  volume: number
+}
+
+const BRIDGE_FLOW_PERIOD_LABELS = { "7d": "7 days", "30d": "30 days" }
+const BRIDGE_FLOW_CHOICES = ["Net inflow", "Net outflow"]
+
+const C18_BRIDGE_NET_FLOW: TemplateConfig<C18Data> = {
+  id: "C18_BRIDGE_NET_FLOW",
+  name: "Bridge Net Flow",
+  description: "Whether more value bridged into or out of a chain over 7 or 30 days",
+  type: "chain",
+  semanticTopics: ["bridge_flow"],
+
+  checkPrereqs(ctx) {
+    if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
+    if (!hasChainBridgeFlows(ctx, "7d") && !hasChainBridgeFlows(ctx, "30d")) {
+      return { passed: false, reason: "no_bridge_flows" }
+    }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["tf", "ab"]
+  },
+
+  extract(ctx, seed) {
+    const periods = (["7d", "30d"] as const).filter((p) => hasChainBridgeFlows(ctx, p))
+    const period = periods[Math.floor(createRng(seed)() * periods.length)]
+    return {
+      period,
+      netFlow: period === "7d" ? ctx.derived.bridgeNetFlow7d! : ctx.derived.bridgeNetFlow30d!,
+      volume: period === "7d" ? ctx.derived.bridgeVolume7d! : ctx.derived.bridgeVolume30d!,
+    }
+  },
+
+  getPrompt(data, ctx, format) {
+    const topic = ctx.topic as ChainPoolEntry
+    const periodLabel = BRIDGE_FLOW_PERIOD_LABELS[data.period]
+    if (format === "tf") {
+      return `More value was bridged into ${topic.name} than out of it over the past ${periodLabel}.`
+    }
+    return `Over the past ${periodLabel}, did ${topic.name} see net bridge inflows or outflows?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return BRIDGE_FLOW_CHOICES
+  },
+
+  getAnswerIndex(data) {
+    // Inflow is the first choice for both formats
+    return data.netFlow > 0 ? 0 : 1
+  },
+
+  getAnswerValue(data) {
+    return data.netFlow > 0
+  },
+
+  getMargin(data) {
+    // Imbalance between inflows and outflows, relative to total bridge volume
+    return Math.min(1, (Math.abs(data.netFlow) / data.volume) * 2)
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return {
+      chain: topic.name,
+      period: BRIDGE_FLOW_PERIOD_LABELS[data.period],
+      flowDirection: data.netFlow > 0 ? "net inflow" : "net outflow",
+      netFlow: formatNumber(Math.abs(data.netFlow)),
+      bridgeVolume: formatNumber(data.volume),
+    }
+  },
+}
+
+// =============================================================================
+// C19: Busiest Connected Bridge
+// =============================================================================
+
+interface C19Data {
+  top: { name: string; volume: number }
+  bridges: Array<{ name: string; volume: number }>
+}
+
+/**
+ * Bridges connected to the topic chain, by total monthly volume (one entry per name).
+ * Volume covers each bridge's traffic on all of its chains, not just the topic chain,
+ * so questions ask which bridge is busiest overall, not which carries the chain's flows.
+ */
+function getChainBridges(ctx: TemplateContext): Array<{ name: string; volume: number }> {
+  const topic = ctx.topic as ChainPoolEntry
+  const chainLower = topic.slug.toLowerCase()
+  const byName = new Map<string, number>()
+
+  for (const bridge of ctx.data.bridges ?? []) {
+    const volume = bridge.monthlyVolume ?? 0
+    if (volume <= 0) continue
+    if (!bridge.chains.some((chain) => chain.toLowerCase() === chainLower)) continue
+    if (volume > (byName.get(bridge.displayName) ?? 0)) {
+      byName.set(bridge.displayName, volume)
+    }
+  }
+
+  return Array.from(byName, ([name, volume]) => ({ name, volume })).sort(
+    (a, b) => b.volume - a.volume
+  )
+}
+
+const C19_BUSIEST_BRIDGE: TemplateConfig<C19Data> = {
+  id: "C19_BUSIEST_BRIDGE",
+  name: "Busiest Connected Bridge",
+  description: "Which bridge serving a chain moves the most monthly volume across all its chains",
+  type: "chain",
+  semanticTopics: ["bridge_volume"],
+
+  checkPrereqs(ctx) {
+    if (!isChainContext(ctx)) return { passed: false, reason: "not_chain" }
+    if (getChainBridges(ctx).length < 2) {
+      return { passed: false, reason: "need_2_bridges" }
+    }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    if (getChainBridges(ctx).length >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    const bridges = getChainBridges(ctx)
+    return {
+      top: bridges[0],
+      bridges: bridges.slice(0, 4),
+    }
+  },
+
+  getPrompt(_data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return `Among bridges that serve ${topic.name}, which moved the most volume over the past month across all the chains it connects?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.bridges.slice(0, count).map((b) => b.name),
+      `${seed}:bridges`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.top.name)
+  },
+
+  getMargin(data) {
+    // Gap between the top two bridges
+    return abMargin(data.bridges[0].volume, data.bridges[1].volume)
+  },
+
+  getExplainData(data, ctx) {
+    const topic = ctx.topic as ChainPoolEntry
+    return {
+      chain: topic.name,
+      busiestBridge: data.top.name,
+      topVolume: formatNumber(data.top.volume),
+      comparison: data.bridges
+        .slice(1)
+        .map((b) => `${b.name} (${formatNumber(b.volume)})`)
+        .join(", "),
+    }
+  },
+}
+
 // =============================================================================
 // Export all templates
 // =============================================================================
@@ -1689,6 +2207,11 @@ export const CHAIN_TEMPLATE_CONFIGS = {
   C12_CATEGORY_DOMINANCE,
   C13_LAYER_TYPE,
   C14_TVL_DOMINANCE,
+  C15_DOMINANT_STABLECOIN,
+  C16_STABLECOIN_SUPPLY_TREND,
+  C17_STABLECOIN_SHARE,
+  C18_BRIDGE_NET_FLOW,
+  C19_BUSIEST_BRIDGE,
 }
 
 // Create Template implementations from configs
@@ -1706,3 +2229,8 @@ export const c11TopProtocolByTVL = createTemplate(C11_TOP_PROTOCOL_TVL)
 export const c12CategoryDominance = createTemplate(C12_CATEGORY_DOMINANCE)
 export const c13LayerType = createTemplate(C13_LAYER_TYPE)
 export const c14TvlDominance = createTemplate(C14_TVL_DOMINANCE)
+export const c15DominantStablecoin = createTemplate(C15_DOMINANT_STABLECOIN)
+export const c16StablecoinSupplyTrend = createTemplate(C16_STABLECOIN_SUPPLY_TREND)
+export const c17StablecoinShare = createTemplate(C17_STABLECOIN_SHARE)
+export const c18BridgeNetFlow = createTemplate(C18_BRIDGE_NET_FLOW)
+export const c19BusiestBridge = createTemplate(C19_BUSIEST_BRIDGE)
@@ -29,7 +29,7 @@ import { getRankBucket } from "../difficulty"
 /**
  * Episode type the template applies to
  */
-export type TemplateType = "protocol" | "chain" | "both"
+export type TemplateType = "protocol" | "chain" | "category" | "both"
 
 /**
  * Prerequisite check result
@@ -69,6 +69,20 @@ export interface TemplateConfig<T extends Record<string, any> = Record<string, a
   /** Whether this template can be used multiple times in an episode */
   allowReuse?: boolean
 
+  /**
+   * Formats whose choices are ordered buckets (adjacent choices are one
+   * bucket apart). Enables partial credit for near-miss answers.
+   */
+  orderedChoiceFormats?: QuestionFormat[]
+
+  /**
+   * Latest-only metrics the template compares the topic against (e.g.,
+   * "protocolList" peers, "tvlRank"). Snapshot mode rewinds the topic's own
+   * values but not these, so the template is skipped when any of them is
+   * latest-available rather than mixing dates in one answer.
+   */
+  peerMetrics?: string[]
+
   /**
    * Check if template prerequisites are met.
    * Return { passed: true } if the template can be used.
@@ -99,7 +113,11 @@ export interface TemplateConfig<T extends Record<string, any> = Record<string, a
    * Generate clues (for fingerprint-style questions).
    * Return undefined if this template doesn't use clues.
    */
-  getClues?: (data: T, ctx: TemplateContext) => string[] | undefined
+  getClues?: (
+    data: T,
+    ctx: TemplateContext,
+    format: QuestionFormat
+  ) => string[] | undefined
 
   /**
    * Generate answer choices for a given format.
@@ -128,12 +146,31 @@ export interface TemplateConfig<T extends Record<string, any> = Record<string, a
    */
   getAnswerValue?: (data: T, ctx: TemplateContext) => boolean
 
+  /**
+   * For rank4 format, return the correct order (first = highest).
+   * Every item must appear in the choices array.
+   * Optional - templates without it cannot be instantiated as rank4.
+   */
+  getAnswerOrder?: (data: T, ctx: TemplateContext) => string[]
+
+  /**
+   * For text format, return accepted write-in answers (display name first).
+   * Optional - templates without it cannot be instantiated as text.
+   */
+  getAcceptedAnswers?: (data: T, ctx: TemplateContext) => string[]
+
   /**
    * Calculate the margin for difficulty scoring.
    * Return null if not applicable (e.g., fingerprint questions).
    */
   getMargin: (data: T, ctx: TemplateContext, format: QuestionFormat) => number | null
 
+  /**
+   * Volatility of the underlying data (0-1) for difficulty scoring and
+   * the post-balance pass. Defaults to the topic's TVL volatility.
+   */
+  getVolatility?: (data: T, ctx: TemplateContext, format: QuestionFormat) => number | null
+
   /**
    * Get structured data for explanation generation.
    * This data is passed to the LLM to generate explanations.
@@ -200,8 +237,10 @@ export function createTemplate<T extends Record<string, any>>(
         if (ctx.episodeType !== config.type) return false
       }
 
-      const result = config.checkPrereqs(ctx)
-      return result.passed
+      // Snapshot values can't be compared against latest peer values
+      if (config.peerMetrics && isLatestOnly(ctx, ...config.peerMetrics)) return false
+
+      return config.checkPrereqs(ctx).passed
     },
 
     proposeFormats(ctx: TemplateContext): QuestionFormat[] {
@@ -213,53 +252,10 @@ export function createTemplate<T extends Record<string, any>>(
       format: QuestionFormat,
       seed: number
     ): QuestionDraft | null {
-      // Extract data
-      const data = config.extract(ctx, seed)
-      if (!data) return null
-
-      // Cache extracted data for getSemanticTopics
-      lastExtractedData = { seed, data }
-
-      // Generate question components
-      const prompt = config.getPrompt(data, ctx, format)
-      const clues = config.getClues?.(data, ctx)
-      const choices = config.getChoices(data, ctx, format, seed)
-      const answerIndex = config.getAnswerIndex(data, ctx, format, choices)
-      const answerValue =
-        format === "tf" ? config.getAnswerValue?.(data, ctx) : undefined
-      const margin = config.getMargin(data, ctx, format)
-      const explainData = config.getExplainData(
-        data,
-        ctx,
-        format,
-        choices,
-        answerIndex
-      )
-      const buildNotes = config.getBuildNotes?.(data, ctx, format) ?? []
-
-      // Build signals for difficulty calculation
-      const signals: DifficultySignals = {
-        format,
-        familiarityRankBucket: getRankBucket(ctx.topic.tvlRank) as FamiliarityRankBucket,
-        margin,
-        volatility: ctx.derived.tvlVolatility ?? null,
-      }
-
-      const draft: QuestionDraft = {
-        templateId: config.id,
-        format,
-        prompt,
-        choices,
-        answerIndex,
-        signals,
-        explainData,
-        buildNotes,
-      }
-
-      if (clues) draft.clues = clues
-      if (answerValue !== undefined) draft.answerValue = answerValue
-
-      return draft
+      // Drafts showing NaN/undefined text fail like a null extract
+      // (logged as instantiate_failed in the build log)
+      const draft = buildDraft(ctx, format, seed)
+      return draft && !hasInvalidText(draft) ? draft : null
     },
 
     // Dynamic semantic topics support
@@ -272,6 +268,93 @@ export function createTemplate<T extends Record<string, any>>(
       return config.semanticTopics ?? []
     },
   }
+
+  function buildDraft(
+    ctx: TemplateContext,
+    format: QuestionFormat,
+    seed: number
+  ): QuestionDraft | null {
+    // Extract data
+    const data = config.extract(ctx, seed)
+    if (!data) return null
+
+    // Cache extracted data for getSemanticTopics
+    lastExtractedData = { seed, data }
+
+    // Generate question components
+    const prompt = config.getPrompt(data, ctx, format)
+    const clues = config.getClues?.(data, ctx, format)
+    const choices = config.getChoices(data, ctx, format, seed)
+    const answerIndex = config.getAnswerIndex(data, ctx, format, choices)
+    const answerValue =
+      format === "tf" ? config.getAnswerValue?.(data, ctx) : undefined
+    const answerOrder =
+      format === "rank4" ? config.getAnswerOrder?.(data, ctx) : undefined
+
+    const acceptedAnswers =
+      format === "text" ? config.getAcceptedAnswers?.(data, ctx) : undefined
+
+    // Ranking questions are meaningless without a verified order over the choices
+    if (format === "rank4") {
+      if (!answerOrder || answerOrder.length !== choices.length) return null
+      if (!answerOrder.every((item) => choices.includes(item))) return null
+    }
+
+    // Write-in questions need at least one accepted answer
+    if (format === "text" && !acceptedAnswers?.length) return null
+    const margin = config.getMargin(data, ctx, format)
+    const explainData = config.getExplainData(
+      data,
+      ctx,
+      format,
+      choices,
+      answerIndex
+    )
+    const buildNotes = config.getBuildNotes?.(data, ctx, format) ?? []
+
+    // Build signals for difficulty calculation
+    const signals: DifficultySignals = {
+      format,
+      familiarityRankBucket: getRankBucket(ctx.topic.tvlRank) as FamiliarityRankBucket,
+      margin,
+      volatility: config.getVolatility
+        ? config.getVolatility(data, ctx, format)
+        : ctx.derived.tvlVolatility ?? null,
+    }
+
+    const draft: QuestionDraft = {
+      templateId: config.id,
+      format,
+      prompt,
+      choices,
+      answerIndex: format === "rank4" ? undefined : answerIndex,
+      signals,
+      explainData,
+      buildNotes,
+    }
+
+    if (clues) draft.clues = clues
+    if (answerValue !== undefined) draft.answerValue = answerValue
+    if (answerOrder) draft.answerOrder = answerOrder
+    if (acceptedAnswers) draft.acceptedAnswers = acceptedAnswers
+    if (config.orderedChoiceFormats?.includes(format)) draft.orderedChoices = true
+
+    return draft
+  }
+}
+
+/**
+ * Values that only show up in question text when upstream data was bad
+ */
+const INVALID_TEXT_PATTERN = /NaN|Infinity|\bundefined\b|\bnull\b/
+
+/**
+ * Check if a draft's player-facing text contains invalid values
+ * (e.g., "$NaNB" from a TVL that failed to parse)
+ */
+function hasInvalidText(draft: QuestionDraft): boolean {
+  const texts = [draft.prompt, ...(draft.choices ?? []), ...(draft.clues ?? [])]
+  return texts.some((text) => INVALID_TEXT_PATTERN.test(text))
 }
 
 // =============================================================================
@@ -292,6 +375,13 @@ export function isChainContext(ctx: TemplateContext): boolean {
   return ctx.episodeType === "chain"
 }
 
+/**
+ * Check if context is for a category episode
+ */
+export function isCategoryContext(ctx: TemplateContext): boolean {
+  return ctx.episodeType === "category"
+}
+
 /**
  * Check if protocol has minimum number of chains
  */
@@ -321,6 +411,27 @@ export function hasRevenueData(ctx: TemplateContext): boolean {
   return revenue?.total7d !== undefined && revenue.total7d > 0
 }
 
+/**
+ * Check if protocol has disclosed funding rounds
+ */
+export function hasRaisesData(ctx: TemplateContext): boolean {
+  return ctx.derived.totalRaised !== undefined && ctx.derived.totalRaised > 0
+}
+
+/**
+ * Check if protocol has DEX volume data
+ */
+export function hasProtocolVolumeData(ctx: TemplateContext): boolean {
+  return ctx.derived.volume7d !== undefined && ctx.derived.volume7d > 0
+}
+
+/**
+ * Check if protocol has yield pools above the minimum pool TVL
+ */
+export function hasYieldData(ctx: TemplateContext, min: number = 1): boolean {
+  return (ctx.derived.yieldPoolCount ?? 0) >= min
+}
+
 /**
  * Check if chain has sufficient history
  */
@@ -363,6 +474,22 @@ export function hasChainDexData(ctx: TemplateContext): boolean {
   return dex?.protocols !== undefined && dex.protocols.length > 0
 }
 
+/**
+ * Check if chain has stablecoin supply data
+ */
+export function hasChainStablecoinData(ctx: TemplateContext): boolean {
+  const supply = ctx.derived.chainStablecoinSupply
+  return supply !== undefined && supply > 0
+}
+
+/**
+ * Check if chain has bridge flow data for a period
+ */
+export function hasChainBridgeFlows(ctx: TemplateContext, period: "7d" | "30d"): boolean {
+  const volume = period === "7d" ? ctx.derived.bridgeVolume7d : ctx.derived.bridgeVolume30d
+  return volume !== undefined && volume > 0
+}
+
 /**
  * Check if chain pool is available with minimum entries
  */
@@ -377,6 +504,15 @@ export function hasProtocolList(ctx: TemplateContext, min: number = 6): boolean
   return ctx.data.protocolList !== undefined && ctx.data.protocolList.length >= min
 }
 
+/**
+ * Check if any of the metrics is only available as a latest value in a
+ * snapshot-mode episode (always false outside snapshot mode)
+ */
+export function isLatestOnly(ctx: TemplateContext, ...metrics: string[]): boolean {
+  const latest = ctx.snapshot?.latestMetrics
+  return latest !== undefined && metrics.some((metric) => latest.includes(metric))
+}
+
 // =============================================================================
 // Common Format Helpers
 // =============================================================================
@@ -515,7 +651,7 @@ export function createRankThresholdFallback(options: {
   threshold: number
   rankField: "tvlRank" | "chainTvlRank"
   semanticTopics?: string[]
-  entityType: "protocols" | "chains"
+  entityType: "protocols" | "chains" | "categories"
 }): FallbackConfig {
   const {
     id,
@@ -531,7 +667,7 @@ export function createRankThresholdFallback(options: {
     difficulty,
     format: "tf",
     semanticTopics,
-    canUse: (ctx) => ctx.derived[rankField] !== undefined,
+    canUse: (ctx) => ctx.derived[rankField] !== undefined && !isLatestOnly(ctx, rankField),
     getPrompt: (ctx) =>
       `${ctx.topic.name} is ranked in the top ${threshold} ${entityType} by TVL.`,
     getAnswerIndex: (ctx) => ((ctx.derived[rankField] ?? 999) <= threshold ? 0 : 1),
@@ -543,7 +679,7 @@ export function createRankThresholdFallback(options: {
       comparison: (ctx.derived[rankField] ?? 999) <= threshold ? "within" : "outside",
     }),
     getMargin: (ctx) => {
-      const divisor = entityType === "protocols" ? 50 : 30
+      const divisor = entityType === "protocols" ? 50 : entityType === "chains" ? 30 : 10
       return Math.abs((ctx.derived[rankField] ?? 999) - threshold) / divisor
     },
   }
@@ -696,6 +832,62 @@ export function createChainCountFallback(options: {
   }
 }
 
+/**
+ * Helper to create bridge net flow threshold fallbacks
+ * For "saw more than $X in net bridge inflows/outflows" pattern
+ */
+export function createNetFlowThresholdFallback(options: {
+  id: string
+  difficulty: FallbackDifficulty
+  flowField: "bridgeNetFlow7d" | "bridgeNetFlow30d"
+  threshold: number
+  direction: "inflow" | "outflow"
+  thresholdLabel: string
+  periodLabel: string
+  semanticTopics?: string[]
+}): FallbackConfig {
+  const {
+    id,
+    difficulty,
+    flowField,
+    threshold,
+    direction,
+    thresholdLabel,
+    periodLabel,
+    semanticTopics = ["bridge_flow"],
+  } = options
+
+  const isInflow = direction === "inflow"
+  const signedThreshold = isInflow ? threshold : -threshold
+  const meetsThreshold = (flow: number) => (isInflow ? flow > threshold : flow < -threshold)
+
+  return {
+    id,
+    difficulty,
+    format: "tf",
+    semanticTopics,
+    canUse: (ctx) => ctx.derived[flowField] !== undefined,
+    getPrompt: (ctx) =>
+      `${ctx.topic.name} saw more than ${thresholdLabel} in net bridge ${direction}s over ${periodLabel}.`,
+    getAnswerIndex: (ctx) => (meetsThreshold(ctx.derived[flowField] ?? 0) ? 0 : 1),
+    getAnswerValue: (ctx) => meetsThreshold(ctx.derived[flowField] ?? 0),
+    getExplainData: (ctx) => {
+      const flow = ctx.derived[flowField] ?? 0
+      return {
+        name: ctx.topic.name,
+        netFlow: formatTvlValue(Math.abs(flow)),
+        flowDirection: flow > 0 ? "net inflow" : "net outflow",
+        threshold: thresholdLabel,
+        comparison: meetsThreshold(flow) ? "exceeded" : "did not reach",
+      }
+    },
+    getMargin: (ctx) => {
+      const flow = ctx.derived[flowField] ?? 0
+      return Math.min(1, Math.abs(flow - signedThreshold) / Math.max(Math.abs(flow), threshold))
+    },
+  }
+}
+
 // =============================================================================
 // Formatting Helpers
 // =============================================================================
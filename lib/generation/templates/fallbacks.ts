@@ -11,11 +11,13 @@
  * - Trend-based questions using 30-day data (minimum period for stability)
  * - Rank-based questions (top 10, top 25, etc.)
  * - Chain count questions for protocols
+ * - Bridge net flow threshold questions for chains
+ * - Category TVL, 7d trend, rank, and neighbor comparisons for categories
  * - Semantic topics for deduplication
  * - Margin validation to filter out trivially easy T/F questions
  */
 
-import type { TemplateContext } from "@/lib/types/episode"
+import type { EpisodeType, TemplateContext } from "@/lib/types/episode"
 import type { ProtocolPoolEntry } from "@/lib/types/pools"
 import {
   FallbackConfig,
@@ -24,7 +26,9 @@ import {
   createTrendFallback,
   createTrendThresholdFallback,
   createChainCountFallback,
+  createNetFlowThresholdFallback,
   formatTvlValue,
+  isLatestOnly,
 } from "./config"
 
 // =============================================================================
@@ -158,7 +162,8 @@ const PROTOCOL_COMPARISONS: FallbackConfig[] = [
     semanticTopics: ["tvl_absolute"],
     canUse: (ctx) =>
       ctx.derived.nearbyProtocols !== undefined &&
-      ctx.derived.nearbyProtocols.length > 0,
+      ctx.derived.nearbyProtocols.length > 0 &&
+      !isLatestOnly(ctx, "protocolList"),
     getPrompt: () => `Which protocol has higher TVL?`,
     getChoices: (ctx) => {
       const nearby = ctx.derived.nearbyProtocols?.[0]
@@ -200,7 +205,8 @@ const PROTOCOL_COMPARISONS: FallbackConfig[] = [
     canUse: (ctx) =>
       isProtocolTopic(ctx.topic) &&
       ctx.derived.categoryProtocols !== undefined &&
-      ctx.derived.categoryProtocols.length > 0,
+      ctx.derived.categoryProtocols.length > 0 &&
+      !isLatestOnly(ctx, "protocolList"),
     getPrompt: (ctx) => {
       const topic = ctx.topic as ProtocolPoolEntry
       return `Which ${topic.category} protocol has higher TVL?`
@@ -359,7 +365,9 @@ const CHAIN_COMPARISONS: FallbackConfig[] = [
     format: "ab",
     semanticTopics: ["tvl_absolute"],
     canUse: (ctx) =>
-      ctx.derived.nearbyChains !== undefined && ctx.derived.nearbyChains.length > 0,
+      ctx.derived.nearbyChains !== undefined &&
+      ctx.derived.nearbyChains.length > 0 &&
+      !isLatestOnly(ctx, "chainPool", "chainList"),
     getPrompt: () => `Which chain has higher TVL?`,
     getChoices: (ctx) => {
       const nearby = ctx.derived.nearbyChains?.[0]
@@ -395,6 +403,166 @@ const CHAIN_COMPARISONS: FallbackConfig[] = [
   },
 ]
 
+/**
+ * Chain Bridge Net Flow Fallbacks
+ */
+const CHAIN_BRIDGE_FLOWS: FallbackConfig[] = [
+  createNetFlowThresholdFallback({
+    id: "chain_bridge_inflow_7d_above_10m",
+    difficulty: "easy",
+    flowField: "bridgeNetFlow7d",
+    threshold: 10_000_000,
+    direction: "inflow",
+    thresholdLabel: "$10M",
+    periodLabel: "the past 7 days",
+  }),
+  createNetFlowThresholdFallback({
+    id: "chain_bridge_outflow_7d_above_10m",
+    difficulty: "easy",
+    flowField: "bridgeNetFlow7d",
+    threshold: 10_000_000,
+    direction: "outflow",
+    thresholdLabel: "$10M",
+    periodLabel: "the past 7 days",
+  }),
+  createNetFlowThresholdFallback({
+    id: "chain_bridge_inflow_30d_above_50m",
+    difficulty: "medium",
+    flowField: "bridgeNetFlow30d",
+    threshold: 50_000_000,
+    direction: "inflow",
+    thresholdLabel: "$50M",
+    periodLabel: "the past 30 days",
+  }),
+  createNetFlowThresholdFallback({
+    id: "chain_bridge_outflow_30d_above_50m",
+    difficulty: "medium",
+    flowField: "bridgeNetFlow30d",
+    threshold: 50_000_000,
+    direction: "outflow",
+    thresholdLabel: "$50M",
+    periodLabel: "the past 30 days",
+  }),
+]
+
+// =============================================================================
+// Category Fallback Configurations
+// =============================================================================
+
+/**
+ * Category TVL Threshold Fallbacks
+ */
+const CATEGORY_TVL_THRESHOLDS: FallbackConfig[] = [
+  createTvlThresholdFallback({
+    id: "category_tvl_above_1b",
+    difficulty: "easy",
+    threshold: 1_000_000_000,
+    thresholdLabel: "$1B",
+    promptBuilder: (name, t) => `The ${name} category has more than ${t} in TVL.`,
+  }),
+  createTvlThresholdFallback({
+    id: "category_tvl_above_5b",
+    difficulty: "medium",
+    threshold: 5_000_000_000,
+    thresholdLabel: "$5B",
+    promptBuilder: (name, t) => `The ${name} category has more than ${t} in TVL.`,
+  }),
+  createTvlThresholdFallback({
+    id: "category_tvl_above_10b",
+    difficulty: "medium",
+    threshold: 10_000_000_000,
+    thresholdLabel: "$10B",
+    promptBuilder: (name, t) => `The ${name} category has more than ${t} in TVL.`,
+  }),
+]
+
+/**
+ * Category Trend Fallbacks
+ * Category growth only exists as a 7d figure (from the protocol list)
+ */
+const CATEGORY_TRENDS: FallbackConfig[] = [
+  createTrendFallback({
+    id: "category_tvl_increased_7d",
+    difficulty: "easy",
+    trendField: "change7d",
+    direction: "increased",
+    periodLabel: "the past 7 days",
+  }),
+  createTrendFallback({
+    id: "category_tvl_decreased_7d",
+    difficulty: "easy",
+    trendField: "change7d",
+    direction: "decreased",
+    periodLabel: "the past 7 days",
+  }),
+]
+
+/**
+ * Category Rank Fallbacks
+ */
+const CATEGORY_RANKS: FallbackConfig[] = [
+  createRankThresholdFallback({
+    id: "category_rank_top_5",
+    difficulty: "easy",
+    threshold: 5,
+    rankField: "tvlRank",
+    entityType: "categories",
+  }),
+  createRankThresholdFallback({
+    id: "category_rank_top_10",
+    difficulty: "medium",
+    threshold: 10,
+    rankField: "tvlRank",
+    entityType: "categories",
+  }),
+]
+
+/**
+ * Category A/B Comparison Fallbacks
+ */
+const CATEGORY_COMPARISONS: FallbackConfig[] = [
+  {
+    id: "category_compare_nearby",
+    difficulty: "medium",
+    format: "ab",
+    semanticTopics: ["tvl_absolute"],
+    canUse: (ctx) =>
+      ctx.derived.nearbyCategories !== undefined && ctx.derived.nearbyCategories.length > 0,
+    getPrompt: () => `Which DeFi category has higher TVL?`,
+    getChoices: (ctx) => {
+      const nearby = ctx.derived.nearbyCategories?.[0]
+      if (!nearby) return [ctx.topic.name, "Unknown"]
+      return [ctx.topic.name, nearby.name]
+    },
+    getAnswerIndex: (ctx) => {
+      const nearby = ctx.derived.nearbyCategories?.[0]
+      if (!nearby) return 0
+      return (ctx.derived.currentTvl ?? 0) >= nearby.tvl ? 0 : 1
+    },
+    getExplainData: (ctx) => {
+      const nearby = ctx.derived.nearbyCategories?.[0]
+      const topicTvl = ctx.derived.currentTvl ?? 0
+      const nearbyTvl = nearby?.tvl ?? 0
+      const winner = topicTvl >= nearbyTvl ? ctx.topic.name : nearby?.name ?? "Unknown"
+      const loser = topicTvl >= nearbyTvl ? nearby?.name ?? "Unknown" : ctx.topic.name
+      const margin = Math.abs(topicTvl - nearbyTvl) / Math.max(topicTvl, nearbyTvl)
+      return {
+        winner,
+        loser,
+        winnerTvl: formatTvlValue(Math.max(topicTvl, nearbyTvl)),
+        loserTvl: formatTvlValue(Math.min(topicTvl, nearbyTvl)),
+        marginPercent: (margin * 100).toFixed(1),
+      }
+    },
+    getMargin: (ctx) => {
+      const nearby = ctx.derived.nearbyCategories?.[0]
+      if (!nearby) return null
+      const topicTvl = ctx.derived.currentTvl ?? 0
+      return Math.abs(topicTvl - nearby.tvl) / Math.max(topicTvl, nearby.tvl)
+    },
+  },
+]
+
 // =============================================================================
 // Type Guards
 // =============================================================================
@@ -426,13 +594,23 @@ export const CHAIN_FALLBACKS: FallbackConfig[] = [
   ...CHAIN_TRENDS,
   ...CHAIN_RANKS,
   ...CHAIN_COMPARISONS,
+  ...CHAIN_BRIDGE_FLOWS,
+]
+
+/**
+ * All category fallback configurations
+ */
+export const CATEGORY_FALLBACKS: FallbackConfig[] = [
+  ...CATEGORY_TVL_THRESHOLDS,
+  ...CATEGORY_TRENDS,
+  ...CATEGORY_RANKS,
+  ...CATEGORY_COMPARISONS,
 ]
 
 /**
  * Get fallbacks for a specific episode type
  */
-export function getFallbacksForType(
-  episodeType: "protocol" | "chain"
-): FallbackConfig[] {
+export function getFallbacksForType(episodeType: EpisodeType): FallbackConfig[] {
+  if (episodeType === "category") return CATEGORY_FALLBACKS
   return episodeType === "protocol" ? PROTOCOL_FALLBACKS : CHAIN_FALLBACKS
 }
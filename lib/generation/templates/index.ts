@@ -2,7 +2,8 @@
  * Question Templates Index
  *
  * Exports all template implementations for question generation.
- * Templates are now defined declaratively in protocols.ts and chains.ts.
+ * Templates are now defined declaratively in protocols.ts, chains.ts, and
+ * categories.ts.
  */
 
 import type { Template } from "@/lib/types/template"
@@ -37,6 +38,17 @@ export {
   p31PreciseRank,
   p32ExchangeComparison,
   p33MultiRanking,
+  p34RaisedBand,
+  p35LargestRoundTiming,
+  p36TvlVsRaised,
+  p37McapTvlBucket,
+  p38VolumeTvlRatio,
+  p39TopVolumeChain,
+  p40VolumeTrend30d,
+  p41DexVolumeRank,
+  p42TopYieldPool,
+  p43MedianApyBand,
+  p44StablePoolShare,
   // Config objects for documentation generation
   PROTOCOL_TEMPLATE_CONFIGS,
 } from "./protocols"
@@ -61,10 +73,31 @@ export {
   c12CategoryDominance,
   c13LayerType,
   c14TvlDominance,
+  c15DominantStablecoin,
+  c16StablecoinSupplyTrend,
+  c17StablecoinShare,
+  c18BridgeNetFlow,
+  c19BusiestBridge,
   // Config objects for documentation generation
   CHAIN_TEMPLATE_CONFIGS,
 } from "./chains"
 
+// =============================================================================
+// Category Templates (CAT1-CAT6)
+// =============================================================================
+
+export {
+  // Template instances
+  cat1CategoryFingerprint,
+  cat2CategoryLeader,
+  cat3Concentration,
+  cat4TopChain,
+  cat5GrowthVsCategories,
+  cat6TvlComparison,
+  // Config objects for documentation generation
+  CATEGORY_TEMPLATE_CONFIGS,
+} from "./categories"
+
 // Re-export config types and utilities
 export {
   type TemplateConfig,
@@ -75,15 +108,21 @@ export {
   createTemplate,
   isProtocolContext,
   isChainContext,
+  isCategoryContext,
   hasMinChains,
   hasFeesData,
   hasRevenueData,
+  hasRaisesData,
+  hasProtocolVolumeData,
+  hasYieldData,
   hasMinChainHistory,
   hasMinProtocolHistory,
   hasChainFeesData,
   hasChainDexData,
   hasChainPool,
+  hasChainStablecoinData,
   hasProtocolList,
+  isLatestOnly,
   standardFormats,
   abFormats,
   // Fallback builder helpers
@@ -102,6 +141,7 @@ export {
 export {
   PROTOCOL_FALLBACKS,
   CHAIN_FALLBACKS,
+  CATEGORY_FALLBACKS,
   getFallbacksForType,
 } from "./fallbacks"
 
@@ -131,6 +171,17 @@ import {
   p31PreciseRank,
   p32ExchangeComparison,
   p33MultiRanking,
+  p34RaisedBand,
+  p35LargestRoundTiming,
+  p36TvlVsRaised,
+  p37McapTvlBucket,
+  p38VolumeTvlRatio,
+  p39TopVolumeChain,
+  p40VolumeTrend30d,
+  p41DexVolumeRank,
+  p42TopYieldPool,
+  p43MedianApyBand,
+  p44StablePoolShare,
 } from "./protocols"
 
 import {
@@ -148,9 +199,24 @@ import {
   c12CategoryDominance,
   c13LayerType,
   c14TvlDominance,
+  c15DominantStablecoin,
+  c16StablecoinSupplyTrend,
+  c17StablecoinShare,
+  c18BridgeNetFlow,
+  c19BusiestBridge,
 } from "./chains"
 
+import {
+  cat1CategoryFingerprint,
+  cat2CategoryLeader,
+  cat3Concentration,
+  cat4TopChain,
+  cat5GrowthVsCategories,
+  cat6TvlComparison,
+} from "./categories"
+
 import type { TemplateMatrix } from "@/lib/types/template"
+import type { EpisodeType } from "@/lib/types/episode"
 
 // =============================================================================
 // Template Registries
@@ -184,6 +250,17 @@ export const PROTOCOL_TEMPLATES: Record<string, Template> = {
   P31_PRECISE_RANK: p31PreciseRank,
   P32_EXCHANGE_COMPARISON: p32ExchangeComparison,
   P33_MULTI_RANKING: p33MultiRanking,
+  P34_RAISED_BAND: p34RaisedBand,
+  P35_LARGEST_ROUND_TIMING: p35LargestRoundTiming,
+  P36_TVL_VS_RAISED: p36TvlVsRaised,
+  P37_MCAP_TVL_BUCKET: p37McapTvlBucket,
+  P38_VOLUME_TVL_RATIO: p38VolumeTvlRatio,
+  P39_TOP_VOLUME_CHAIN: p39TopVolumeChain,
+  P40_VOLUME_TREND_30D: p40VolumeTrend30d,
+  P41_DEX_VOLUME_RANK: p41DexVolumeRank,
+  P42_TOP_YIELD_POOL: p42TopYieldPool,
+  P43_MEDIAN_APY_BAND: p43MedianApyBand,
+  P44_STABLE_POOL_SHARE: p44StablePoolShare,
 }
 
 /**
@@ -204,6 +281,23 @@ export const CHAIN_TEMPLATES: Record<string, Template> = {
   C12_CATEGORY_DOMINANCE: c12CategoryDominance,
   C13_LAYER_TYPE: c13LayerType,
   C14_TVL_DOMINANCE: c14TvlDominance,
+  C15_DOMINANT_STABLECOIN: c15DominantStablecoin,
+  C16_STABLECOIN_SUPPLY_TREND: c16StablecoinSupplyTrend,
+  C17_STABLECOIN_SHARE: c17StablecoinShare,
+  C18_BRIDGE_NET_FLOW: c18BridgeNetFlow,
+  C19_BUSIEST_BRIDGE: c19BusiestBridge,
+}
+
+/**
+ * All category templates indexed by ID
+ */
+export const CATEGORY_TEMPLATES: Record<string, Template> = {
+  CAT1_FINGERPRINT: cat1CategoryFingerprint,
+  CAT2_CATEGORY_LEADER: cat2CategoryLeader,
+  CAT3_CONCENTRATION: cat3Concentration,
+  CAT4_TOP_CHAIN: cat4TopChain,
+  CAT5_GROWTH_VS_CATEGORIES: cat5GrowthVsCategories,
+  CAT6_TVL_COMPARISON: cat6TvlComparison,
 }
 
 // =============================================================================
@@ -233,6 +327,8 @@ export const PROTOCOL_MATRIX: TemplateMatrix = {
     p16CategoryPeer, // Good for single-chain protocols
     p27DerivativesRanking, // For derivatives protocols
     p30ChainExpansion, // Multi-chain deployment questions
+    p39TopVolumeChain, // DEXs: top chain by volume
+    p42TopYieldPool, // Needs yield pools
   ],
   C: [
     p5FeesVsRevenue,
@@ -244,11 +340,19 @@ export const PROTOCOL_MATRIX: TemplateMatrix = {
     p22CategoryMarketShare, // Single-chain friendly
     p27DerivativesRanking, // For derivatives protocols
     p29CategoryGrowth, // Category TVL growth comparison
+    p34RaisedBand, // Funding (needs disclosed raises)
+    p37McapTvlBucket, // Needs a token market cap
+    p38VolumeTvlRatio, // DEXs: volume vs TVL
+    p40VolumeTrend30d, // DEXs: needs 60 days of volume
+    p43MedianApyBand, // Yield pools: APY is high-volatility
+    p44StablePoolShare, // Yield pools: stablecoin vs volatile TVL
   ],
   D: [
     p4ATHTiming,
     p32ExchangeComparison, // Hard: CEX/DEX specific comparison
     p33MultiRanking, // Hard: rank 3 protocols by TVL
+    p35LargestRoundTiming, // Hard: funding round timing
+    p41DexVolumeRank, // Hard: rank among all DEXs by volume
     p5FeesVsRevenue,
     p2CrossChainDominance,
     p11FeesTrend,
@@ -260,6 +364,8 @@ export const PROTOCOL_MATRIX: TemplateMatrix = {
     p27DerivativesRanking, // For derivatives protocols
     p29CategoryGrowth, // Category TVL growth comparison
     p31PreciseRank, // Moved to low priority — was dominating slot D in every episode
+    p36TvlVsRaised, // TVL vs own funding, peer TVLs as distractors
+    p43MedianApyBand, // Yield pools: APY is high-volatility
   ],
   E: [
     p6TVLTrend,
@@ -270,6 +376,12 @@ export const PROTOCOL_MATRIX: TemplateMatrix = {
     p15RecentTVLDirection,
     p22CategoryMarketShare, // Single-chain friendly
     p30ChainExpansion, // Multi-chain deployment questions
+    p34RaisedBand, // Funding (needs disclosed raises)
+    p37McapTvlBucket, // Needs a token market cap
+    p40VolumeTrend30d, // DEXs: needs 60 days of volume
+    p38VolumeTvlRatio, // DEXs: volume vs TVL
+    p44StablePoolShare, // Yield pools: stablecoin vs volatile TVL
+    p42TopYieldPool, // Needs yield pools
   ],
 }
 
@@ -284,6 +396,8 @@ export const CHAIN_MATRIX: TemplateMatrix = {
     c10ProtocolCount,
     c11TopProtocolByTVL,
     c13LayerType, // Layer 1 vs Layer 2 identification (easy/educational)
+    c15DominantStablecoin, // Needs stablecoin data
+    c18BridgeNetFlow, // Needs bridge volume
   ],
   C: [
     c5TopProtocolByFees,
@@ -294,6 +408,10 @@ export const CHAIN_MATRIX: TemplateMatrix = {
     c11TopProtocolByTVL,
     c12CategoryDominance,
     c14TvlDominance, // TVL dominance by top protocol (medium)
+    c17StablecoinShare, // Stablecoin supply vs TVL
+    c16StablecoinSupplyTrend, // Stablecoin supply over 30 days
+    c19BusiestBridge, // Bridges connected to the chain
+    c18BridgeNetFlow, // Net bridge flows over 7d/30d
   ],
   D: [
     c3ChainATHTiming,
@@ -302,6 +420,8 @@ export const CHAIN_MATRIX: TemplateMatrix = {
     c11TopProtocolByTVL,
     c12CategoryDominance,
     c14TvlDominance, // TVL dominance by top protocol (hard)
+    c17StablecoinShare, // Stablecoin supply vs TVL
+    c19BusiestBridge, // Bridges connected to the chain
   ],
   E: [
     c6TopDEXByVolume,
@@ -312,6 +432,40 @@ export const CHAIN_MATRIX: TemplateMatrix = {
     c8_30DayDirection,
     c10ProtocolCount,
     c13LayerType, // Layer 1 vs Layer 2 identification (easy/educational)
+    c16StablecoinSupplyTrend, // Stablecoin supply over 30 days
+    c15DominantStablecoin, // Needs stablecoin data
+    c18BridgeNetFlow, // Needs bridge volume
+  ],
+}
+
+/**
+ * Category template matrix - maps slots to ordered list of templates to try
+ *
+ * Category episodes have fewer templates, so most appear in several slots.
+ */
+export const CATEGORY_MATRIX: TemplateMatrix = {
+  A: [cat1CategoryFingerprint],
+  B: [
+    cat2CategoryLeader,
+    cat4TopChain,
+    cat6TvlComparison, // Neighboring category by TVL
+  ],
+  C: [
+    cat3Concentration, // Market share of the largest protocols
+    cat5GrowthVsCategories,
+    cat4TopChain,
+    cat2CategoryLeader,
+  ],
+  D: [
+    cat5GrowthVsCategories, // Tight margins on weekly growth
+    cat3Concentration,
+    cat6TvlComparison,
+    cat2CategoryLeader,
+  ],
+  E: [
+    cat6TvlComparison,
+    cat4TopChain,
+    cat3Concentration,
   ],
 }
 
@@ -322,15 +476,21 @@ export const CHAIN_MATRIX: TemplateMatrix = {
 /**
  * Get the template matrix for a given episode type
  */
-export function getTemplateMatrix(episodeType: "protocol" | "chain"): TemplateMatrix {
+export function getTemplateMatrix(episodeType: EpisodeType): TemplateMatrix {
+  if (episodeType === "category") return CATEGORY_MATRIX
   return episodeType === "protocol" ? PROTOCOL_MATRIX : CHAIN_MATRIX
 }
 
 /**
  * Get all templates for a given episode type
  */
-export function getAllTemplates(episodeType: "protocol" | "chain"): Template[] {
-  const templates = episodeType === "protocol" ? PROTOCOL_TEMPLATES : CHAIN_TEMPLATES
+export function getAllTemplates(episodeType: EpisodeType): Template[] {
+  const templates =
+    episodeType === "protocol"
+      ? PROTOCOL_TEMPLATES
+      : episodeType === "chain"
+        ? CHAIN_TEMPLATES
+        : CATEGORY_TEMPLATES
   return Object.values(templates)
 }
 
@@ -338,5 +498,26 @@ export function getAllTemplates(episodeType: "protocol" | "chain"): Template[] {
  * Get a template by ID
  */
 export function getTemplateById(id: string): Template | undefined {
-  return PROTOCOL_TEMPLATES[id] ?? CHAIN_TEMPLATES[id]
+  return PROTOCOL_TEMPLATES[id] ?? CHAIN_TEMPLATES[id] ?? CATEGORY_TEMPLATES[id]
+}
+
+/**
+ * Put templates first in every slot after the hook (slot A)
+ * Used for special-event dates that force templates in the schedule config.
+ * Each template can still be used once per episode, so they spread over slots B-E.
+ */
+export function withPriorityTemplates(
+  matrix: TemplateMatrix,
+  templates: Template[]
+): TemplateMatrix {
+  if (templates.length === 0) return matrix
+
+  const prioritized: TemplateMatrix = {}
+  for (const [slot, slotTemplates] of Object.entries(matrix)) {
+    prioritized[slot] =
+      slot === "A"
+        ? slotTemplates
+        : [...templates, ...slotTemplates.filter((t) => !templates.includes(t))]
+  }
+  return prioritized
 }
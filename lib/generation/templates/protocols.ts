@@ -15,18 +15,25 @@ import {
   hasFeesData,
   hasMinProtocolHistory,
   hasProtocolList,
+  isLatestOnly,
+  hasRaisesData,
+  hasProtocolVolumeData,
+  hasYieldData,
   standardFormats,
 } from "./config"
 import {
   pickProtocolDistractors,
   formatNumber,
   makeTimingDistractors,
+  makeNumericChoices,
   getConcentrationBucketChoices,
   getConcentrationBucketIndex,
   getRevenueBucketChoices,
   getRevenueBucketIndex,
   getChangeBucketChoices,
   getChangeBucketIndex,
+  getApyBucketChoices,
+  getApyBucketIndex,
   type ProtocolEntity,
 } from "../distractors"
 import {
@@ -42,6 +49,8 @@ import {
 } from "../metrics"
 import { deterministicShuffle, createRng } from "../rng"
 import { filterToActualChains, sumActualChainTvl } from "../chain-filter"
+import { findAliasEntry, getProtocolAliases } from "../aliases"
+import { MIN_YIELD_POOL_TVL } from "../constants"
 
 // =============================================================================
 // P1: Protocol Fingerprint Guess
@@ -105,7 +114,9 @@ const P1_FINGERPRINT: TemplateConfig<P1Data> = {
   },
 
   getFormats(ctx) {
-    return ctx.topic.tvlRank > 50 ? ["mc4"] : ["mc6", "mc4"]
+    if (ctx.topic.tvlRank > 50) return ["mc4"]
+    // Write-in only for well-known protocols that players can name unaided
+    return ctx.topic.tvlRank <= 25 ? ["mc6", "mc4", "text"] : ["mc6", "mc4"]
   },
 
   extract(ctx, seed) {
@@ -202,7 +213,9 @@ const P1_FINGERPRINT: TemplateConfig<P1Data> = {
 
     // Compute new clue data
     const launchYear = getLaunchYear(detail.tvl)
-    const categoryLeader = isCategoryLeader(detail.slug, detail.category, list)
+    // Snapshot TVL can't be ranked against latest peer TVLs
+    const categoryLeader =
+      !isLatestOnly(ctx, "protocolList") && isCategoryLeader(detail.slug, detail.category, list)
     const topChainShare = getTopChainShare(detail.currentChainTvls)
     // parentProtocol is not currently available in the API response
     const parentProtocol = undefined
@@ -274,7 +287,12 @@ const P1_FINGERPRINT: TemplateConfig<P1Data> = {
     }
 
     // If we have very few clues for familiar protocols, add TVL rank
-    if (clues.length <= 3 && !data.revealedTvlBand && !data.isCategoryLeader) {
+    if (
+      clues.length <= 3 &&
+      !data.revealedTvlBand &&
+      !data.isCategoryLeader &&
+      !isLatestOnly(ctx, "tvlRank")
+    ) {
       if (topic.tvlRank <= 10) {
         clues.push(`TVL rank: top 10`)
       } else if (topic.tvlRank <= 25) {
@@ -285,8 +303,10 @@ const P1_FINGERPRINT: TemplateConfig<P1Data> = {
     return clues
   },
 
-  getChoices(data, ctx, _format, seed) {
+  getChoices(data, ctx, format, seed) {
     const detail = ctx.data.protocolDetail!
+    // Write-in shows no choices; keep the answer so results can display it
+    if (format === "text") return [detail.name]
     const allChoices = [detail.name, ...data.distractors]
     
     // Safety net: remove any duplicates (case-insensitive) that might have slipped through
@@ -310,6 +330,14 @@ const P1_FINGERPRINT: TemplateConfig<P1Data> = {
     return choices.indexOf(detail.name)
   },
 
+  getAcceptedAnswers(_data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    const topic = ctx.topic as ProtocolPoolEntry
+    const entry = findAliasEntry(ctx.data.aliases, "protocol", topic.slug)
+    const aliases = entry?.aliases ?? getProtocolAliases(topic)
+    return [detail.name, ...aliases.filter((a) => a !== detail.name)]
+  },
+
   getMargin() {
     return null // No numeric margin for fingerprint
   },
@@ -469,6 +497,7 @@ const P3_CONCENTRATION: TemplateConfig<P3Data> = {
   // Note: For single-chain protocols, this would reveal chain identity (conflicts with P8),
   // but we skip single-chain protocols in checkPrereqs since the question would be trivial.
   semanticTopics: ["tvl_concentration"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -546,6 +575,7 @@ interface P4Data {
   athMonth: string
   athYYYYMM: string
   historyStartYYYYMM: string
+  historyEndYYYYMM: string
   distractorMonths: string[]
 }
 
@@ -586,13 +616,22 @@ const P4_ATH_TIMING: TemplateConfig<P4Data> = {
       const startTs = firstDataPoint.date
       historyStartYYYYMM = formatYYYYMM(startTs)
     } else {
-      // Fallback: use 2 years ago
-      const twoYearsAgo = Date.now() / 1000 - 365 * 2 * 86400
+      // Fallback: use 2 years before the episode date
+      const twoYearsAgo = Date.parse(ctx.date) / 1000 - 365 * 2 * 86400
       historyStartYYYYMM = formatYYYYMM(twoYearsAgo)
     }
 
+    // End the range at the episode month (not today) so past dates stay reproducible
+    const historyEndYYYYMM = ctx.date.slice(0, 7)
+
     // Generate distractor months from full history (5 distractors for mc6)
-    const timing = makeTimingDistractors(athYYYYMM, 5, seed, historyStartYYYYMM)
+    const timing = makeTimingDistractors(
+      athYYYYMM,
+      5,
+      seed,
+      historyStartYYYYMM,
+      historyEndYYYYMM
+    )
 
     return {
       athValue,
@@ -600,6 +639,7 @@ const P4_ATH_TIMING: TemplateConfig<P4Data> = {
       athMonth,
       athYYYYMM,
       historyStartYYYYMM,
+      historyEndYYYYMM,
       distractorMonths: timing.distractorMonths,
     }
   },
@@ -612,7 +652,13 @@ const P4_ATH_TIMING: TemplateConfig<P4Data> = {
   getChoices(data, _ctx, format, seed) {
     // Use full history for distractors (harder question)
     const count = format === "mc6" ? 5 : 3
-    const timing = makeTimingDistractors(data.athYYYYMM, count, seed, data.historyStartYYYYMM)
+    const timing = makeTimingDistractors(
+      data.athYYYYMM,
+      count,
+      seed,
+      data.historyStartYYYYMM,
+      data.historyEndYYYYMM
+    )
     return timing.choices
   },
 
@@ -658,6 +704,7 @@ const P5_FEES_REVENUE: TemplateConfig<P5Data> = {
   description: "Compare a protocol's fees and revenue metrics",
   type: "protocol",
   semanticTopics: ["fees_metrics"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -767,6 +814,7 @@ const P6_TVL_TREND: TemplateConfig<P6Data> = {
   type: "protocol",
   // Use 30-day trend (not 7-day) for more stable/meaningful questions
   semanticTopics: ["tvl_trend_30d", "tvl_direction", "fingerprint_trend_revealed"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -956,6 +1004,8 @@ interface P8Data {
   presentChain: string
   absentChain: string | null
   distractorChains: string[]
+  /** Chain named in the TF statement (present or absent) */
+  tfChain: string
 }
 
 const P8_CHAIN_MEMBERSHIP: TemplateConfig<P8Data> = {
@@ -1012,6 +1062,11 @@ const P8_CHAIN_MEMBERSHIP: TemplateConfig<P8Data> = {
 
     const absentChain = absentChains.length > 0 ? absentChains[0] : null
 
+    // TF statement names the present or absent chain (seeded, so the prompt
+    // and answer agree and generation stays reproducible)
+    const rng = createRng(seed)
+    const tfChain = rng() > 0.5 || !absentChain ? presentChain : absentChain
+
     // For MC: distractors are all chains the protocol is NOT on (no ambiguity)
     const shuffled = deterministicShuffle(absentChains, `${seed}:distractors`)
     const distractorChains = shuffled.slice(0, 3)
@@ -1019,15 +1074,13 @@ const P8_CHAIN_MEMBERSHIP: TemplateConfig<P8Data> = {
     // Need at least 3 absent chains for MC format to work
     if (distractorChains.length < 3) return null
 
-    return { chains, presentChain, absentChain, distractorChains }
+    return { chains, presentChain, absentChain, distractorChains, tfChain }
   },
 
   getPrompt(data, ctx, format) {
     const detail = ctx.data.protocolDetail!
     if (format === "tf") {
-      const rng = createRng(Date.now())
-      const chain = rng() > 0.5 ? data.presentChain : data.absentChain
-      return `${detail.name} is deployed on ${chain ?? data.presentChain}.`
+      return `${detail.name} is deployed on ${data.tfChain}.`
     }
     return `Which of these chains is ${detail.name} deployed on?`
   },
@@ -1043,11 +1096,9 @@ const P8_CHAIN_MEMBERSHIP: TemplateConfig<P8Data> = {
     return shuffled.map((x) => x.c)
   },
 
-  getAnswerIndex(data, ctx, format, choices) {
+  getAnswerIndex(data, _ctx, format, choices) {
     if (format === "tf") {
-      const prompt = this.getPrompt(data, ctx, format)
-      const isAboutPresent = prompt.includes(data.presentChain)
-      return isAboutPresent ? 0 : 1
+      return data.tfChain === data.presentChain ? 0 : 1
     }
     return choices.indexOf(data.presentChain)
   },
@@ -1194,6 +1245,7 @@ const P10_TVL_BAND: TemplateConfig<P10Data> = {
   type: "protocol",
   // Share topic with fingerprint since fingerprint already reveals TVL band as a clue
   semanticTopics: ["tvl_magnitude", "fingerprint_tvl_revealed"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1379,7 +1431,7 @@ const P12_DEX_VOLUME_TREND: TemplateConfig<P12Data> = {
   name: "DEX Volume Trend",
   description: "Did a DEX's volume increase or decrease",
   type: "protocol",
-  semanticTopics: [],
+  semanticTopics: ["volume_trend"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1454,6 +1506,7 @@ const P13_TVL_RANK_COMPARISON: TemplateConfig<P13Data> = {
   type: "protocol",
   // Compares TVL between protocols, doesn't reveal absolute TVL band
   semanticTopics: ["tvl_comparison"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1547,6 +1600,7 @@ const P14_CATEGORY_LEADER: TemplateConfig<P14Data> = {
   type: "protocol",
   // Compares TVL within category, doesn't reveal absolute TVL band
   semanticTopics: ["tvl_comparison", "category_ranking"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1726,6 +1780,7 @@ const P16_CATEGORY_PEER: TemplateConfig<P16Data> = {
   type: "protocol",
   // Compares TVL within category, doesn't reveal absolute TVL band
   semanticTopics: ["tvl_comparison", "category_ranking"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1840,6 +1895,8 @@ const P17_CATEGORY_RANK: TemplateConfig<P17Data> = {
   type: "protocol",
   // Uses category_ranking - asks about relative position, not absolute TVL
   semanticTopics: ["category_ranking"],
+  peerMetrics: ["protocolList"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -1949,6 +2006,7 @@ const P18_PEER_COMPARISON: TemplateConfig<P18Data> = {
   type: "protocol",
   // Uses tvl_comparison - relative comparison, doesn't reveal absolute TVL
   semanticTopics: ["tvl_comparison"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2085,6 +2143,7 @@ const P20_ATH_DISTANCE: TemplateConfig<P20Data> = {
   description: "How far is the protocol from its all-time high TVL",
   type: "protocol",
   semanticTopics: ["ath_history", "tvl_magnitude"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2169,6 +2228,8 @@ const P22_CATEGORY_MARKET_SHARE: TemplateConfig<P22Data> = {
   type: "protocol",
   // Reveals market share percentage, doesn't reveal absolute TVL band
   semanticTopics: ["category_market_share", "category_ranking"],
+  peerMetrics: ["protocolList"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2250,6 +2311,7 @@ const P27_DERIVATIVES_RANKING: TemplateConfig<P27Data> = {
   type: "protocol",
   // Compares TVL between derivatives protocols
   semanticTopics: ["derivatives_ranking", "tvl_comparison"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2514,6 +2576,7 @@ const P30_CHAIN_EXPANSION: TemplateConfig<P30Data> = {
   description: "Questions about protocol multi-chain deployment growth",
   type: "protocol",
   semanticTopics: ["chain_expansion"],
+  peerMetrics: ["protocolList", "tvlRank"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2654,6 +2717,8 @@ const P31_PRECISE_RANK: TemplateConfig<P31Data> = {
   description: "What is the protocol's exact TVL rank range",
   type: "protocol",
   semanticTopics: ["tvl_rank_precise"],
+  peerMetrics: ["protocolList", "tvlRank"],
+  orderedChoiceFormats: ["mc4"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2746,6 +2811,7 @@ const P32_EXCHANGE_COMPARISON: TemplateConfig<P32Data> = {
   description: "Compare TVL between exchanges (CEX or DEX)",
   type: "protocol",
   semanticTopics: ["exchange_comparison"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2867,14 +2933,27 @@ interface P33Data {
   protocols: Array<{ name: string; tvl: number }>
   correctOrder: string[]
   category: string
+  /** The 3 protocols plus one more from the category, sorted by TVL (for rank4) */
+  rankProtocols: Array<{ name: string; tvl: number }> | null
+}
+
+/**
+ * Get same-category protocols with positive TVL, sorted by TVL descending
+ */
+function getP33CategoryProtocols(ctx: TemplateContext) {
+  const topic = ctx.topic as ProtocolPoolEntry
+  return ctx.data.protocolList!
+    .filter((p) => p.category === topic.category && p.tvl !== undefined && p.tvl > 0)
+    .sort((a, b) => (b.tvl ?? 0) - (a.tvl ?? 0))
 }
 
 const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
   id: "P33_MULTI_RANKING",
   name: "Multi-Protocol TVL Ranking",
-  description: "Rank 3 protocols by TVL from highest to lowest",
+  description: "Rank 3-4 protocols by TVL from highest to lowest",
   type: "protocol",
   semanticTopics: ["multi_protocol_ranking"],
+  peerMetrics: ["protocolList"],
 
   checkPrereqs(ctx) {
     if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
@@ -2891,19 +2970,19 @@ const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
     return { passed: true }
   },
 
-  getFormats() {
-    // Always mc4 - this is a ranking question which is harder
+  getFormats(ctx) {
+    // Ranking is always hard; rank4 needs a fourth protocol from the category
+    if (hasProtocolList(ctx) && getP33CategoryProtocols(ctx).length >= 4) {
+      return ["rank4", "mc4"]
+    }
     return ["mc4"]
   },
 
   extract(ctx, seed) {
     const topic = ctx.topic as ProtocolPoolEntry
-    const list = ctx.data.protocolList!
     const topicTvl = ctx.derived.currentTvl ?? 0
 
-    const sameCategory = list
-      .filter((p) => p.category === topic.category && p.tvl !== undefined && p.tvl > 0)
-      .sort((a, b) => (b.tvl ?? 0) - (a.tvl ?? 0))
+    const sameCategory = getP33CategoryProtocols(ctx)
 
     if (sameCategory.length < 3) return null
 
@@ -2934,17 +3013,33 @@ const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
     if (selected.length < 3) return null
 
     // Sort by TVL for correct order
-    const protocols = selected.sort((a, b) => b.tvl - a.tvl)
+    const protocols = [...selected].sort((a, b) => b.tvl - a.tvl)
     const correctOrder = protocols.map((p) => p.name)
 
-    return { protocols, correctOrder, category: topic.category }
+    // Pick a fourth protocol for the rank4 variant
+    const extras = others.filter((p) => !selected.some((s) => s.name === p.name))
+    const extra = extras.length > 0 ? extras[Math.floor(rng() * Math.min(5, extras.length))] : null
+    const rankProtocols = extra
+      ? [...protocols, { name: extra.name, tvl: extra.tvl ?? 0 }].sort((a, b) => b.tvl - a.tvl)
+      : null
+
+    return { protocols, correctOrder, category: topic.category, rankProtocols }
   },
 
   getPrompt(data) {
     return `Rank these ${data.category} protocols from highest to lowest TVL.`
   },
 
-  getChoices(data, _ctx, _format, seed) {
+  getChoices(data, _ctx, format, seed) {
+    if (format === "rank4") {
+      // Present the items in a shuffled starting order
+      return deterministicShuffle(
+        (data.rankProtocols ?? []).map((p) => p.name),
+        `${seed}:rank`
+      )
+    }
+
+
     // Generate 4 permutations as choices, one of which is correct
     const [a, b, c] = data.protocols.map((p) => p.name)
     const allOrders = [
@@ -2971,7 +3066,19 @@ const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
     return choices.indexOf(correctAnswer)
   },
 
-  getMargin(data) {
+  getAnswerOrder(data) {
+    return data.rankProtocols?.map((p) => p.name) ?? []
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "rank4" && data.rankProtocols) {
+      // Tightest gap between adjacent positions
+      const margins = data.rankProtocols
+        .slice(1)
+        .map((p, i) => abMargin(data.rankProtocols![i].tvl, p.tvl) ?? 0)
+      return Math.min(...margins)
+    }
+
     // Margin based on TVL differences between protocols
     const [first, second, third] = data.protocols
     const margin1 = abMargin(first.tvl, second.tvl) ?? 0
@@ -2980,11 +3087,12 @@ const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
     return Math.min(margin1, margin2)
   },
 
-  getExplainData(data) {
+  getExplainData(data, _ctx, format) {
+    const ranked = format === "rank4" && data.rankProtocols ? data.rankProtocols : data.protocols
     return {
       category: data.category,
-      correctOrder: data.correctOrder,
-      protocols: data.protocols.map((p) => ({
+      correctOrder: ranked.map((p) => p.name),
+      protocols: ranked.map((p) => ({
         name: p.name,
         tvl: formatNumber(p.tvl),
       })),
@@ -2992,6 +3100,1080 @@ const P33_MULTI_RANKING: TemplateConfig<P33Data> = {
   },
 }
 
+// =============================================================================
+// P34: Total Raised Band
+// =============================================================================
+
+interface P34Data {
+  totalRaised: number
+  raiseCount: number
+  bucketIndex: number
+  threshold: number
+}
+
+const RAISED_BUCKETS = ["<$10M", "$10M-$50M", "$50M-$200M", ">$200M"]
+const RAISED_BOUNDARIES = [10_000_000, 50_000_000, 200_000_000]
+
+function getRaisedBucketIndex(totalRaised: number): number {
+  const index = RAISED_BOUNDARIES.findIndex((b) => totalRaised < b)
+  return index === -1 ? RAISED_BOUNDARIES.length : index
+}
+
+const P34_RAISED_BAND: TemplateConfig<P34Data> = {
+  id: "P34_RAISED_BAND",
+  name: "Total Raised Band",
+  description: "How much disclosed funding a protocol has raised",
+  type: "protocol",
+  semanticTopics: ["funding_total"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasRaisesData(ctx)) return { passed: false, reason: "no_raises" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const totalRaised = ctx.derived.totalRaised!
+    const raiseCount = ctx.derived.raiseCount ?? 1
+    const bucketIndex = getRaisedBucketIndex(totalRaised)
+
+    // TF asks about the closest band boundary
+    const threshold = [...RAISED_BOUNDARIES].sort(
+      (a, b) => Math.abs(Math.log(totalRaised / a)) - Math.abs(Math.log(totalRaised / b))
+    )[0]
+
+    return { totalRaised, raiseCount, bucketIndex, threshold }
+  },
+
+  getPrompt(data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `${detail.name} has raised more than ${formatNumber(data.threshold)} across its disclosed funding rounds.`
+    }
+    return `How much has ${detail.name} raised across its disclosed funding rounds?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return RAISED_BUCKETS
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.totalRaised > data.threshold ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.totalRaised > data.threshold
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.totalRaised, data.threshold)
+    // Distance to bucket boundaries
+    const minDist = Math.min(
+      ...RAISED_BOUNDARIES.map((b) => Math.abs(data.totalRaised - b) / Math.max(data.totalRaised, b))
+    )
+    return Math.min(1, minDist * 2)
+  },
+
+  getExplainData(data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      totalRaised: formatNumber(data.totalRaised),
+      rounds: `${data.raiseCount} disclosed funding round${data.raiseCount === 1 ? "" : "s"}`,
+      raisedBand: RAISED_BUCKETS[data.bucketIndex],
+      ...(format === "tf" ? { threshold: formatNumber(data.threshold) } : {}),
+    }
+  },
+}
+
+// =============================================================================
+// P35: Largest Funding Round Timing
+// =============================================================================
+
+interface P35Data {
+  amount: number
+  round: string | undefined
+  raiseCount: number
+  raiseMonth: string
+  raiseYYYYMM: string
+  historyStartYYYYMM: string
+  historyEndYYYYMM: string
+  distractorMonths: string[]
+}
+
+const P35_LARGEST_ROUND_TIMING: TemplateConfig<P35Data> = {
+  id: "P35_LARGEST_ROUND_TIMING",
+  name: "Largest Round Timing",
+  description: "When a protocol closed its largest funding round",
+  type: "protocol",
+  semanticTopics: ["funding_timing"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasRaisesData(ctx)) return { passed: false, reason: "no_raises" }
+    const raiseDate = ctx.derived.largestRaiseDate
+    if (!raiseDate || Number.isNaN(Date.parse(raiseDate))) {
+      return { passed: false, reason: "no_raise_date" }
+    }
+    return { passed: true }
+  },
+
+  getFormats() {
+    // Timing questions are hard-only, like ATH timing
+    return ["mc6", "mc4"]
+  },
+
+  extract(ctx, seed) {
+    const raiseTs = Date.parse(ctx.derived.largestRaiseDate!) / 1000
+    const raiseYYYYMM = formatYYYYMM(raiseTs)
+
+    // Distractors span a year before the earliest round or TVL point up to the episode month
+    const raiseTimestamps = (ctx.data.protocolDetail?.raises ?? [])
+      .map((r) => Date.parse(r.date) / 1000)
+      .filter((ts) => !Number.isNaN(ts))
+    const firstTvlTs = ctx.data.protocolDetail?.tvl?.[0]?.date ?? raiseTs
+    const startTs = Math.min(firstTvlTs, raiseTs, ...raiseTimestamps) - 365 * 86400
+    const historyStartYYYYMM = formatYYYYMM(startTs)
+    const historyEndYYYYMM = ctx.date.slice(0, 7)
+
+    // A round dated after the episode month can't be placed in the range
+    if (raiseYYYYMM > historyEndYYYYMM) return null
+
+    const timing = makeTimingDistractors(
+      raiseYYYYMM,
+      5,
+      seed,
+      historyStartYYYYMM,
+      historyEndYYYYMM
+    )
+    if (timing.distractorMonths.length < 5) return null
+
+    return {
+      amount: ctx.derived.largestRaiseAmount!,
+      round: ctx.derived.largestRaiseRound,
+      raiseCount: ctx.derived.raiseCount ?? 1,
+      raiseMonth: formatMonth(raiseTs),
+      raiseYYYYMM,
+      historyStartYYYYMM,
+      historyEndYYYYMM,
+      distractorMonths: timing.distractorMonths,
+    }
+  },
+
+  getPrompt(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    if (data.raiseCount === 1) {
+      return `In what month did ${detail.name} close its disclosed funding round?`
+    }
+    return `In what month did ${detail.name} close its largest disclosed funding round?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "mc6" ? 5 : 3
+    const timing = makeTimingDistractors(
+      data.raiseYYYYMM,
+      count,
+      seed,
+      data.historyStartYYYYMM,
+      data.historyEndYYYYMM
+    )
+    return timing.choices
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.raiseMonth)
+  },
+
+  getMargin() {
+    // Distractors come from the protocol's whole lifetime, so this stays hard
+    return 0.25
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      amount: formatNumber(data.amount),
+      round: data.round ?? "round",
+      raiseMonth: data.raiseMonth,
+      raiseCount: data.raiseCount,
+      distractorMonths: data.distractorMonths,
+      comparison: `The correct answer is ${data.raiseMonth}. The other choices (${data.distractorMonths.join(", ")}) were not when ${detail.name} closed its largest round.`,
+    }
+  },
+}
+
+// =============================================================================
+// P36: TVL vs Funding Raised
+// =============================================================================
+// Peers only supply distractor TVLs. A raised-vs-TVL comparison against peers
+// would need every peer's raises, which only come from per-protocol detail
+// calls (or the separate /raises endpoint), so it isn't built.
+
+interface P36Data {
+  totalRaised: number
+  tvl: number
+  tvlMultiple: number
+  /** MC4 choices (empty when there aren't enough peers) */
+  choices: string[]
+  /** Peers whose TVLs appear among the MC4 choices */
+  shownPeers: Array<{ name: string; tvl: number }>
+}
+
+/**
+ * Category and nearby peers whose TVL is distinct enough from the topic's
+ * to serve as numeric distractors (same 12% separation as makeNumericChoices)
+ */
+function getP36Peers(ctx: TemplateContext): Array<{ name: string; tvl: number }> {
+  const topicTvl = ctx.derived.currentTvl ?? 0
+  const seen = new Set<string>([formatNumber(topicTvl)])
+  return [...(ctx.derived.categoryProtocols ?? []), ...(ctx.derived.nearbyProtocols ?? [])]
+    .filter((p) => {
+      const label = formatNumber(p.tvl)
+      if (p.tvl <= 0 || seen.has(label)) return false
+      if ((abMargin(p.tvl, topicTvl) ?? 0) < 0.12) return false
+      seen.add(label)
+      return true
+    })
+    .map((p) => ({ name: p.name, tvl: p.tvl }))
+}
+
+const P36_TVL_VS_RAISED: TemplateConfig<P36Data> = {
+  id: "P36_TVL_VS_RAISED",
+  name: "TVL vs Funding Raised",
+  description: "How much TVL a protocol holds relative to its own disclosed funding",
+  type: "protocol",
+  semanticTopics: ["funding_total", "tvl_magnitude"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasRaisesData(ctx)) return { passed: false, reason: "no_raises" }
+    if (!ctx.derived.currentTvl) return { passed: false, reason: "no_tvl" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    // MC4 distractors are peer TVLs, so it needs enough peers, and peers
+    // only have latest TVLs (can't sit next to a snapshot TVL)
+    if (!isLatestOnly(ctx, "protocolList") && getP36Peers(ctx).length >= 3) {
+      return ["mc4", "tf"]
+    }
+    return ["tf"]
+  },
+
+  extract(ctx, seed) {
+    const totalRaised = ctx.derived.totalRaised!
+    const tvl = ctx.derived.currentTvl!
+    const peers = isLatestOnly(ctx, "protocolList") ? [] : getP36Peers(ctx)
+
+    // Pick the distractors here so the margin covers only the peers shown
+    const choices = makeNumericChoices(tvl, peers.map((p) => p.tvl), "mc4", seed)?.choices ?? []
+    const shownPeers = peers.filter((p) => choices.includes(formatNumber(p.tvl)))
+
+    return { totalRaised, tvl, tvlMultiple: tvl / totalRaised, choices, shownPeers }
+  },
+
+  getPrompt(data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `${detail.name} holds more TVL than the ${formatNumber(data.totalRaised)} it has raised in disclosed funding.`
+    }
+    return `${detail.name} has raised ${formatNumber(data.totalRaised)} in disclosed funding. Roughly how much TVL does it hold?`
+  },
+
+  getChoices(data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return data.choices
+  },
+
+  getAnswerIndex(data, _ctx, format, choices) {
+    if (format === "tf") return data.tvl > data.totalRaised ? 0 : 1
+    return choices.indexOf(formatNumber(data.tvl))
+  },
+
+  getAnswerValue(data) {
+    return data.tvl > data.totalRaised
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.tvl, data.totalRaised)
+    // Closest peer TVL among the distractors shown
+    return Math.min(...data.shownPeers.map((p) => abMargin(p.tvl, data.tvl) ?? 1))
+  },
+
+  getExplainData(data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    const multiple =
+      data.tvlMultiple >= 10
+        ? `${Math.round(data.tvlMultiple)}x`
+        : `${data.tvlMultiple.toFixed(1)}x`
+    return {
+      name: detail.name,
+      tvl: formatNumber(data.tvl),
+      totalRaised: formatNumber(data.totalRaised),
+      tvlMultiple: multiple,
+      // Peer TVLs were the other choices
+      ...(format === "mc4"
+        ? {
+            otherChoices: data.shownPeers
+              .map((p) => `${p.name} (${formatNumber(p.tvl)})`)
+              .join(", "),
+          }
+        : {}),
+    }
+  },
+}
+
+// =============================================================================
+// P37: Market Cap to TVL Bucket
+// =============================================================================
+
+interface P37Data {
+  mcap: number
+  tvl: number
+  ratio: number
+  bucketIndex: number
+}
+
+const MCAP_TVL_BUCKETS = ["<0.5x", "0.5x-1x", "1x-3x", ">3x"]
+const MCAP_TVL_BOUNDARIES = [0.5, 1, 3]
+
+function getMcapTvlBucketIndex(ratio: number): number {
+  const index = MCAP_TVL_BOUNDARIES.findIndex((b) => ratio < b)
+  return index === -1 ? MCAP_TVL_BOUNDARIES.length : index
+}
+
+const P37_MCAP_TVL_BUCKET: TemplateConfig<P37Data> = {
+  id: "P37_MCAP_TVL_BUCKET",
+  name: "Market Cap to TVL",
+  description: "How a protocol's market cap compares to its TVL",
+  type: "protocol",
+  semanticTopics: ["mcap_tvl_ratio"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!ctx.derived.mcapToTvl) return { passed: false, reason: "no_mcap" }
+    // Market cap is only served as a latest value; don't divide it by a snapshot TVL
+    if (isLatestOnly(ctx, "mcap")) return { passed: false, reason: "snapshot_latest_mcap" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const mcap = ctx.data.protocolDetail!.mcap!
+    const tvl = ctx.derived.currentTvl!
+    const ratio = ctx.derived.mcapToTvl!
+    return { mcap, tvl, ratio, bucketIndex: getMcapTvlBucketIndex(ratio) }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `${detail.name}'s token market cap is higher than its TVL.`
+    }
+    return `What is ${detail.name}'s market cap divided by its TVL?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return MCAP_TVL_BUCKETS
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.ratio > 1 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.ratio > 1
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.mcap, data.tvl)
+    // Distance to bucket boundaries
+    const minDist = Math.min(
+      ...MCAP_TVL_BOUNDARIES.map((b) => Math.abs(data.ratio - b) / Math.max(data.ratio, b))
+    )
+    return Math.min(1, minDist * 2)
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      mcap: formatNumber(data.mcap),
+      tvl: formatNumber(data.tvl),
+      ratio: `${data.ratio.toFixed(2)}x`,
+      bucket: MCAP_TVL_BUCKETS[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// P38: Volume to TVL (capital efficiency)
+// =============================================================================
+
+interface P38Data {
+  volume7d: number
+  tvl: number
+  ratio: number
+  bucketIndex: number
+}
+
+const VOLUME_TVL_BUCKETS = ["<1x", "1x-3x", "3x-10x", ">10x"]
+const VOLUME_TVL_BOUNDARIES = [1, 3, 10]
+
+function getVolumeTvlBucketIndex(ratio: number): number {
+  const index = VOLUME_TVL_BOUNDARIES.findIndex((b) => ratio < b)
+  return index === -1 ? VOLUME_TVL_BOUNDARIES.length : index
+}
+
+const P38_VOLUME_TVL_RATIO: TemplateConfig<P38Data> = {
+  id: "P38_VOLUME_TVL_RATIO",
+  name: "Volume to TVL",
+  description: "How much weekly DEX volume a protocol turns over relative to its TVL",
+  type: "protocol",
+  semanticTopics: ["dex_volume_efficiency"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasProtocolVolumeData(ctx)) return { passed: false, reason: "no_volume" }
+    if (!ctx.derived.volumeToTvl) return { passed: false, reason: "no_tvl" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const ratio = ctx.derived.volumeToTvl!
+    return {
+      volume7d: ctx.derived.volume7d!,
+      tvl: ctx.derived.currentTvl!,
+      ratio,
+      bucketIndex: getVolumeTvlBucketIndex(ratio),
+    }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `${detail.name}'s trading volume over the past 7 days was larger than its entire TVL.`
+    }
+    return `How does ${detail.name}'s 7-day trading volume compare to its TVL?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return VOLUME_TVL_BUCKETS
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.ratio > 1 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.ratio > 1
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.volume7d, data.tvl)
+    // Distance to bucket boundaries
+    const minDist = Math.min(
+      ...VOLUME_TVL_BOUNDARIES.map((b) => Math.abs(data.ratio - b) / Math.max(data.ratio, b))
+    )
+    return Math.min(1, minDist * 2)
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      volume7d: formatNumber(data.volume7d),
+      tvl: formatNumber(data.tvl),
+      ratio: `${data.ratio.toFixed(1)}x`,
+      bucket: VOLUME_TVL_BUCKETS[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// P39: Top Chain by Volume
+// =============================================================================
+
+interface P39Data {
+  topChain: string
+  topShare: number
+  chains: Array<{ name: string; volume: number }>
+}
+
+/**
+ * Chains ranked by 24h volume, named as in the protocol's chain list
+ * (volume breakdowns use lowercase chain keys)
+ */
+function getVolumeChains(ctx: TemplateContext): Array<{ name: string; volume: number }> {
+  const breakdown = ctx.data.protocolDexVolume?.chainBreakdown ?? {}
+  const names = new Map(
+    (ctx.data.protocolDetail?.chains ?? []).map((chain) => [chain.toLowerCase(), chain])
+  )
+  return Object.entries(breakdown)
+    .map(([key, value]) => ({
+      name: names.get(key.toLowerCase()) ?? key.charAt(0).toUpperCase() + key.slice(1),
+      volume: value.total24h ?? 0,
+    }))
+    .filter((c) => c.volume > 0)
+    .sort((a, b) => b.volume - a.volume)
+}
+
+const P39_TOP_VOLUME_CHAIN: TemplateConfig<P39Data> = {
+  id: "P39_TOP_VOLUME_CHAIN",
+  name: "Top Chain by Volume",
+  description: "Which chain generates the most trading volume for a DEX",
+  type: "protocol",
+  semanticTopics: ["dex_volume_chain"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (getVolumeChains(ctx).length < 2) return { passed: false, reason: "need_2_volume_chains" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    const count = getVolumeChains(ctx).length
+    if (count >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    const chains = getVolumeChains(ctx)
+    const total = chains.reduce((sum, c) => sum + c.volume, 0)
+    return {
+      topChain: chains[0].name,
+      topShare: total > 0 ? chains[0].volume / total : 0,
+      chains: chains.slice(0, 4),
+    }
+  },
+
+  getPrompt(_data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return `On which chain did ${detail.name} see the most trading volume in the last 24 hours?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.chains.slice(0, count).map((c) => c.name),
+      `${seed}:volume-chains`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.topChain)
+  },
+
+  getMargin(data) {
+    // Gap between the top two chains
+    return abMargin(data.chains[0].volume, data.chains[1].volume)
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      topChain: data.topChain,
+      topVolume: formatNumber(data.chains[0].volume),
+      sharePercent: Math.round(data.topShare * 100),
+      comparison: data.chains
+        .slice(1)
+        .map((c) => `${c.name} (${formatNumber(c.volume)})`)
+        .join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// P40: 30-Day Volume Trend
+// =============================================================================
+
+interface P40Data {
+  change: number
+  bucketIndex: number
+}
+
+const P40_VOLUME_TREND_30D: TemplateConfig<P40Data> = {
+  id: "P40_VOLUME_TREND_30D",
+  name: "30-Day Volume Trend",
+  description: "How a DEX's last 30 days of volume compare to the 30 days before",
+  type: "protocol",
+  semanticTopics: ["volume_trend"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (ctx.derived.volumeChange30d === undefined) {
+      return { passed: false, reason: "need_60d_volume" }
+    }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const change = ctx.derived.volumeChange30d!
+    return { change, bucketIndex: getChangeBucketIndex(change) }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `${detail.name}'s trading volume over the past 30 days was higher than in the 30 days before.`
+    }
+    return `How did ${detail.name}'s trading volume over the past 30 days compare to the 30 days before?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return getChangeBucketChoices()
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.change > 0 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.change > 0
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return Math.abs(data.change)
+    // Distance to bucket boundaries
+    const boundaries = [-0.1, -0.01, 0.01, 0.1]
+    const minDist = Math.min(...boundaries.map((b) => Math.abs(data.change - b)))
+    return Math.min(1, minDist * 4)
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    const volume = ctx.data.protocolDexVolume!
+    const chart = volume.totalDataChart ?? []
+    const recent = chart.slice(-30).reduce((sum, [, val]) => sum + val, 0)
+    const previous = chart.slice(-60, -30).reduce((sum, [, val]) => sum + val, 0)
+    return {
+      name: detail.name,
+      trendDirection: data.change >= 0 ? "increased" : "decreased",
+      changePercent: Math.abs(data.change * 100).toFixed(1),
+      recentVolume: formatNumber(recent),
+      pastVolume: formatNumber(previous),
+      bucket: getChangeBucketChoices()[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// P41: DEX Volume Rank
+// =============================================================================
+
+interface P41Data {
+  rank: number
+  volume7d: number
+  bucketIndex: number
+  compareDex: { name: string; volume7d: number } | null
+  topicHigher: boolean
+}
+
+const DEX_RANK_BUCKETS = ["Top 3", "#4-10", "#11-25", "Outside top 25"]
+
+function getDexRankBucketIndex(rank: number): number {
+  if (rank <= 3) return 0
+  if (rank <= 10) return 1
+  if (rank <= 25) return 2
+  return 3
+}
+
+/**
+ * DEXs with 7d volume from the overview, sorted by it (the order dexVolumeRank uses)
+ */
+function getRankedDexes(ctx: TemplateContext) {
+  return (ctx.data.dexOverview?.protocols ?? [])
+    .filter((p) => (p.total7d ?? 0) > 0)
+    .sort((a, b) => (b.total7d ?? 0) - (a.total7d ?? 0))
+}
+
+/**
+ * Pick a DEX ranked within 5 places of the topic by 7d volume
+ */
+function pickNearbyDex(
+  ctx: TemplateContext,
+  rank: number,
+  seed: number
+): { name: string; volume7d: number } | null {
+  const ranked = getRankedDexes(ctx)
+  const nearby = ranked.filter((_, idx) => idx + 1 !== rank && Math.abs(idx + 1 - rank) <= 5)
+  if (nearby.length === 0) return null
+  const pick = nearby[Math.floor(createRng(seed)() * nearby.length)]
+  return { name: pick.displayName ?? pick.name, volume7d: pick.total7d ?? 0 }
+}
+
+const P41_DEX_VOLUME_RANK: TemplateConfig<P41Data> = {
+  id: "P41_DEX_VOLUME_RANK",
+  name: "DEX Volume Rank",
+  description: "Where a DEX ranks among all DEXs by 7-day trading volume",
+  type: "protocol",
+  semanticTopics: ["dex_volume_rank"],
+  peerMetrics: ["dexVolumeRank"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!ctx.derived.dexVolumeRank) return { passed: false, reason: "no_dex_rank" }
+    if (!hasProtocolVolumeData(ctx)) return { passed: false, reason: "no_volume" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    if (getRankedDexes(ctx).length >= 2) return ["mc4", "ab"]
+    return ["mc4"]
+  },
+
+  extract(ctx, seed) {
+    const rank = ctx.derived.dexVolumeRank!
+    // Use the overview's 7d total (what the rank is based on) rather than the
+    // daily chart sum, so both sides of the comparison share a source and window
+    const volume7d = getRankedDexes(ctx)[rank - 1]?.total7d
+    if (!volume7d) return null
+    const compareDex = pickNearbyDex(ctx, rank, seed)
+    return {
+      rank,
+      volume7d,
+      bucketIndex: getDexRankBucketIndex(rank),
+      compareDex,
+      topicHigher: compareDex ? volume7d >= compareDex.volume7d : true,
+    }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "ab") {
+      return "Which DEX had more trading volume over the past 7 days?"
+    }
+    return `Where does ${detail.name} rank among all DEXs by 7-day trading volume?`
+  },
+
+  getChoices(data, ctx, format, seed) {
+    if (format === "ab") {
+      const detail = ctx.data.protocolDetail!
+      if (!data.compareDex) return []
+      const rng = createRng(seed)
+      return rng() > 0.5
+        ? [data.compareDex.name, detail.name]
+        : [detail.name, data.compareDex.name]
+    }
+    return DEX_RANK_BUCKETS
+  },
+
+  getAnswerIndex(data, ctx, format, choices) {
+    if (format === "ab") {
+      const detail = ctx.data.protocolDetail!
+      const winner = data.topicHigher ? detail.name : data.compareDex?.name
+      return winner ? choices.indexOf(winner) : -1
+    }
+    return data.bucketIndex
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "ab") {
+      return data.compareDex ? abMargin(data.volume7d, data.compareDex.volume7d) : null
+    }
+    // Distance to the nearest bucket boundary, in rank positions
+    const boundaries = [3.5, 10.5, 25.5]
+    const minDist = Math.min(...boundaries.map((b) => Math.abs(data.rank - b)))
+    return Math.min(1, minDist / 10)
+  },
+
+  getExplainData(data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      rank: data.rank,
+      volume7d: formatNumber(data.volume7d),
+      rankBucket: DEX_RANK_BUCKETS[data.bucketIndex],
+      comparison:
+        format === "ab" && data.compareDex
+          ? ` ${data.compareDex.name} did ${formatNumber(data.compareDex.volume7d)}.`
+          : "",
+    }
+  },
+}
+
+// =============================================================================
+// P42: Top Yield Pool
+// =============================================================================
+
+interface P42Data {
+  pools: Array<{ symbol: string; chain: string; tvl: number }>
+}
+
+/**
+ * The protocol's yield pools by TVL, one per symbol (largest kept)
+ */
+function getTopYieldPools(
+  ctx: TemplateContext
+): Array<{ symbol: string; chain: string; tvl: number }> {
+  const seen = new Set<string>()
+  return (ctx.data.yieldPools ?? [])
+    .filter((p) => p.tvlUsd >= MIN_YIELD_POOL_TVL)
+    .sort((a, b) => b.tvlUsd - a.tvlUsd)
+    .filter((p) => {
+      if (seen.has(p.symbol)) return false
+      seen.add(p.symbol)
+      return true
+    })
+    .map((p) => ({ symbol: p.symbol, chain: p.chain, tvl: p.tvlUsd }))
+}
+
+const P42_TOP_YIELD_POOL: TemplateConfig<P42Data> = {
+  id: "P42_TOP_YIELD_POOL",
+  name: "Top Yield Pool",
+  description: "Which of a protocol's yield pools holds the most TVL",
+  type: "protocol",
+  semanticTopics: ["yield_pools"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (getTopYieldPools(ctx).length < 2) return { passed: false, reason: "need_2_yield_pools" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    if (getTopYieldPools(ctx).length >= 4) return ["mc4", "ab"]
+    return ["ab"]
+  },
+
+  extract(ctx) {
+    return { pools: getTopYieldPools(ctx).slice(0, 4) }
+  },
+
+  getPrompt(_data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return `Which of ${detail.name}'s yield pools holds the most TVL?`
+  },
+
+  getChoices(data, _ctx, format, seed) {
+    const count = format === "ab" ? 2 : 4
+    return deterministicShuffle(
+      data.pools.slice(0, count).map((p) => p.symbol),
+      `${seed}:yield-pools`
+    )
+  },
+
+  getAnswerIndex(data, _ctx, _format, choices) {
+    return choices.indexOf(data.pools[0].symbol)
+  },
+
+  getMargin(data) {
+    // Gap between the top two pools
+    return abMargin(data.pools[0].tvl, data.pools[1].tvl)
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    const top = data.pools[0]
+    return {
+      name: detail.name,
+      topPool: top.symbol,
+      topPoolChain: top.chain,
+      topPoolTvl: formatNumber(top.tvl),
+      comparison: data.pools
+        .slice(1)
+        .map((p) => `${p.symbol} (${formatNumber(p.tvl)})`)
+        .join(", "),
+    }
+  },
+}
+
+// =============================================================================
+// P43: Median APY Band
+// =============================================================================
+
+interface P43Data {
+  medianApy: number
+  poolCount: number
+  bucketIndex: number
+}
+
+/** APYs move daily with rates and emissions */
+const APY_VOLATILITY = 0.9
+
+const P43_MEDIAN_APY_BAND: TemplateConfig<P43Data> = {
+  id: "P43_MEDIAN_APY_BAND",
+  name: "Median APY Band",
+  description: "What APY a protocol's typical yield pool pays",
+  type: "protocol",
+  semanticTopics: ["yield_apy"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasYieldData(ctx, 3)) return { passed: false, reason: "need_3_yield_pools" }
+    if (ctx.derived.medianApy === undefined) return { passed: false, reason: "no_apy" }
+    return { passed: true }
+  },
+
+  getFormats() {
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const medianApy = ctx.derived.medianApy!
+    return {
+      medianApy,
+      poolCount: ctx.derived.yieldPoolCount!,
+      bucketIndex: getApyBucketIndex(medianApy),
+    }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `The median APY across ${detail.name}'s yield pools is above 5%.`
+    }
+    return `What is the median APY across ${detail.name}'s yield pools?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return getApyBucketChoices()
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.medianApy > 5 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.medianApy > 5
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return abMargin(data.medianApy, 5)
+    // Distance to bucket boundaries
+    const boundaries = [2, 5, 10]
+    const minDist = Math.min(
+      ...boundaries.map((b) => Math.abs(data.medianApy - b) / Math.max(data.medianApy, b))
+    )
+    return Math.min(1, minDist * 2)
+  },
+
+  getVolatility(_data, _ctx, format) {
+    // Bucketed answers survive small rate moves
+    return format === "mc4" ? 0.3 : APY_VOLATILITY
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      medianApy: `${data.medianApy.toFixed(1)}%`,
+      poolCount: data.poolCount,
+      bucket: getApyBucketChoices()[data.bucketIndex],
+    }
+  },
+}
+
+// =============================================================================
+// P44: Stablecoin Pool Share
+// =============================================================================
+
+interface P44Data {
+  share: number
+  bucketIndex: number
+}
+
+const P44_STABLE_POOL_SHARE: TemplateConfig<P44Data> = {
+  id: "P44_STABLE_POOL_SHARE",
+  name: "Stablecoin Pool Share",
+  description: "How much of a protocol's yield pool TVL sits in stablecoin-only pools",
+  type: "protocol",
+  semanticTopics: ["yield_stable_share"],
+  orderedChoiceFormats: ["mc4"],
+
+  checkPrereqs(ctx) {
+    if (!isProtocolContext(ctx)) return { passed: false, reason: "not_protocol" }
+    if (!hasYieldData(ctx, 2)) return { passed: false, reason: "need_2_yield_pools" }
+    if (ctx.derived.stablePoolShare === undefined) return { passed: false, reason: "no_share" }
+    return { passed: true }
+  },
+
+  getFormats(ctx) {
+    // Near an even split, the TF is a coin flip
+    const share = ctx.derived.stablePoolShare ?? 0
+    if (Math.abs(share - 0.5) < 0.05) return ["mc4"]
+    return ["mc4", "tf"]
+  },
+
+  extract(ctx) {
+    const share = ctx.derived.stablePoolShare!
+    return { share, bucketIndex: getConcentrationBucketIndex(share) }
+  },
+
+  getPrompt(_data, ctx, format) {
+    const detail = ctx.data.protocolDetail!
+    if (format === "tf") {
+      return `Most of the TVL in ${detail.name}'s yield pools is in stablecoin-only pools.`
+    }
+    return `What share of the TVL in ${detail.name}'s yield pools is in stablecoin-only pools?`
+  },
+
+  getChoices(_data, _ctx, format) {
+    if (format === "tf") return ["True", "False"]
+    return getConcentrationBucketChoices()
+  },
+
+  getAnswerIndex(data, _ctx, format) {
+    if (format === "tf") return data.share > 0.5 ? 0 : 1
+    return data.bucketIndex
+  },
+
+  getAnswerValue(data) {
+    return data.share > 0.5
+  },
+
+  getMargin(data, _ctx, format) {
+    if (format === "tf") return Math.abs(data.share - 0.5) * 2
+    // Distance to bucket boundaries
+    const boundaries = [0.25, 0.5, 0.75]
+    const minDist = Math.min(...boundaries.map((b) => Math.abs(data.share - b)))
+    return minDist / 0.25
+  },
+
+  getExplainData(data, ctx) {
+    const detail = ctx.data.protocolDetail!
+    return {
+      name: detail.name,
+      stablePercent: Math.round(data.share * 100),
+      volatilePercent: 100 - Math.round(data.share * 100),
+      bucket: getConcentrationBucketChoices()[data.bucketIndex],
+    }
+  },
+}
+
 // =============================================================================
 // Export all templates
 // =============================================================================
@@ -3023,6 +4205,17 @@ export const PROTOCOL_TEMPLATE_CONFIGS = {
   P31_PRECISE_RANK,
   P32_EXCHANGE_COMPARISON,
   P33_MULTI_RANKING,
+  P34_RAISED_BAND,
+  P35_LARGEST_ROUND_TIMING,
+  P36_TVL_VS_RAISED,
+  P37_MCAP_TVL_BUCKET,
+  P38_VOLUME_TVL_RATIO,
+  P39_TOP_VOLUME_CHAIN,
+  P40_VOLUME_TREND_30D,
+  P41_DEX_VOLUME_RANK,
+  P42_TOP_YIELD_POOL,
+  P43_MEDIAN_APY_BAND,
+  P44_STABLE_POOL_SHARE,
 }
 
 // Create Template implementations from configs
@@ -3051,4 +4244,15 @@ export const p29CategoryGrowth = createTemplate(P29_CATEGORY_GROWTH)
 export const p30ChainExpansion = createTemplate(P30_CHAIN_EXPANSION)
 export const p31PreciseRank = createTemplate(P31_PRECISE_RANK)
 export const p32ExchangeComparison = createTemplate(P32_EXCHANGE_COMPARISON)
-export const p33MultiRanking = createTemplate(P33_MULTI_RANKING)
\ No newline at end of file
+export const p33MultiRanking = createTemplate(P33_MULTI_RANKING)
+export const p34RaisedBand = createTemplate(P34_RAISED_BAND)
+export const p35LargestRoundTiming = createTemplate(P35_LARGEST_ROUND_TIMING)
+export const p36TvlVsRaised = createTemplate(P36_TVL_VS_RAISED)
+export const p37McapTvlBucket = createTemplate(P37_MCAP_TVL_BUCKET)
+export const p38VolumeTvlRatio = createTemplate(P38_VOLUME_TVL_RATIO)
+export const p39TopVolumeChain = createTemplate(P39_TOP_VOLUME_CHAIN)
+export const p40VolumeTrend30d = createTemplate(P40_VOLUME_TREND_30D)
+export const p41DexVolumeRank = createTemplate(P41_DEX_VOLUME_RANK)
+export const p42TopYieldPool = createTemplate(P42_TOP_YIELD_POOL)
+export const p43MedianApyBand = createTemplate(P43_MEDIAN_APY_BAND)
+export const p44StablePoolShare = createTemplate(P44_STABLE_POOL_SHARE)
\ No newline at end of file
@@ -7,34 +7,29 @@
 
 import { readFile } from "fs/promises"
 import { existsSync } from "fs"
-import type { ProtocolPoolEntry, ChainPoolEntry } from "@/lib/types/pools"
+import type { ProtocolPoolEntry, ChainPoolEntry, CategoryPoolEntry } from "@/lib/types/pools"
+import type { EpisodeType } from "@/lib/types/episode"
 import { seedFromParts, createRng, weightedRandomPick } from "./rng"
+import { getEpisodeType, getScheduleOverride } from "./schedule"
+
+export { getEpisodeType }
+export type { EpisodeType }
 
 // Pool file paths
 const PROTOCOL_POOL_PATH = "./data/pools/protocols.json"
 const CHAIN_POOL_PATH = "./data/pools/chains.json"
+const CATEGORY_POOL_PATH = "./data/pools/categories.json"
 
 // Cooldown configuration
 const PROTOCOL_COOLDOWN_DAYS = 14
 const CHAIN_COOLDOWN_DAYS = 10
-
-// Episode type by day of week (0 = Sunday)
-const EPISODE_SCHEDULE: Record<number, "protocol" | "chain"> = {
-  0: "protocol", // Sunday
-  1: "protocol", // Monday
-  2: "chain", // Tuesday
-  3: "protocol", // Wednesday
-  4: "chain", // Thursday
-  5: "protocol", // Friday
-  6: "chain", // Saturday
-}
-
-export type EpisodeType = "protocol" | "chain"
+// The category pool is small, so a longer cooldown spreads repeats further apart
+const CATEGORY_COOLDOWN_DAYS = 28
 
 /**
- * Topic type - either a protocol or chain pool entry
+ * Topic type - a protocol, chain, or category pool entry
  */
-export type Topic = ProtocolPoolEntry | ChainPoolEntry
+export type Topic = ProtocolPoolEntry | ChainPoolEntry | CategoryPoolEntry
 
 /**
  * Type guard to check if topic is a protocol
@@ -47,16 +42,22 @@ export function isProtocolTopic(topic: Topic): topic is ProtocolPoolEntry {
  * Type guard to check if topic is a chain
  */
 export function isChainTopic(topic: Topic): topic is ChainPoolEntry {
-  return "protocolCount" in topic
+  return "protocolCount" in topic && !isCategoryTopic(topic)
 }
 
 /**
- * Get episode type for a given date
+ * Type guard to check if topic is a protocol category
  */
-export function getEpisodeType(date: string): EpisodeType {
-  const d = new Date(date)
-  const dayOfWeek = d.getUTCDay()
-  return EPISODE_SCHEDULE[dayOfWeek]
+export function isCategoryTopic(topic: Topic): topic is CategoryPoolEntry {
+  return "chainCount" in topic
+}
+
+/**
+ * Get the episode type a topic belongs to
+ */
+export function getTopicEpisodeType(topic: Topic): EpisodeType {
+  if (isProtocolTopic(topic)) return "protocol"
+  return isCategoryTopic(topic) ? "category" : "chain"
 }
 
 /**
@@ -83,6 +84,27 @@ export async function loadChainPool(): Promise<ChainPoolEntry[]> {
   return data.chains as ChainPoolEntry[]
 }
 
+/**
+ * Load category pool from JSON file
+ */
+export async function loadCategoryPool(): Promise<CategoryPoolEntry[]> {
+  if (!existsSync(CATEGORY_POOL_PATH)) {
+    throw new Error(`Category pool not found at ${CATEGORY_POOL_PATH}`)
+  }
+  const content = await readFile(CATEGORY_POOL_PATH, "utf-8")
+  const data = JSON.parse(content)
+  return data.categories as CategoryPoolEntry[]
+}
+
+/**
+ * Load the topic pool for an episode type
+ */
+export async function loadTopicPool(type: EpisodeType): Promise<Topic[]> {
+  if (type === "protocol") return loadProtocolPool()
+  if (type === "category") return loadCategoryPool()
+  return loadChainPool()
+}
+
 /**
  * Calculate TVL rank score (higher rank = higher score)
  * Top 10 = 1.0, rank 100 = 0.1
@@ -152,6 +174,25 @@ function chainDataQualityScore(chain: ChainPoolEntry): number {
   return Math.min(1, score)
 }
 
+/**
+ * Calculate data quality score for a category
+ */
+function categoryDataQualityScore(category: CategoryPoolEntry): number {
+  let score = 0
+
+  // Has 20+ protocols (leader and market share questions have real contenders): +0.40
+  if (category.protocolCount >= 20) score += 0.40
+  else if (category.protocolCount >= 10) score += 0.20
+
+  // Spread over 5+ chains (chain distribution questions): +0.35
+  if (category.chainCount >= 5) score += 0.35
+
+  // Has 7d growth (growth comparison questions): +0.25
+  if (category.change7d !== undefined) score += 0.25
+
+  return Math.min(1, score)
+}
+
 /**
  * Calculate diversity bonus based on category representation
  * For simplicity, this returns a small random bonus
@@ -198,6 +239,17 @@ function computeChainWeight(
   return 0.4 * tvlScore + 0.3 * qualityScore + 0.3 * (1 + diversityBonus)
 }
 
+/**
+ * Compute base weight for a category topic
+ * Category ranks only go to ~20, so rank counts for less than for protocols
+ */
+function computeCategoryWeight(category: CategoryPoolEntry): number {
+  const tvlScore = Math.max(0.1, 1 - (category.tvlRank - 1) / 20)
+  const qualityScore = categoryDataQualityScore(category)
+
+  return 0.3 * tvlScore + 0.7 * qualityScore
+}
+
 /**
  * Get dates in the same week as the given date
  * Returns array of YYYY-MM-DD strings
@@ -252,6 +304,13 @@ function getProtocolTopicsFromDates(
       continue
     }
 
+    // Pinned topics from the schedule config are known exactly
+    const pinned = getScheduleOverride(pastDate)?.topic
+    if (pinned) {
+      usedSlugs.add(pinned)
+      continue
+    }
+
     // Deterministically select the topic for that date
     const seed = seedFromParts(pastDate, "protocol")
     const rng = createRng(seed)
@@ -282,6 +341,13 @@ function getChainTopicsFromDates(
       continue
     }
 
+    // Pinned topics from the schedule config are known exactly
+    const pinned = getScheduleOverride(pastDate)?.topic
+    if (pinned) {
+      usedSlugs.add(pinned)
+      continue
+    }
+
     // Deterministically select the topic for that date
     const seed = seedFromParts(pastDate, "chain")
     const rng = createRng(seed)
@@ -297,6 +363,43 @@ function getChainTopicsFromDates(
   return usedSlugs
 }
 
+/**
+ * Get topics that were used in given dates for categories
+ */
+function getCategoryTopicsFromDates(
+  dates: string[],
+  pool: CategoryPoolEntry[]
+): Set<string> {
+  const usedSlugs = new Set<string>()
+
+  for (const pastDate of dates) {
+    // Only process dates that match category episode type
+    if (getEpisodeType(pastDate) !== "category") {
+      continue
+    }
+
+    // Pinned topics from the schedule config are known exactly
+    const pinned = getScheduleOverride(pastDate)?.topic
+    if (pinned) {
+      usedSlugs.add(pinned)
+      continue
+    }
+
+    // Deterministically select the topic for that date
+    const seed = seedFromParts(pastDate, "category")
+    const rng = createRng(seed)
+
+    // Simple uniform selection for determining past topics
+    const weights = pool.map(() => 1)
+    const selected = weightedRandomPick(pool, weights, rng)
+    if (selected) {
+      usedSlugs.add(selected.slug)
+    }
+  }
+
+  return usedSlugs
+}
+
 /**
  * Select a protocol topic for a given date
  */
@@ -401,16 +504,83 @@ export async function selectChainTopic(date: string): Promise<ChainPoolEntry> {
   return selected
 }
 
+/**
+ * Select a category topic for a given date
+ */
+export async function selectCategoryTopic(date: string): Promise<CategoryPoolEntry> {
+  const pool = await loadCategoryPool()
+
+  if (pool.length === 0) {
+    throw new Error("No topics available in category pool")
+  }
+
+  // Create deterministic RNG from date
+  const seed = seedFromParts(date, "category")
+  const rng = createRng(seed)
+
+  // Compute base weights
+  const baseWeights = pool.map((category) => computeCategoryWeight(category))
+
+  // Get recently used topics for cooldown
+  const recentDates = getDatesInLastNDays(date, CATEGORY_COOLDOWN_DAYS)
+  const recentTopics = getCategoryTopicsFromDates(recentDates, pool)
+
+  // Apply cooldown penalty (90% reduction)
+  const cooldownWeights = baseWeights.map((w, i) =>
+    recentTopics.has(pool[i].slug) ? w * 0.1 : w
+  )
+
+  // Get topics used this week for hard constraint
+  const weekDates = getDatesInSameWeek(date)
+  const thisWeekTopics = getCategoryTopicsFromDates(weekDates, pool)
+
+  // Hard constraint: zero weight for topics used this week
+  const finalWeights = cooldownWeights.map((w, i) =>
+    thisWeekTopics.has(pool[i].slug) ? 0 : w
+  )
+
+  // Check if any topics are available
+  const totalWeight = finalWeights.reduce((sum, w) => sum + w, 0)
+  if (totalWeight <= 0) {
+    console.warn("All category topics exhausted for week, using fallback")
+    return pool[0]
+  }
+
+  // Weighted random selection
+  const selected = weightedRandomPick(pool, finalWeights, rng)
+  if (!selected) {
+    throw new Error("Failed to select category topic from pool")
+  }
+
+  return selected
+}
+
 /**
  * Select a topic for a given date and episode type
  * This is the main entry point for topic selection
+ *
+ * A topic pinned for the date in the schedule config is used as-is.
+ *
+ * @throws Error if the pinned topic isn't in the pool for the type
  */
 export async function selectTopic(
   date: string,
   type: EpisodeType
 ): Promise<Topic> {
+  const override = getScheduleOverride(date)
+  if (override?.topic && override.type === type) {
+    const pool = await loadTopicPool(type)
+    const pinned = pool.find((topic) => topic.slug === override.topic)
+    if (!pinned) {
+      throw new Error(`Scheduled topic "${override.topic}" for ${date} is not in the ${type} pool`)
+    }
+    return pinned
+  }
+
   if (type === "protocol") {
     return selectProtocolTopic(date)
+  } else if (type === "category") {
+    return selectCategoryTopic(date)
   } else {
     return selectChainTopic(date)
   }
@@ -21,6 +21,26 @@ export interface LLMCacheEntry {
 
 export type LLMCacheFile = Record<string, LLMCacheEntry>
 
+/** A pending cache write, for batching several entries into one file write */
+export interface LLMCacheWrite {
+  key: string
+  text: string
+  model: string
+}
+
+/** Fields of a cache key, as built by getLLMCacheKey */
+export interface ParsedLLMCacheKey {
+  date: string
+  episodeType: string
+  topicSlug: string
+  questionSlot: string
+  templateId: string
+  contentType: string
+  dataHash: string
+  /** Unset for keys written before model keys were added */
+  modelKey?: string
+}
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -47,6 +67,8 @@ export function hashData(data: Record<string, unknown>): string {
 
 /**
  * Generate a deterministic cache key for an LLM output
+ * The model key ("provider:model", e.g., "openai:gpt-4o-mini") keeps outputs
+ * from different providers and models apart.
  */
 export function getLLMCacheKey(
   date: string,
@@ -55,9 +77,33 @@ export function getLLMCacheKey(
   questionSlot: string,
   templateId: string,
   contentType: "explanation" | "rephrase",
-  dataHash: string
+  dataHash: string,
+  modelKey: string
 ): string {
-  return `${date}|${episodeType}|${topicSlug}|${questionSlot}|${templateId}|${contentType}|${dataHash}`
+  return `${date}|${episodeType}|${topicSlug}|${questionSlot}|${templateId}|${contentType}|${dataHash}|${modelKey}`
+}
+
+/**
+ * Split a cache key back into its fields
+ *
+ * @returns Parsed fields, or null if the key isn't a cache key
+ */
+export function parseLLMCacheKey(key: string): ParsedLLMCacheKey | null {
+  const parts = key.split("|")
+  if (parts.length !== 7 && parts.length !== 8) return null
+  const [date, episodeType, topicSlug, questionSlot, templateId, contentType, dataHash, modelKey] =
+    parts
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+  return {
+    date,
+    episodeType,
+    topicSlug,
+    questionSlot,
+    templateId,
+    contentType,
+    dataHash,
+    ...(modelKey !== undefined ? { modelKey } : {}),
+  }
 }
 
 // =============================================================================
@@ -154,18 +200,30 @@ export async function setCache(
   text: string,
   model: string
 ): Promise<void> {
+  await setCacheEntries(date, [{ key, text, model }])
+}
+
+/**
+ * Store several LLM outputs in cache with a single file write
+ *
+ * @param date - Episode date (YYYY-MM-DD)
+ * @param writes - Entries to store, in order
+ */
+export async function setCacheEntries(
+  date: string,
+  writes: LLMCacheWrite[]
+): Promise<void> {
+  if (writes.length === 0) return
+
   // Load current cache
-  let fileCache = await loadCacheFile(date)
+  const fileCache = await loadCacheFile(date)
 
-  // Add new entry
-  const entry: LLMCacheEntry = {
-    text,
-    model,
-    generatedAt: new Date().toISOString(),
+  // Add new entries
+  const generatedAt = new Date().toISOString()
+  for (const { key, text, model } of writes) {
+    fileCache[key] = { text, model, generatedAt }
   }
 
-  fileCache[key] = entry
-
   // Update session cache
   sessionCache = fileCache
   sessionCacheDate = date
@@ -207,3 +265,49 @@ export async function getCacheStats(date: string): Promise<{
     filePath,
   }
 }
+
+// =============================================================================
+// Maintenance
+// =============================================================================
+
+/**
+ * List the months that have cache files, oldest first
+ *
+ * @returns Months in YYYY-MM format
+ */
+export async function listCacheMonths(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(CACHE_DIR)
+    return files
+      .filter((f) => /^\d{4}-\d{2}\.json$/.test(f))
+      .map((f) => f.replace(".json", ""))
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Load all cache entries for a month
+ *
+ * @param month - Month in YYYY-MM format
+ */
+export async function loadCacheMonth(month: string): Promise<LLMCacheFile> {
+  return loadCacheFile(month)
+}
+
+/**
+ * Replace all cache entries for a month
+ * An empty cache deletes the month's file.
+ *
+ * @param month - Month in YYYY-MM format
+ * @param cache - Entries to keep
+ */
+export async function saveCacheMonth(month: string, cache: LLMCacheFile): Promise<void> {
+  clearSessionCache()
+  if (Object.keys(cache).length === 0) {
+    await fs.rm(getCacheFilePath(month), { force: true })
+    return
+  }
+  await saveCacheFile(month, cache)
+}
@@ -1,87 +1,248 @@
 /**
  * LLM Client
  *
- * OpenAI client configuration for generating explanations and rephrasing prompts.
- * Uses gpt-4o-mini for cost-effective generation.
+ * Generates explanations and rephrased prompts through the active LLM
+ * provider, with response validation. The provider is picked by LLM_PROVIDER:
+ * - openai (default): OpenAI API, gpt-4o-mini unless LLM_MODEL is set
+ * - openai-compatible: OpenAI-compatible API at LLM_BASE_URL (LLM_MODEL required)
+ * - stub: Deterministic output, no network calls (for tests)
+ *
+ * Failed calls are retried with exponential backoff (honoring Retry-After on
+ * rate limits), and token usage and estimated cost are tallied per process.
  */
 
-import OpenAI from "openai"
+import {
+  LLM_PROVIDER_NAMES,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+  StubProvider,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMProviderName,
+} from "./providers"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LLMPricing {
+  inputPer1M: number
+  outputPer1M: number
+}
+
+export interface LLMUsageStats {
+  /** Provider calls, including failed ones (retries not counted) */
+  calls: number
+  /** Calls that failed after all retries */
+  failures: number
+  /** Retry attempts after rate limits, timeouts, and server errors */
+  retries: number
+  inputTokens: number
+  outputTokens: number
+  /** Estimated cost in USD (0 when the model has no known pricing) */
+  costUsd: number
+}
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
+const DEFAULT_PROVIDER: LLMProviderName = "openai"
 const DEFAULT_MODEL = "gpt-4o-mini"
 const DEFAULT_TIMEOUT_MS = 10_000 // 10 seconds
 const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_RETRY_BASE_MS = 1_000
+const MAX_RETRY_DELAY_MS = 30_000
+const DEFAULT_CONCURRENCY = 3
 
 // Environment variable configuration
 const LLM_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10)
 const LLM_MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || String(DEFAULT_MAX_RETRIES), 10)
+const LLM_RETRY_BASE_MS = parseInt(process.env.LLM_RETRY_BASE_MS || String(DEFAULT_RETRY_BASE_MS), 10)
+const LLM_CONCURRENCY = Math.max(1, parseInt(process.env.LLM_CONCURRENCY || String(DEFAULT_CONCURRENCY), 10) || 1)
 const SKIP_LLM = process.env.SKIP_LLM === "true"
 
-// =============================================================================
-// System Prompts
-// =============================================================================
+/**
+ * USD per 1M tokens, by model
+ * LLM_INPUT_COST_PER_1M and LLM_OUTPUT_COST_PER_1M override (e.g., for self-hosted models).
+ */
+const MODEL_PRICING: Record<string, LLMPricing> = {
+  "gpt-4o-mini": { inputPer1M: 0.15, outputPer1M: 0.6 },
+  "gpt-4o": { inputPer1M: 2.5, outputPer1M: 10 },
+  "gpt-4.1-mini": { inputPer1M: 0.4, outputPer1M: 1.6 },
+  "gpt-4.1-nano": { inputPer1M: 0.1, outputPer1M: 0.4 },
+  stub: { inputPer1M: 0, outputPer1M: 0 },
+}
 
-const EXPLANATION_SYSTEM_PROMPT = `You write 1-2 sentence explanations for a daily DeFi quiz game. The player just answered a question and wants to LEARN something — not hear the answer restated in prose.
+const stats: LLMUsageStats = {
+  calls: 0,
+  failures: 0,
+  retries: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+}
 
-CORE PRINCIPLE: Explain WHY or add context the player didn't have. Never just restate the answer.
+// =============================================================================
+// Provider Setup
+// =============================================================================
 
-BAD: "Uniswap has $4.2B TVL across 12 chains, placing it in the $1B-$5B range."
-(The player already knows this — they just answered the question.)
+let provider: LLMProvider | null = null
 
-GOOD: "Uniswap's $4.2B is spread across 12 chains, with Ethereum and Arbitrum alone accounting for over 80% — a common pattern for early L1-native DEXs."
-(This adds insight about WHY the distribution looks this way.)
+/**
+ * Create the provider configured by environment variables
+ *
+ * @throws Error if LLM_PROVIDER is not a known provider
+ */
+function createProvider(): LLMProvider {
+  const name = process.env.LLM_PROVIDER || DEFAULT_PROVIDER
+  if (!(LLM_PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}" (expected ${LLM_PROVIDER_NAMES.join(", ")})`
+    )
+  }
 
-RULES:
-- 1-2 sentences, factual, using the numbers provided
-- Explain the "so what" — why is this number interesting, what does it tell us about the protocol/chain?
-- Reference specific data points but don't just list them
-- Use "TVL" not "total value locked" (the player already knows the acronym)
-- For comparisons: explain what drives the difference, not just that a difference exists
-- Write in a direct, conversational tone — no corporate-speak
+  const options = {
+    timeoutMs: LLM_TIMEOUT_MS,
+  }
 
-NEVER DO:
-- Restate the answer ("X has $Y TVL, placing it in the Z range" — they JUST answered this)
-- End with filler ("highlighting its importance in the DeFi ecosystem", "indicating strong user engagement", "within the DeFi space")
-- Start with "The correct answer" or "According to data"
-- Say "total value locked (TVL)" — just say "TVL", the reader knows
-- Use "market cap" when referring to TVL data
-- Speculate on future performance
-- Use phrases like "This indicates", "This highlights", "This demonstrates"`
+  switch (name as LLMProviderName) {
+    case "stub":
+      return new StubProvider()
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        ...options,
+        model: process.env.LLM_MODEL || "",
+        apiKey: process.env.LLM_API_KEY,
+        baseUrl: process.env.LLM_BASE_URL,
+      })
+    default:
+      return new OpenAIProvider({
+        ...options,
+        model: process.env.LLM_MODEL || DEFAULT_MODEL,
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+  }
+}
 
-const REPHRASE_SYSTEM_PROMPT = `Rephrase the quiz question while keeping the exact same meaning.
+/**
+ * Get the active provider (created from the environment on first use)
+ */
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider()
+  }
+  return provider
+}
 
-Rules:
-- Keep it as a question
-- Don't change any numbers, names, or the answer
-- Add slight variety in word choice only
-- Keep the same difficulty level
-- Return only the rephrased question, nothing else`
+/**
+ * Replace the active provider (e.g., a StubProvider in tests)
+ * Pass null to go back to the provider configured by the environment.
+ */
+export function setProvider(next: LLMProvider | null): void {
+  provider = next
+}
 
 // =============================================================================
-// Client Setup
+// Retries & Usage
 // =============================================================================
 
-let openaiClient: OpenAI | null = null
+/**
+ * Get the pricing for the active model, or undefined if unknown
+ */
+function getPricing(model: string): LLMPricing | undefined {
+  const input = process.env.LLM_INPUT_COST_PER_1M
+  const output = process.env.LLM_OUTPUT_COST_PER_1M
+  if (input !== undefined || output !== undefined) {
+    return { inputPer1M: Number(input ?? 0), outputPer1M: Number(output ?? 0) }
+  }
+  return MODEL_PRICING[model]
+}
 
 /**
- * Get or create the OpenAI client
+ * Check if a provider error is worth retrying (rate limit, timeout, server or connection error)
  */
-function getClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY environment variable is not set")
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number }).status
+  if (typeof status === "number") {
+    return status === 408 || status === 409 || status === 429 || status >= 500
+  }
+  // Connection errors and timeouts carry no status
+  const name = error instanceof Error ? error.name : ""
+  return /connection|timeout|abort/i.test(name)
+}
+
+/**
+ * Get the delay before the next retry: exponential backoff, or Retry-After if longer
+ */
+function getRetryDelayMs(error: unknown, attempt: number): number {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, LLM_RETRY_BASE_MS * Math.pow(2, attempt))
+  const headers = (error as { headers?: { get?: (name: string) => string | null } }).headers
+  const retryAfter = Number(headers?.get?.("retry-after"))
+  if (retryAfter > 0) {
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, retryAfter * 1000))
+  }
+  return backoff
+}
+
+/**
+ * Call the provider with retries, and record token usage and cost
+ *
+ * @throws The last error once retries are exhausted (or a non-retryable error)
+ */
+async function callWithRetry(
+  llm: LLMProvider,
+  call: () => Promise<LLMCompletion>
+): Promise<LLMCompletion> {
+  stats.calls++
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const completion = await call()
+      if (completion.usage) {
+        const { inputTokens, outputTokens } = completion.usage
+        const pricing = getPricing(llm.model)
+        stats.inputTokens += inputTokens
+        stats.outputTokens += outputTokens
+        if (pricing) {
+          stats.costUsd +=
+            (inputTokens * pricing.inputPer1M + outputTokens * pricing.outputPer1M) / 1_000_000
+        }
+      }
+      return completion
+    } catch (error) {
+      if (attempt >= LLM_MAX_RETRIES || !isRetryableError(error)) {
+        stats.failures++
+        throw error
+      }
+      stats.retries++
+      await new Promise((resolve) => setTimeout(resolve, getRetryDelayMs(error, attempt)))
     }
-    openaiClient = new OpenAI({
-      apiKey,
-      timeout: LLM_TIMEOUT_MS,
-      maxRetries: LLM_MAX_RETRIES,
-    })
   }
-  return openaiClient
+}
+
+/**
+ * Get LLM call counts, token usage, and estimated cost for this process
+ */
+export function getLLMUsageStats(): LLMUsageStats {
+  return { ...stats }
+}
+
+/**
+ * Get the usage since an earlier snapshot (e.g., for a single episode)
+ */
+export function diffLLMUsageStats(
+  before: LLMUsageStats,
+  after: LLMUsageStats = getLLMUsageStats()
+): LLMUsageStats {
+  return {
+    calls: after.calls - before.calls,
+    failures: after.failures - before.failures,
+    retries: after.retries - before.retries,
+    inputTokens: after.inputTokens - before.inputTokens,
+    outputTokens: after.outputTokens - before.outputTokens,
+    costUsd: after.costUsd - before.costUsd,
+  }
 }
 
 // =============================================================================
@@ -99,7 +260,7 @@ export interface LLMGenerationResult {
  * Generate an explanation for a quiz answer
  *
  * @param data - Structured data about the question and answer
- * @param topicName - Name of the topic (protocol or chain)
+ * @param topicName - Name of the topic (protocol, chain, or category)
  * @param templateId - Template ID for context
  * @returns Generated explanation or error
  */
@@ -117,46 +278,17 @@ export async function generateExplanation(
     }
   }
 
+  const llm = getProvider()
+
   try {
-    const client = getClient()
-
-    // Build user prompt from data
-    const dataStr = JSON.stringify(data, null, 2)
-    
-    // Check if comparison data is available for MC questions
-    const hasComparison = "comparison" in data && typeof data.comparison === "string"
-    const comparisonHint = hasComparison
-      ? `\n\nIMPORTANT: Include brief context about the other choices. The "comparison" field shows the alternatives and their values - mention 1-2 of them to help explain why the correct answer stands out.`
-      : ""
-    
-    const userPrompt = `Generate a 1-2 sentence explanation for a DeFi quiz answer.
-
-Topic: ${topicName}
-Template: ${templateId}
-Data:
-${dataStr}
-
-Write a concise explanation using the data above.${comparisonHint}`
-
-    const response = await client.chat.completions.create({
-      model: DEFAULT_MODEL,
-      messages: [
-        { role: "system", content: EXPLANATION_SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 150,
-      top_p: 1,
-      frequency_penalty: 0,
-      presence_penalty: 0,
-    })
-
-    const text = response.choices[0]?.message?.content?.trim() || ""
+    const { text } = await callWithRetry(llm, () =>
+      llm.generateExplanation({ data, topicName, templateId })
+    )
 
     if (!text) {
       return {
         text: "",
-        model: DEFAULT_MODEL,
+        model: llm.model,
         success: false,
         error: "Empty response from LLM",
       }
@@ -166,7 +298,7 @@ Write a concise explanation using the data above.${comparisonHint}`
     if (text.length > 500) {
       return {
         text: "",
-        model: DEFAULT_MODEL,
+        model: llm.model,
         success: false,
         error: "Response too long (>500 chars)",
       }
@@ -180,7 +312,7 @@ Write a concise explanation using the data above.${comparisonHint}`
       if (dataStr.includes("tvl") && !dataStr.includes("marketcap")) {
         return {
           text: "",
-          model: DEFAULT_MODEL,
+          model: llm.model,
           success: false,
           error: "LLM incorrectly used 'market cap' terminology for TVL data",
         }
@@ -189,7 +321,7 @@ Write a concise explanation using the data above.${comparisonHint}`
 
     return {
       text,
-      model: DEFAULT_MODEL,
+      model: llm.model,
       success: true,
     }
   } catch (error) {
@@ -197,7 +329,7 @@ Write a concise explanation using the data above.${comparisonHint}`
     console.error(`LLM explanation generation failed: ${errorMsg}`)
     return {
       text: "",
-      model: DEFAULT_MODEL,
+      model: llm.model,
       success: false,
       error: errorMsg,
     }
@@ -213,7 +345,7 @@ Write a concise explanation using the data above.${comparisonHint}`
  */
 export async function rephrasePrompt(
   basePrompt: string,
-  _templateId: string
+  templateId: string
 ): Promise<LLMGenerationResult> {
   if (SKIP_LLM) {
     return {
@@ -224,34 +356,15 @@ export async function rephrasePrompt(
     }
   }
 
-  try {
-    const client = getClient()
-
-    const userPrompt = `Rephrase this quiz question:
-
-"${basePrompt}"
-
-Return only the rephrased question.`
-
-    const response = await client.chat.completions.create({
-      model: DEFAULT_MODEL,
-      messages: [
-        { role: "system", content: REPHRASE_SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.5,
-      max_tokens: 100,
-      top_p: 1,
-      frequency_penalty: 0.3,
-      presence_penalty: 0,
-    })
+  const llm = getProvider()
 
-    const text = response.choices[0]?.message?.content?.trim() || ""
+  try {
+    const { text } = await callWithRetry(llm, () => llm.rephrase({ basePrompt, templateId }))
 
     if (!text) {
       return {
         text: basePrompt,
-        model: DEFAULT_MODEL,
+        model: llm.model,
         success: false,
         error: "Empty response from LLM",
       }
@@ -259,7 +372,7 @@ Return only the rephrased question.`
 
     return {
       text,
-      model: DEFAULT_MODEL,
+      model: llm.model,
       success: true,
     }
   } catch (error) {
@@ -267,7 +380,7 @@ Return only the rephrased question.`
     console.error(`LLM rephrase failed: ${errorMsg}`)
     return {
       text: basePrompt,
-      model: DEFAULT_MODEL,
+      model: llm.model,
       success: false,
       error: errorMsg,
     }
@@ -275,28 +388,67 @@ Return only the rephrased question.`
 }
 
 /**
- * Check if LLM is available (API key set and not skipped)
+ * Check if LLM calls are disabled by SKIP_LLM (never resolves the provider)
+ */
+export function isLLMSkipped(): boolean {
+  return SKIP_LLM
+}
+
+/**
+ * Check if LLM is available (provider configured and not skipped)
  */
 export function isLLMAvailable(): boolean {
   if (SKIP_LLM) return false
-  return !!process.env.OPENAI_API_KEY
+  return getProvider().unavailableReason() === null
 }
 
 /**
  * Get LLM configuration for debugging
  */
 export function getLLMConfig(): {
+  provider: LLMProviderName
   model: string
+  baseUrl?: string
   timeoutMs: number
   maxRetries: number
+  retryBaseMs: number
+  /** Maximum LLM calls in flight per episode */
+  concurrency: number
+  /** USD per 1M tokens (unset when the model has no known pricing) */
+  pricing?: LLMPricing
   skipLLM: boolean
   hasApiKey: boolean
+  /** Whether outputs are cached */
+  cacheable: boolean
+  /** Why the provider can't be called (unset when ready) */
+  unavailableReason?: string
 } {
+  const llm = getProvider()
+  const unavailableReason = llm.unavailableReason()
+  const pricing = getPricing(llm.model)
   return {
-    model: DEFAULT_MODEL,
+    provider: llm.name,
+    model: llm.model,
+    ...(llm.baseUrl ? { baseUrl: llm.baseUrl } : {}),
     timeoutMs: LLM_TIMEOUT_MS,
     maxRetries: LLM_MAX_RETRIES,
+    retryBaseMs: LLM_RETRY_BASE_MS,
+    concurrency: LLM_CONCURRENCY,
+    ...(pricing ? { pricing } : {}),
     skipLLM: SKIP_LLM,
-    hasApiKey: !!process.env.OPENAI_API_KEY,
+    hasApiKey: !!(llm.name === "openai-compatible"
+      ? process.env.LLM_API_KEY
+      : process.env.OPENAI_API_KEY),
+    cacheable: llm.cacheable,
+    ...(unavailableReason ? { unavailableReason } : {}),
   }
 }
+
+/**
+ * Get the cache key segment for the active provider and model
+ * Cached outputs from one model are never served for another.
+ */
+export function getLLMModelKey(): string {
+  const llm = getProvider()
+  return `${llm.name}:${llm.model}`
+}
@@ -84,6 +84,30 @@ export const EXPLANATION_TEMPLATES: Record<string, string> = {
     "{name} is a {layerType} blockchain. {layerExplanation}",
   C14_TVL_DOMINANCE:
     "{topProtocol} dominates {chain} with {sharePercent}% of total chain TVL ({topTvl} of {chainTvl}). {comparison}",
+  C15_DOMINANT_STABLECOIN:
+    "{dominant} is the largest stablecoin on {chain} with {dominantSupply} ({sharePercent}% of USD stablecoin supply). Others: {comparison}.",
+  C16_STABLECOIN_SUPPLY_TREND:
+    "Stablecoin supply on {chain} {trendDirection} {changePercent}% over the past 30 days to {currentSupply} ({bucket}).",
+  C17_STABLECOIN_SHARE:
+    "{chain} has {supply} in stablecoins against {tvl} in DeFi TVL, {sharePercent}% of its TVL ({bucket}).",
+  C18_BRIDGE_NET_FLOW:
+    "{chain} saw a {flowDirection} of {netFlow} through bridges over the past {period}, on {bridgeVolume} of total bridge volume.",
+  C19_BUSIEST_BRIDGE:
+    "{busiestBridge} was the busiest bridge serving {chain}, moving {topVolume} across all its chains over the past month. Others: {comparison}.",
+
+  // Category templates
+  CAT1_FINGERPRINT:
+    "{name} ranks #{tvlRank} among DeFi categories with {tvlFormatted} in TVL across {protocolCount} protocols, including {notableProtocols}.",
+  CAT2_CATEGORY_LEADER:
+    "{leader} leads the {category} category with {leaderTvl} in TVL, {leaderShare}% of the category. Others: {comparison}.",
+  CAT3_CONCENTRATION:
+    "{leader} holds {leaderSharePercent}% of {category} TVL, and the top three ({top3}) hold {top3SharePercent}% combined.",
+  CAT4_TOP_CHAIN:
+    "{topChain} holds {topChainTvl} of {category} TVL, {topChainSharePercent}% of the category. Others: {comparison}.",
+  CAT5_GROWTH_VS_CATEGORIES:
+    "{winner} TVL changed by {winnerGrowth} over the past 7 days, compared to {loserGrowth} for {loser}.",
+  CAT6_TVL_COMPARISON:
+    "{winner} has {winnerTvl} in TVL compared to {loser}'s {loserTvl}.",
 
   // New Protocol templates
   P27_DERIVATIVES_RANKING:
@@ -92,6 +116,28 @@ export const EXPLANATION_TEMPLATES: Record<string, string> = {
     "{topCategory} had the highest TVL growth at {growthPercent}% over the past {period}. {comparison}",
   P30_CHAIN_EXPANSION:
     "{name} is deployed on {chainCount} chains, {chainComparison}. Most TVL is on {topChain} ({topChainShare}%).",
+  P34_RAISED_BAND:
+    "{name} has raised {totalRaised} across {rounds}, placing it in the {raisedBand} range.",
+  P35_LARGEST_ROUND_TIMING:
+    "{name} closed its largest disclosed round, a {amount} {round}, in {raiseMonth}.",
+  P36_TVL_VS_RAISED:
+    "{name} holds {tvl} in TVL, {tvlMultiple} the {totalRaised} it has raised in disclosed funding.",
+  P37_MCAP_TVL_BUCKET:
+    "{name} has a market cap of {mcap} against {tvl} in TVL, a market cap to TVL ratio of {ratio}.",
+  P38_VOLUME_TVL_RATIO:
+    "{name} traded {volume7d} over the past 7 days against {tvl} in TVL, {ratio} its TVL ({bucket}).",
+  P39_TOP_VOLUME_CHAIN:
+    "{topChain} led {name}'s volume in the last 24 hours with {topVolume} ({sharePercent}% of the total). Next: {comparison}.",
+  P40_VOLUME_TREND_30D:
+    "{name}'s 30-day trading volume {trendDirection} {changePercent}%, from {pastVolume} to {recentVolume} ({bucket}).",
+  P41_DEX_VOLUME_RANK:
+    "{name} ranks #{rank} among DEXs by 7-day volume with {volume7d} ({rankBucket}).{comparison}",
+  P42_TOP_YIELD_POOL:
+    "{name}'s largest yield pool is {topPool} on {topPoolChain} with {topPoolTvl} in TVL. Next: {comparison}.",
+  P43_MEDIAN_APY_BAND:
+    "The median APY across {name}'s {poolCount} yield pools is {medianApy} ({bucket}).",
+  P44_STABLE_POOL_SHARE:
+    "{stablePercent}% of the TVL in {name}'s yield pools is in stablecoin-only pools, and {volatilePercent}% in pools with volatile assets ({bucket}).",
 
   // Generic fallback - now more specific based on available data
   FALLBACK:
@@ -180,6 +226,40 @@ export const EXPLANATION_TEMPLATES: Record<string, string> = {
   // A/B Comparison Questions (Chain)
   FALLBACK_CHAIN_COMPARE_NEARBY:
     "{winner} has {winnerTvl} in TVL compared to {loser}'s {loserTvl}, a {marginPercent}% difference.",
+
+  // Bridge Net Flow Questions (Chain)
+  FALLBACK_CHAIN_BRIDGE_INFLOW_7D_ABOVE_10M:
+    "{name} had a {flowDirection} of {netFlow} through bridges over the past 7 days, which {comparison} the $10M threshold.",
+  FALLBACK_CHAIN_BRIDGE_OUTFLOW_7D_ABOVE_10M:
+    "{name} had a {flowDirection} of {netFlow} through bridges over the past 7 days, which {comparison} the $10M threshold.",
+  FALLBACK_CHAIN_BRIDGE_INFLOW_30D_ABOVE_50M:
+    "{name} had a {flowDirection} of {netFlow} through bridges over the past 30 days, which {comparison} the $50M threshold.",
+  FALLBACK_CHAIN_BRIDGE_OUTFLOW_30D_ABOVE_50M:
+    "{name} had a {flowDirection} of {netFlow} through bridges over the past 30 days, which {comparison} the $50M threshold.",
+
+  // Category TVL Threshold Questions
+  FALLBACK_CATEGORY_TVL_ABOVE_1B:
+    "The {name} category has {tvl} in TVL, which is {comparison} the $1B threshold.",
+  FALLBACK_CATEGORY_TVL_ABOVE_5B:
+    "The {name} category has {tvl} in TVL, which is {comparison} the $5B threshold.",
+  FALLBACK_CATEGORY_TVL_ABOVE_10B:
+    "The {name} category has {tvl} in TVL, which is {comparison} the $10B threshold.",
+
+  // Trend Questions (Category)
+  FALLBACK_CATEGORY_TVL_INCREASED_7D:
+    "{name} TVL {direction} by {change} over the past 7 days, reaching {tvl}.",
+  FALLBACK_CATEGORY_TVL_DECREASED_7D:
+    "{name} TVL {direction} by {change} over the past 7 days, reaching {tvl}.",
+
+  // Rank Questions (Category)
+  FALLBACK_CATEGORY_RANK_TOP_5:
+    "{name} is ranked #{rank} by TVL, which is {comparison} the top 5 categories.",
+  FALLBACK_CATEGORY_RANK_TOP_10:
+    "{name} is ranked #{rank} by TVL, which is {comparison} the top 10 categories.",
+
+  // A/B Comparison Questions (Category)
+  FALLBACK_CATEGORY_COMPARE_NEARBY:
+    "{winner} has {winnerTvl} in TVL compared to {loser}'s {loserTvl}, a {marginPercent}% difference.",
 }
 
 // =============================================================================
@@ -293,9 +373,31 @@ export function generateSimpleFallback(
     C12_CATEGORY_DOMINANCE: "category TVL breakdown",
     C13_LAYER_TYPE: "layer 1 vs layer 2 classification",
     C14_TVL_DOMINANCE: "TVL dominance by top protocol",
+    C15_DOMINANT_STABLECOIN: "dominant stablecoin",
+    C16_STABLECOIN_SUPPLY_TREND: "stablecoin supply trend",
+    C17_STABLECOIN_SHARE: "stablecoin supply versus TVL",
+    C18_BRIDGE_NET_FLOW: "net bridge flows",
+    C19_BUSIEST_BRIDGE: "busiest connected bridge",
+    CAT1_FINGERPRINT: "category identification",
+    CAT2_CATEGORY_LEADER: "category leader",
+    CAT3_CONCENTRATION: "category TVL concentration",
+    CAT4_TOP_CHAIN: "top chain in the category",
+    CAT5_GROWTH_VS_CATEGORIES: "weekly growth versus other categories",
+    CAT6_TVL_COMPARISON: "category TVL comparison",
     P27_DERIVATIVES_RANKING: "derivatives protocol TVL ranking",
     P29_CATEGORY_GROWTH: "DeFi category TVL growth",
     P30_CHAIN_EXPANSION: "multi-chain deployment",
+    P34_RAISED_BAND: "disclosed funding total",
+    P35_LARGEST_ROUND_TIMING: "largest funding round",
+    P36_TVL_VS_RAISED: "TVL versus funding raised",
+    P37_MCAP_TVL_BUCKET: "market cap to TVL ratio",
+    P38_VOLUME_TVL_RATIO: "trading volume versus TVL",
+    P39_TOP_VOLUME_CHAIN: "top chain by DEX volume",
+    P40_VOLUME_TREND_30D: "30-day trading volume trend",
+    P41_DEX_VOLUME_RANK: "DEX volume ranking",
+    P42_TOP_YIELD_POOL: "largest yield pool",
+    P43_MEDIAN_APY_BAND: "median yield pool APY",
+    P44_STABLE_POOL_SHARE: "stablecoin yield pool share",
     // Quantitative fallback descriptions
     FALLBACK_PROTOCOL_TVL_ABOVE_100M: "TVL threshold check",
     FALLBACK_PROTOCOL_TVL_ABOVE_500M: "TVL threshold check",
@@ -326,6 +428,18 @@ export function generateSimpleFallback(
     FALLBACK_CHAIN_RANK_TOP_10: "chain TVL ranking",
     FALLBACK_CHAIN_RANK_TOP_20: "chain TVL ranking",
     FALLBACK_CHAIN_COMPARE_NEARBY: "chain TVL comparison",
+    FALLBACK_CHAIN_BRIDGE_INFLOW_7D_ABOVE_10M: "weekly bridge net flow",
+    FALLBACK_CHAIN_BRIDGE_OUTFLOW_7D_ABOVE_10M: "weekly bridge net flow",
+    FALLBACK_CHAIN_BRIDGE_INFLOW_30D_ABOVE_50M: "monthly bridge net flow",
+    FALLBACK_CHAIN_BRIDGE_OUTFLOW_30D_ABOVE_50M: "monthly bridge net flow",
+    FALLBACK_CATEGORY_TVL_ABOVE_1B: "category TVL threshold",
+    FALLBACK_CATEGORY_TVL_ABOVE_5B: "category TVL threshold",
+    FALLBACK_CATEGORY_TVL_ABOVE_10B: "category TVL threshold",
+    FALLBACK_CATEGORY_TVL_INCREASED_7D: "weekly category TVL trend",
+    FALLBACK_CATEGORY_TVL_DECREASED_7D: "weekly category TVL trend",
+    FALLBACK_CATEGORY_RANK_TOP_5: "category TVL ranking",
+    FALLBACK_CATEGORY_RANK_TOP_10: "category TVL ranking",
+    FALLBACK_CATEGORY_COMPARE_NEARBY: "category TVL comparison",
     FALLBACK_GENERIC: "DeFi metrics",
   }
 
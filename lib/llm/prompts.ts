@@ -0,0 +1,111 @@
+/**
+ * LLM Prompts
+ *
+ * System prompts and user prompt builders shared by all LLM providers.
+ */
+
+// =============================================================================
+// System Prompts
+// =============================================================================
+
+export const EXPLANATION_SYSTEM_PROMPT = `You write 1-2 sentence explanations for a daily DeFi quiz game. The player just answered a question and wants to LEARN something — not hear the answer restated in prose.
+
+CORE PRINCIPLE: Explain WHY or add context the player didn't have. Never just restate the answer.
+
+BAD: "Uniswap has $4.2B TVL across 12 chains, placing it in the $1B-$5B range."
+(The player already knows this — they just answered the question.)
+
+GOOD: "Uniswap's $4.2B is spread across 12 chains, with Ethereum and Arbitrum alone accounting for over 80% — a common pattern for early L1-native DEXs."
+(This adds insight about WHY the distribution looks this way.)
+
+RULES:
+- 1-2 sentences, factual, using the numbers provided
+- Explain the "so what" — why is this number interesting, what does it tell us about the protocol/chain?
+- Reference specific data points but don't just list them
+- Use "TVL" not "total value locked" (the player already knows the acronym)
+- For comparisons: explain what drives the difference, not just that a difference exists
+- Write in a direct, conversational tone — no corporate-speak
+
+NEVER DO:
+- Restate the answer ("X has $Y TVL, placing it in the Z range" — they JUST answered this)
+- End with filler ("highlighting its importance in the DeFi ecosystem", "indicating strong user engagement", "within the DeFi space")
+- Start with "The correct answer" or "According to data"
+- Say "total value locked (TVL)" — just say "TVL", the reader knows
+- Use "market cap" when referring to TVL data
+- Speculate on future performance
+- Use phrases like "This indicates", "This highlights", "This demonstrates"`
+
+/**
+ * Phrases the explanation system prompt forbids (matched case-insensitively)
+ * Explanations containing any of them are rejected.
+ */
+export const BANNED_EXPLANATION_PHRASES = [
+  "placing it in the",
+  "placing it within the",
+  "highlighting its importance",
+  "indicating strong user engagement",
+  "within the defi space",
+  "the correct answer",
+  "according to data",
+  "total value locked",
+  "this indicates",
+  "this highlights",
+  "this demonstrates",
+]
+
+export const REPHRASE_SYSTEM_PROMPT = `Rephrase the quiz question while keeping the exact same meaning.
+
+Rules:
+- Keep questions as questions and statements as statements (true/false prompts are statements)
+- Don't change any numbers, names, or the answer
+- Don't mention any answer choices the original doesn't mention
+- Add slight variety in word choice only
+- Keep the same difficulty level
+- Return only the rephrased prompt, nothing else`
+
+// =============================================================================
+// User Prompts
+// =============================================================================
+
+/**
+ * Build the user prompt for an explanation
+ *
+ * @param data - Structured data about the question and answer
+ * @param topicName - Name of the topic (protocol, chain, or category)
+ * @param templateId - Template ID for context
+ */
+export function buildExplanationPrompt(
+  data: Record<string, unknown>,
+  topicName: string,
+  templateId: string
+): string {
+  const dataStr = JSON.stringify(data, null, 2)
+
+  // Check if comparison data is available for MC questions
+  const hasComparison = "comparison" in data && typeof data.comparison === "string"
+  const comparisonHint = hasComparison
+    ? `\n\nIMPORTANT: Include brief context about the other choices. The "comparison" field shows the alternatives and their values - mention 1-2 of them to help explain why the correct answer stands out.`
+    : ""
+
+  return `Generate a 1-2 sentence explanation for a DeFi quiz answer.
+
+Topic: ${topicName}
+Template: ${templateId}
+Data:
+${dataStr}
+
+Write a concise explanation using the data above.${comparisonHint}`
+}
+
+/**
+ * Build the user prompt for a rephrasing
+ *
+ * @param basePrompt - Original question prompt
+ */
+export function buildRephrasePrompt(basePrompt: string): string {
+  return `Rephrase this quiz prompt:
+
+"${basePrompt}"
+
+Return only the rephrased prompt.`
+}
@@ -0,0 +1,238 @@
+/**
+ * LLM Providers
+ *
+ * Backends that turn prompts into text. Providers only talk to the model;
+ * skipping, response validation, and caching live in the LLM client.
+ *
+ * - openai: OpenAI API (default, gpt-4o-mini)
+ * - openai-compatible: Any OpenAI-compatible API at a base URL (self-hosted models)
+ * - stub: Deterministic text with no network calls (for tests)
+ */
+
+import OpenAI from "openai"
+import {
+  EXPLANATION_SYSTEM_PROMPT,
+  REPHRASE_SYSTEM_PROMPT,
+  buildExplanationPrompt,
+  buildRephrasePrompt,
+} from "./prompts"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LLMProviderName = "openai" | "openai-compatible" | "stub"
+
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = [
+  "openai",
+  "openai-compatible",
+  "stub",
+]
+
+export interface ExplanationRequest {
+  data: Record<string, unknown>
+  topicName: string
+  templateId: string
+}
+
+export interface RephraseRequest {
+  basePrompt: string
+  templateId: string
+}
+
+export interface LLMTokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMCompletion {
+  text: string
+  /** Token counts reported by the API (unset if it doesn't report them) */
+  usage?: LLMTokenUsage
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  /** Base URL for OpenAI-compatible APIs */
+  readonly baseUrl?: string
+  /** Whether outputs should be cached (false for reproducible stub output) */
+  readonly cacheable: boolean
+  /** Why the provider can't be called, or null if it's ready */
+  unavailableReason(): string | null
+  /** @throws Error on API failure (retries are up to the caller) */
+  generateExplanation(request: ExplanationRequest): Promise<LLMCompletion>
+  /** @throws Error on API failure (retries are up to the caller) */
+  rephrase(request: RephraseRequest): Promise<LLMCompletion>
+}
+
+export interface OpenAIProviderOptions {
+  model: string
+  apiKey?: string
+  /** API base URL (defaults to OpenAI) */
+  baseUrl?: string
+  timeoutMs: number
+}
+
+// =============================================================================
+// OpenAI
+// =============================================================================
+
+/**
+ * OpenAI chat completions provider
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = "openai"
+  readonly model: string
+  readonly baseUrl?: string
+  readonly cacheable = true
+  protected readonly options: OpenAIProviderOptions
+  private client: OpenAI | null = null
+
+  constructor(options: OpenAIProviderOptions) {
+    this.model = options.model
+    this.baseUrl = options.baseUrl
+    this.options = options
+  }
+
+  unavailableReason(): string | null {
+    return this.options.apiKey ? null : "OPENAI_API_KEY not set"
+  }
+
+  /**
+   * Get or create the OpenAI client
+   */
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.options.apiKey) {
+        throw new Error("OPENAI_API_KEY environment variable is not set")
+      }
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey,
+        baseURL: this.baseUrl,
+        timeout: this.options.timeoutMs,
+        // The LLM client retries with backoff, so the SDK shouldn't retry too
+        maxRetries: 0,
+      })
+    }
+    return this.client
+  }
+
+  async generateExplanation(request: ExplanationRequest): Promise<LLMCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: EXPLANATION_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: buildExplanationPrompt(request.data, request.topicName, request.templateId),
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 150,
+      top_p: 1,
+      frequency_penalty: 0,
+      presence_penalty: 0,
+    })
+
+    return toCompletion(response)
+  }
+
+  async rephrase(request: RephraseRequest): Promise<LLMCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: REPHRASE_SYSTEM_PROMPT },
+        { role: "user", content: buildRephrasePrompt(request.basePrompt) },
+      ],
+      temperature: 0.5,
+      max_tokens: 100,
+      top_p: 1,
+      frequency_penalty: 0.3,
+      presence_penalty: 0,
+    })
+
+    return toCompletion(response)
+  }
+}
+
+/**
+ * Convert a chat completion response to text and token usage
+ */
+function toCompletion(response: OpenAI.Chat.Completions.ChatCompletion): LLMCompletion {
+  return {
+    text: response.choices[0]?.message?.content?.trim() || "",
+    ...(response.usage
+      ? {
+          usage: {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          },
+        }
+      : {}),
+  }
+}
+
+// =============================================================================
+// OpenAI-Compatible
+// =============================================================================
+
+/**
+ * Provider for OpenAI-compatible APIs (vLLM, Ollama, LM Studio, ...)
+ * Self-hosted servers often don't check the API key, so it's optional.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = "openai-compatible"
+
+  constructor(options: OpenAIProviderOptions) {
+    super({ ...options, apiKey: options.apiKey || "not-needed" })
+  }
+
+  unavailableReason(): string | null {
+    if (!this.baseUrl) return "LLM_BASE_URL not set"
+    if (!this.model) return "LLM_MODEL not set"
+    return null
+  }
+}
+
+// =============================================================================
+// Stub
+// =============================================================================
+
+/**
+ * Phrase swaps for stub rephrasings (keep numbers, names, and choices intact)
+ */
+const STUB_REPHRASINGS: [RegExp, string][] = [
+  [/\bhas higher TVL than\b/, "holds more TVL than"],
+  [/\bover the past\b/, "in the past"],
+  [/\bmatches these clues\b/, "fits these clues"],
+]
+
+/**
+ * Deterministic provider for tests
+ * Same input, same output, with no network calls.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name: LLMProviderName = "stub"
+  readonly model = "stub"
+  readonly cacheable = false
+
+  unavailableReason(): string | null {
+    return null
+  }
+
+  async generateExplanation(request: ExplanationRequest): Promise<LLMCompletion> {
+    // Lowercase template ID so the fact-checker doesn't read it as an entity name
+    return {
+      text: `Stub explanation for ${request.topicName} (${request.templateId.toLowerCase()}).`,
+    }
+  }
+
+  async rephrase(request: RephraseRequest): Promise<LLMCompletion> {
+    const [pattern, replacement] =
+      STUB_REPHRASINGS.find(([p]) => p.test(request.basePrompt)) ?? []
+    return {
+      text: pattern ? request.basePrompt.replace(pattern, replacement!) : request.basePrompt,
+    }
+  }
+}
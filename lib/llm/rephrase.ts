@@ -0,0 +1,286 @@
+/**
+ * Rephrase Verification
+ *
+ * Checks that an LLM rephrasing of a question prompt keeps every fact the
+ * player needs: the same numbers, the same entity names in the same order,
+ * the same comparative and negation wording, and the same references to
+ * answer choices. Rephrasings that fail are discarded and the template
+ * prompt is used as-is.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RephraseCheck {
+  valid: boolean
+  /** Why the rephrasing was rejected */
+  reason?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Rephrasings longer than this multiple of the original are rejected */
+const MAX_LENGTH_RATIO = 2
+
+const MAGNITUDE_WORDS: Record<string, string> = {
+  thousand: "k",
+  million: "m",
+  billion: "b",
+  trillion: "t",
+  percent: "%",
+}
+
+/**
+ * Comparative and polarity words, mapped to a canonical form so tense changes
+ * ("grew" -> "has grown") pass but direction changes ("higher" -> "lower") don't
+ */
+const POLARITY_WORDS: Record<string, string> = {
+  higher: "higher",
+  highest: "highest",
+  lower: "lower",
+  lowest: "lowest",
+  greater: "greater",
+  larger: "larger",
+  largest: "largest",
+  bigger: "bigger",
+  biggest: "biggest",
+  smaller: "smaller",
+  smallest: "smallest",
+  more: "more",
+  most: "most",
+  less: "less",
+  fewer: "fewer",
+  least: "least",
+  above: "above",
+  below: "below",
+  exceed: "exceed",
+  exceeds: "exceed",
+  exceeded: "exceed",
+  grow: "grow",
+  grows: "grow",
+  grew: "grow",
+  grown: "grow",
+  growing: "grow",
+  growth: "grow",
+  shrink: "shrink",
+  shrinks: "shrink",
+  shrank: "shrink",
+  shrunk: "shrink",
+  shrinking: "shrink",
+  increase: "increase",
+  increases: "increase",
+  increased: "increase",
+  increasing: "increase",
+  decrease: "decrease",
+  decreases: "decrease",
+  decreased: "decrease",
+  decreasing: "decrease",
+  rise: "rise",
+  rises: "rise",
+  rose: "rise",
+  risen: "rise",
+  fall: "fall",
+  falls: "fall",
+  fell: "fall",
+  fallen: "fall",
+  drop: "drop",
+  drops: "drop",
+  dropped: "drop",
+  not: "not",
+  never: "never",
+  no: "no",
+  none: "none",
+  neither: "neither",
+  nor: "nor",
+  cannot: "not",
+}
+
+const NUMBER_PATTERN = /(\d+(?:[.,]\d+)*)\s*(thousand|million|billion|trillion|percent|[kmbt%](?![a-z]))?/gi
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}.'’-]*/gu
+const CHOICE_LETTER_PATTERN = /\b(?:option|choice|answer)\s+[a-f]\b|\([a-f]\)/gi
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+/**
+ * Extract numbers with their magnitude suffix (e.g., "$1.5B" -> "1.5b")
+ * Written-out magnitudes are normalized ("1.5 billion" -> "1.5b").
+ */
+function extractNumbers(text: string): string[] {
+  const numbers: string[] = []
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const value = match[1].replace(/,/g, "")
+    const suffix = (match[2] ?? "").toLowerCase()
+    numbers.push(value + (MAGNITUDE_WORDS[suffix] ?? suffix))
+  }
+  return numbers.sort()
+}
+
+/**
+ * Normalize a word for comparison (lowercase, no possessive or trailing dot)
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/['’]s$/, "").replace(/[.'’-]+$/, "")
+}
+
+/**
+ * Extract capitalized words that aren't the first word of a sentence
+ * These are entity names (protocols, chains, categories) and acronyms like TVL.
+ */
+function extractNames(text: string): string[] {
+  const names: string[] = []
+  for (const sentence of text.split(/(?<=[.?!:])\s+/)) {
+    const words = sentence.match(WORD_PATTERN) ?? []
+    for (const word of words.slice(1)) {
+      if (/^\p{Lu}/u.test(word)) names.push(normalizeWord(word))
+    }
+  }
+  return names
+}
+
+/**
+ * Extract comparative and polarity words in canonical form ("didn't" -> "not")
+ */
+function extractPolarity(text: string): string[] {
+  const words: string[] = []
+  for (const word of text.match(WORD_PATTERN) ?? []) {
+    const normalized = normalizeWord(word)
+    if (/n['’]t$/.test(normalized)) {
+      words.push("not")
+    } else if (normalized in POLARITY_WORDS) {
+      words.push(POLARITY_WORDS[normalized])
+    }
+  }
+  return words.sort()
+}
+
+/**
+ * Order names and references by where they first appear in the text
+ * Ties (a reference and a name starting at the same word) are broken by key,
+ * so both texts order them the same way.
+ */
+function orderOfAppearance(text: string, names: string[], references: string[]): string[] {
+  const positions = new Map<string, number>()
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalizeWord(match[0])
+    if (names.includes(word) && !positions.has(word)) {
+      positions.set(word, match.index ?? 0)
+    }
+  }
+  for (const reference of references) {
+    const position = text.toLowerCase().indexOf(reference.toLowerCase())
+    if (position >= 0) positions.set(reference.toLowerCase(), position)
+  }
+  return [...positions.entries()]
+    .sort(([a, posA], [b, posB]) => posA - posB || a.localeCompare(b))
+    .map(([key]) => key)
+}
+
+function extractWords(text: string): Set<string> {
+  return new Set((text.match(WORD_PATTERN) ?? []).map(normalizeWord))
+}
+
+function includesPhrase(text: string, phrase: string): boolean {
+  return text.toLowerCase().includes(phrase.toLowerCase())
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify that a rephrased prompt keeps the facts of the original
+ *
+ * @param original - Template prompt
+ * @param rephrased - LLM rephrasing
+ * @param references - Entity names and choices the prompt may mention
+ *   (topic name, choices, ranking items)
+ * @returns Whether the rephrasing can replace the original
+ */
+export function verifyRephrase(
+  original: string,
+  rephrased: string,
+  references: string[] = []
+): RephraseCheck {
+  if (!rephrased.trim()) {
+    return { valid: false, reason: "empty rephrasing" }
+  }
+
+  if (rephrased.length > original.length * MAX_LENGTH_RATIO) {
+    return { valid: false, reason: "rephrasing too long" }
+  }
+
+  // True/false prompts are statements; turning them into questions breaks the format
+  if (original.trim().endsWith("?") !== rephrased.trim().endsWith("?")) {
+    return { valid: false, reason: "question/statement form changed" }
+  }
+
+  const originalNumbers = extractNumbers(original)
+  const rephrasedNumbers = extractNumbers(rephrased)
+  if (originalNumbers.join(" ") !== rephrasedNumbers.join(" ")) {
+    return {
+      valid: false,
+      reason: `numbers changed: [${originalNumbers.join(", ")}] -> [${rephrasedNumbers.join(", ")}]`,
+    }
+  }
+
+  // Every reference in the original must survive, and none may be added
+  // (an added choice name could give the answer away)
+  for (const reference of references) {
+    if (!reference) continue
+    const inOriginal = includesPhrase(original, reference)
+    if (inOriginal !== includesPhrase(rephrased, reference)) {
+      return {
+        valid: false,
+        reason: `${inOriginal ? "dropped" : "added"} reference "${reference}"`,
+      }
+    }
+  }
+
+  const originalWords = extractWords(original)
+  const rephrasedWords = extractWords(rephrased)
+  for (const name of extractNames(original)) {
+    if (!rephrasedWords.has(name)) {
+      return { valid: false, reason: `dropped name "${name}"` }
+    }
+  }
+  for (const name of extractNames(rephrased)) {
+    if (!originalWords.has(name)) {
+      return { valid: false, reason: `added name "${name}"` }
+    }
+  }
+
+  // Swapping who is compared with whom flips the answer
+  // ("Aave has higher TVL than Compound" vs "Compound has higher TVL than Aave")
+  const tracked = [...new Set([...extractNames(original), ...extractNames(rephrased)])]
+  const presentReferences = references.filter((reference) => reference && includesPhrase(original, reference))
+  const originalOrder = orderOfAppearance(original, tracked, presentReferences)
+  const rephrasedOrder = orderOfAppearance(rephrased, tracked, presentReferences)
+  if (originalOrder.join("|") !== rephrasedOrder.join("|")) {
+    return {
+      valid: false,
+      reason: `names reordered: [${originalOrder.join(", ")}] -> [${rephrasedOrder.join(", ")}]`,
+    }
+  }
+
+  const originalPolarity = extractPolarity(original)
+  const rephrasedPolarity = extractPolarity(rephrased)
+  if (originalPolarity.join(" ") !== rephrasedPolarity.join(" ")) {
+    return {
+      valid: false,
+      reason: `comparative or polarity wording changed: [${originalPolarity.join(", ")}] -> [${rephrasedPolarity.join(", ")}]`,
+    }
+  }
+
+  const originalLetters = original.match(CHOICE_LETTER_PATTERN)?.length ?? 0
+  const rephrasedLetters = rephrased.match(CHOICE_LETTER_PATTERN)?.length ?? 0
+  if (originalLetters !== rephrasedLetters) {
+    return { valid: false, reason: "choice letter references changed" }
+  }
+
+  return { valid: true }
+}
@@ -2,25 +2,37 @@
  * Text Generation Integration
  *
  * Integrates LLM client, caching, and fallbacks to generate
- * explanations for quiz questions.
+ * explanations for quiz questions, and optionally rephrase their prompts.
  */
 
-import type { QuestionDraft, Question, TemplateContext } from "@/lib/types/episode"
+import type {
+  BuildLogEntry,
+  QuestionDraft,
+  Question,
+  TemplateContext,
+} from "@/lib/types/episode"
 import {
   generateExplanation,
+  rephrasePrompt,
   isLLMAvailable,
+  isLLMSkipped,
   getLLMConfig,
+  getLLMModelKey,
 } from "./client"
 import {
   getCached,
   setCache,
+  setCacheEntries,
   getLLMCacheKey,
   hashData,
+  type LLMCacheWrite,
 } from "./cache"
 import {
   generateFallbackExplanation,
   generateSimpleFallback,
 } from "./fallbacks"
+import { verifyRephrase } from "./rephrase"
+import { BANNED_EXPLANATION_PHRASES } from "./prompts"
 import { computeDifficulty, estimateTarget } from "@/lib/generation/difficulty"
 
 // =============================================================================
@@ -34,6 +46,12 @@ export interface TextGenerationOptions {
   skipCache?: boolean
   /** Enable verbose logging */
   verbose?: boolean
+  /** Rephrase question prompts for variety (verified rephrasings only) */
+  rephrase?: boolean
+  /** Episode build log for rejected rephrasings and fact-check fallbacks */
+  buildLog?: BuildLogEntry[]
+  /** Collects cache writes for one batched write (written immediately if unset) */
+  cacheWrites?: LLMCacheWrite[]
 }
 
 export interface TextGenerationResult {
@@ -41,6 +59,221 @@ export interface TextGenerationResult {
   llmFallback: boolean
   source: "cache" | "llm" | "fallback"
   error?: string
+  /** Why an LLM explanation was rejected by the fact-checker (before falling back) */
+  factCheckError?: string
+}
+
+export interface FactCheckResult {
+  valid: boolean
+  /** First problem found (hallucinated figure, month, or name, or a banned phrase) */
+  reason?: string
+}
+
+export interface PromptGenerationResult {
+  prompt: string
+  source: "cache" | "llm" | "original"
+  /** LLM or network failure that kept the original prompt */
+  error?: string
+  /** Why the verifier rejected the rephrasing */
+  rejection?: string
+}
+
+// =============================================================================
+// Fact Checking
+// =============================================================================
+
+/** Relative tolerance for approximate figures ("over 80%" for 83%) */
+const FACT_TOLERANCE = 0.05
+
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  trillion: 1e12,
+}
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+]
+
+// A number not glued to a word (skips "L2", "P1_FINGERPRINT"), with an optional magnitude
+const FACT_NUMBER_PATTERN =
+  /(?<![\p{L}\d_.])\$?(\d+(?:,\d{3})*(?:\.\d+)?)(?:\s*(thousand|million|billion|trillion|[kmbt](?![\p{L}])))?/giu
+
+// Time windows and thresholds that come from the question wording, not the data
+const CONTEXT_BEFORE = /\b(?:top|layer)\s*$/i
+const CONTEXT_AFTER = /^(?:st|nd|rd|th)?[\s-]*(?:h\b|d\b|hours?|days?|weeks?|months?|years?)/i
+
+const FACT_WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’.-]*/gu
+
+// Capitalized words that are vocabulary rather than entity names
+const COMMON_NAMES = new Set(["defi", "cefi", "tradfi", "web3", "layer", "i"])
+
+interface NumericFact {
+  value: number
+  /** Half of the last stated digit (e.g., 0.05e9 for "$4.2B") */
+  precision: number
+  /** Bare four-digit year, compared exactly */
+  isYear: boolean
+  /** Multiple like "13x" or "3 times", compared against ratios of data values */
+  isMultiple: boolean
+}
+
+/**
+ * Extract numbers from text, skipping time windows and thresholds from the question wording
+ */
+function extractNumericFacts(text: string, skipContext: boolean): NumericFact[] {
+  const facts: NumericFact[] = []
+  for (const match of text.matchAll(FACT_NUMBER_PATTERN)) {
+    const index = match.index ?? 0
+    if (
+      skipContext &&
+      (CONTEXT_BEFORE.test(text.slice(0, index)) ||
+        CONTEXT_AFTER.test(text.slice(index + match[0].length)))
+    ) {
+      continue
+    }
+
+    const after = text.slice(index + match[0].length)
+    const digits = match[1].replace(/,/g, "")
+    const magnitude = MAGNITUDES[(match[2] ?? "").toLowerCase()] ?? 1
+    const decimals = digits.split(".")[1]?.length ?? 0
+    const value = parseFloat(digits) * magnitude
+    facts.push({
+      value,
+      precision: 0.5 * Math.pow(10, -decimals) * magnitude,
+      isYear: magnitude === 1 && decimals === 0 && value >= 1900 && value <= 2100,
+      isMultiple: /^\s*(?:x\b|times\b)/i.test(after),
+    })
+  }
+  return facts
+}
+
+/**
+ * Extract month indices (0-11) from full or three-letter month names and YYYY-MM strings
+ */
+function extractMonths(text: string): Set<number> {
+  const months = new Set<number>()
+  for (const word of text.toLowerCase().match(/\b[a-z]{3,9}\b/g) ?? []) {
+    const index = MONTH_NAMES.findIndex((m) => word === m || (word.length === 3 && m.startsWith(word)))
+    if (index !== -1) months.add(index)
+  }
+  for (const match of text.matchAll(/\b\d{4}-(\d{2})\b/g)) {
+    months.add(parseInt(match[1], 10) - 1)
+  }
+  return months
+}
+
+/**
+ * Flatten explainData values into text (numbers, strings, arrays, nested objects)
+ */
+function flattenFacts(value: unknown): string[] {
+  if (value === null || value === undefined) return []
+  if (typeof value === "string") return [value]
+  if (typeof value === "number" || typeof value === "boolean") return [String(value)]
+  if (Array.isArray(value)) return value.flatMap(flattenFacts)
+  if (typeof value === "object") return Object.values(value).flatMap(flattenFacts)
+  return []
+}
+
+/**
+ * Collect the numbers an explanation may cite from explainData
+ * Raw fractions also allow their percentage (0.83 -> 83%).
+ */
+function collectAllowedNumbers(data: Record<string, unknown>, references: string[]): number[] {
+  const allowed: number[] = []
+  const collect = (value: unknown): void => {
+    if (typeof value === "number" && isFinite(value)) {
+      allowed.push(value)
+      if (Math.abs(value) <= 1) allowed.push(value * 100)
+    } else if (typeof value === "string") {
+      allowed.push(...extractNumericFacts(value, false).map((f) => f.value))
+    } else if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(collect)
+    }
+  }
+  collect(data)
+  references.forEach(collect)
+  return allowed
+}
+
+function normalizeName(word: string): string {
+  return word.toLowerCase().replace(/['’]s$/, "").replace(/[.'’-]+$/, "")
+}
+
+/**
+ * Fact-check an LLM explanation against the question's explainData
+ *
+ * Rejects explanations that contain a banned phrase from the system prompt, or
+ * cite a number, month, or entity name that isn't in explainData or the
+ * question. Numbers match within rounding of the stated precision or 5%.
+ *
+ * @param text - LLM explanation
+ * @param explainData - Structured data the explanation was generated from
+ * @param references - Other known facts (topic name, prompt, clues, choices)
+ */
+export function checkExplanationFacts(
+  text: string,
+  explainData: Record<string, unknown>,
+  references: string[] = []
+): FactCheckResult {
+  const lowerText = text.toLowerCase()
+  const banned = BANNED_EXPLANATION_PHRASES.find((phrase) => lowerText.includes(phrase))
+  if (banned) {
+    return { valid: false, reason: `banned phrase "${banned}"` }
+  }
+
+  const factText = [...flattenFacts(explainData), ...references].join(" ")
+
+  const allowedNumbers = collectAllowedNumbers(explainData, references)
+  const isClose = (value: number, allowed: number, precision: number): boolean =>
+    Math.abs(allowed - value) <= Math.max(precision, FACT_TOLERANCE * Math.abs(allowed))
+
+  for (const fact of extractNumericFacts(text, true)) {
+    const matches = fact.isMultiple
+      ? allowedNumbers.some((a) =>
+          allowedNumbers.some((b) => b > 0 && isClose(fact.value, a / b, fact.precision))
+        )
+      : allowedNumbers.some((allowed) =>
+          fact.isYear ? allowed === fact.value : isClose(fact.value, allowed, fact.precision)
+        )
+    if (!matches) {
+      return { valid: false, reason: `unsupported figure ${fact.value}` }
+    }
+  }
+
+  // Lowercase "may" is the verb, not the month
+  const allowedMonths = extractMonths(factText)
+  for (const month of extractMonths(text.replace(/\bmay\b/g, ""))) {
+    if (!allowedMonths.has(month)) {
+      return { valid: false, reason: `unsupported month ${MONTH_NAMES[month]}` }
+    }
+  }
+
+  // Entity names: capitalized words after the start of a sentence
+  const allowedWords = new Set((factText.match(FACT_WORD_PATTERN) ?? []).map(normalizeName))
+  for (const sentence of text.split(/(?<=[.?!:;])\s+/)) {
+    const words = sentence.match(FACT_WORD_PATTERN) ?? []
+    for (const word of words.slice(1)) {
+      if (!/^\p{Lu}/u.test(word)) continue
+      const name = normalizeName(word)
+      // Acronyms (TVL, DEXs, APY) and month names are vocabulary, not entities
+      if (/^\p{Lu}{2,5}s?$/u.test(word.replace(/['’]s$/, "")) || COMMON_NAMES.has(name)) continue
+      if (MONTH_NAMES.some((m) => name === m || (name.length === 3 && m.startsWith(name)))) continue
+      if (!allowedWords.has(name)) {
+        return { valid: false, reason: `unsupported name "${word}"` }
+      }
+    }
+  }
+
+  return { valid: true }
 }
 
 // =============================================================================
@@ -53,8 +286,9 @@ export interface TextGenerationResult {
  * This function:
  * 1. Checks cache for existing explanation
  * 2. Calls LLM if not cached and available
- * 3. Falls back to template if LLM fails
- * 4. Caches successful LLM results
+ * 3. Fact-checks LLM text against explainData
+ * 4. Falls back to template if LLM fails or the fact-check fails
+ * 5. Caches checked LLM results
  */
 export async function generateQuestionExplanation(
   draft: QuestionDraft,
@@ -62,7 +296,14 @@ export async function generateQuestionExplanation(
   slot: string,
   options: TextGenerationOptions = {}
 ): Promise<TextGenerationResult> {
-  const { skipLLM = false, skipCache = false, verbose = false } = options
+  const { verbose = false } = options
+  if (!usesLLM(options)) {
+    return getFallbackExplanation(draft, ctx, slot, verbose)
+  }
+
+  // Providers with reproducible output (the stub) bypass the cache
+  const { cacheable } = getLLMConfig()
+  const skipCache = options.skipCache || !cacheable
 
   // Build cache key components
   const dataHash = hashData(draft.explainData as Record<string, unknown>)
@@ -73,26 +314,46 @@ export async function generateQuestionExplanation(
     slot,
     draft.templateId,
     "explanation",
-    dataHash
+    dataHash,
+    getLLMModelKey()
   )
 
+  // Facts the explanation may mention: explainData plus the question itself
+  const references = [
+    ctx.topic.name,
+    draft.prompt,
+    ...(draft.clues ?? []),
+    ...(draft.choices ?? []),
+    ...(draft.answerOrder ?? []),
+  ]
+  let factCheckError: string | undefined
+
   // 1. Check cache first (unless skipCache)
   if (!skipCache) {
     const cached = await getCached(ctx.date, cacheKey)
     if (cached) {
-      if (verbose) {
-        console.log(`  [${slot}] Cache hit for ${draft.templateId}`)
+      // Entries cached before fact-checking are checked too; failures are regenerated
+      const check = checkExplanationFacts(cached.text, draft.explainData, references)
+      if (check.valid) {
+        if (verbose) {
+          console.log(`  [${slot}] Cache hit for ${draft.templateId}`)
+        }
+        return {
+          explanation: cached.text,
+          llmFallback: false,
+          source: "cache",
+        }
       }
-      return {
-        explanation: cached.text,
-        llmFallback: false,
-        source: "cache",
+
+      factCheckError = `cached: ${check.reason}`
+      if (verbose) {
+        console.log(`  [${slot}] Cached explanation failed fact-check: ${check.reason}`)
       }
     }
   }
 
   // 2. Try LLM if available
-  if (!skipLLM && isLLMAvailable()) {
+  if (isLLMAvailable()) {
     if (verbose) {
       console.log(`  [${slot}] Calling LLM for ${draft.templateId}...`)
     }
@@ -103,9 +364,15 @@ export async function generateQuestionExplanation(
       draft.templateId
     )
 
-    if (result.success && result.text) {
-      // Cache the successful result
-      await setCache(ctx.date, cacheKey, result.text, result.model)
+    const check = result.success && result.text
+      ? checkExplanationFacts(result.text, draft.explainData, references)
+      : null
+
+    if (check?.valid) {
+      // Cache the checked result
+      if (cacheable) {
+        await writeCache(ctx.date, { key: cacheKey, text: result.text, model: result.model }, options)
+      }
 
       if (verbose) {
         console.log(`  [${slot}] LLM success: "${result.text.slice(0, 50)}..."`)
@@ -118,13 +385,33 @@ export async function generateQuestionExplanation(
       }
     }
 
-    // LLM failed - log and continue to fallback
-    if (verbose) {
+    if (check) {
+      // Hallucinated figure or banned phrase - don't cache, fall back
+      factCheckError = check.reason
+      if (verbose) {
+        console.log(`  [${slot}] LLM explanation failed fact-check: ${check.reason}`)
+      }
+    } else if (verbose) {
+      // LLM failed - log and continue to fallback
       console.log(`  [${slot}] LLM failed: ${result.error}`)
     }
   }
 
   // 3. Fall back to template-based explanation
+  return getFallbackExplanation(draft, ctx, slot, verbose, factCheckError)
+}
+
+/**
+ * Build the template-based explanation for a question
+ * Falls back further to a generic sentence when the template data is incomplete.
+ */
+function getFallbackExplanation(
+  draft: QuestionDraft,
+  ctx: TemplateContext,
+  slot: string,
+  verbose: boolean,
+  factCheckError?: string
+): TextGenerationResult {
   if (verbose) {
     console.log(`  [${slot}] Using fallback for ${draft.templateId}`)
   }
@@ -147,6 +434,7 @@ export async function generateQuestionExplanation(
       llmFallback: true,
       source: "fallback",
       error: "Template data incomplete",
+      ...(factCheckError ? { factCheckError } : {}),
     }
   }
 
@@ -154,6 +442,173 @@ export async function generateQuestionExplanation(
     explanation: fallbackText,
     llmFallback: true,
     source: "fallback",
+    ...(factCheckError ? { factCheckError } : {}),
+  }
+}
+
+/**
+ * Rephrase the prompt for a single question
+ *
+ * This function:
+ * 1. Checks cache for an existing rephrasing
+ * 2. Calls LLM if not cached and available
+ * 3. Verifies the rephrasing keeps every number, name, and choice reference
+ * 4. Caches verified LLM results
+ *
+ * The original prompt is returned whenever any step fails.
+ */
+export async function generateQuestionPrompt(
+  draft: QuestionDraft,
+  ctx: TemplateContext,
+  slot: string,
+  options: TextGenerationOptions = {}
+): Promise<PromptGenerationResult> {
+  const { verbose = false } = options
+  const original: PromptGenerationResult = { prompt: draft.prompt, source: "original" }
+  if (!usesLLM(options)) {
+    return original
+  }
+
+  const { cacheable } = getLLMConfig()
+  const skipCache = options.skipCache || !cacheable
+
+  // Names the prompt may mention: a rephrasing must keep or omit each one exactly as the original does
+  const references = [
+    ctx.topic.name,
+    ...(draft.format === "tf" ? [] : draft.choices ?? []),
+    ...(draft.answerOrder ?? []),
+  ]
+
+  const dataHash = hashData({ prompt: draft.prompt, choices: draft.choices ?? null })
+  const cacheKey = getLLMCacheKey(
+    ctx.date,
+    ctx.episodeType,
+    ctx.topic.slug,
+    slot,
+    draft.templateId,
+    "rephrase",
+    dataHash,
+    getLLMModelKey()
+  )
+
+  // 1. Check cache first (unless skipCache)
+  if (!skipCache) {
+    const cached = await getCached(ctx.date, cacheKey)
+    // Re-verify so rephrasings cached before a verifier change can't slip through
+    if (cached && verifyRephrase(draft.prompt, cached.text, references).valid) {
+      if (verbose) {
+        console.log(`  [${slot}] Rephrase cache hit for ${draft.templateId}`)
+      }
+      return { prompt: cached.text, source: "cache" }
+    }
+  }
+
+  // 2. Try LLM if available
+  if (!isLLMAvailable()) {
+    return original
+  }
+
+  const result = await rephrasePrompt(draft.prompt, draft.templateId)
+  if (!result.success) {
+    if (verbose) {
+      console.log(`  [${slot}] Rephrase failed: ${result.error}`)
+    }
+    return { ...original, error: result.error }
+  }
+
+  // 3. Verify the rephrasing (models sometimes wrap it in quotes)
+  const rephrased = result.text.replace(/^["“]|["”]$/g, "").trim()
+  if (rephrased === draft.prompt) {
+    return original
+  }
+
+  const check = verifyRephrase(draft.prompt, rephrased, references)
+  if (!check.valid) {
+    if (verbose) {
+      console.log(`  [${slot}] Rephrase rejected: ${check.reason}`)
+    }
+    return { ...original, rejection: check.reason }
+  }
+
+  // 4. Cache the verified result
+  if (cacheable) {
+    await writeCache(ctx.date, { key: cacheKey, text: rephrased, model: result.model }, options)
+  }
+
+  if (verbose) {
+    console.log(`  [${slot}] Rephrased: "${rephrased}"`)
+  }
+
+  return { prompt: rephrased, source: "llm" }
+}
+
+/**
+ * Generate the explanation (and optionally rephrased prompt) for one question
+ */
+async function generateQuestionText(
+  draft: QuestionDraft,
+  slot: string,
+  index: number,
+  ctx: TemplateContext,
+  options: TextGenerationOptions
+): Promise<Question> {
+  const result = await generateQuestionExplanation(draft, ctx, slot, options)
+  if (result.source === "fallback" && result.factCheckError) {
+    options.buildLog?.push({
+      slot,
+      template: draft.templateId,
+      decision: "fallback",
+      reason: "explanation_fact_check",
+      detail: result.factCheckError,
+    })
+  }
+
+  let prompt = draft.prompt
+  if (options.rephrase) {
+    const rephrased = await generateQuestionPrompt(draft, ctx, slot, options)
+    prompt = rephrased.prompt
+    if (rephrased.error) {
+      options.buildLog?.push({
+        slot,
+        template: draft.templateId,
+        decision: "fallback",
+        reason: "rephrase_failed",
+        detail: rephrased.error,
+      })
+    } else if (rephrased.rejection) {
+      options.buildLog?.push({
+        slot,
+        template: draft.templateId,
+        decision: "reject",
+        reason: "rephrase_rejected",
+        detail: rephrased.rejection,
+      })
+    }
+  }
+
+  // Compute actual difficulty from signals, not from slot target
+  const difficultyScore = computeDifficulty(draft.signals)
+  const actualDifficulty = estimateTarget(difficultyScore)
+
+  return {
+    qid: `q${index + 1}`,
+    slot,
+    templateId: draft.templateId,
+    format: draft.format,
+    prompt,
+    // Keep the template prompt for auditing when it was rephrased
+    ...(prompt !== draft.prompt ? { originalPrompt: draft.prompt } : {}),
+    clues: draft.clues,
+    choices: draft.choices,
+    answerIndex: draft.answerIndex,
+    answerValue: draft.answerValue,
+    answerOrder: draft.answerOrder,
+    orderedChoices: draft.orderedChoices,
+    acceptedAnswers: draft.acceptedAnswers,
+    explanation: result.explanation,
+    difficulty: actualDifficulty, // Now based on actual score, not slot target
+    llmFallback: result.llmFallback,
+    signals: draft.signals,
   }
 }
 
@@ -172,14 +627,19 @@ export async function generateAllQuestionText(
   options: TextGenerationOptions = {}
 ): Promise<Question[]> {
   const { verbose = false } = options
+  const useLLM = usesLLM(options)
 
-  if (verbose) {
+  if (verbose && useLLM) {
     const config = getLLMConfig()
     console.log("\nLLM Configuration:")
+    console.log(`  Provider: ${config.provider}`)
     console.log(`  Model: ${config.model}`)
+    if (config.baseUrl) {
+      console.log(`  Base URL: ${config.baseUrl}`)
+    }
     console.log(`  Timeout: ${config.timeoutMs}ms`)
     console.log(`  Max retries: ${config.maxRetries}`)
-    console.log(`  Skip LLM: ${config.skipLLM}`)
+    console.log(`  Concurrency: ${config.concurrency}`)
     console.log(`  Has API key: ${config.hasApiKey}`)
     console.log()
   }
@@ -188,36 +648,29 @@ export async function generateAllQuestionText(
     console.log("Generating explanations...")
   }
 
-  const questions: Question[] = []
-
-  for (let i = 0; i < drafts.length; i++) {
-    const draft = drafts[i]
-    const slot = slots[i]
-
-    const result = await generateQuestionExplanation(draft, ctx, slot, options)
-
-    // Compute actual difficulty from signals, not from slot target
-    const difficultyScore = computeDifficulty(draft.signals)
-    const actualDifficulty = estimateTarget(difficultyScore)
-    
-    const question: Question = {
-      qid: `q${i + 1}`,
-      slot,
-      templateId: draft.templateId,
-      format: draft.format,
-      prompt: draft.prompt,
-      clues: draft.clues,
-      choices: draft.choices,
-      answerIndex: draft.answerIndex,
-      answerValue: draft.answerValue,
-      answerOrder: draft.answerOrder,
-      explanation: result.explanation,
-      difficulty: actualDifficulty, // Now based on actual score, not slot target
-      llmFallback: result.llmFallback,
-      signals: draft.signals,
-    }
-
-    questions.push(question)
+  // Questions run concurrently; logs and cache writes are collected per question
+  // and applied in slot order so output doesn't depend on response timing
+  const concurrency = useLLM ? getLLMConfig().concurrency : 1
+  const results = await mapWithConcurrency(drafts, concurrency, async (draft, i) => {
+    const buildLog: BuildLogEntry[] = []
+    const cacheWrites: LLMCacheWrite[] = []
+    const question = await generateQuestionText(draft, slots[i], i, ctx, {
+      ...options,
+      buildLog,
+      cacheWrites,
+    })
+    return { question, buildLog, cacheWrites }
+  })
+
+  const questions = results.map((r) => r.question)
+  options.buildLog?.push(...results.flatMap((r) => r.buildLog))
+
+  // One cache file write per episode
+  const cacheWrites = results.flatMap((r) => r.cacheWrites)
+  if (options.cacheWrites) {
+    options.cacheWrites.push(...cacheWrites)
+  } else {
+    await setCacheEntries(ctx.date, cacheWrites)
   }
 
   // Log summary
@@ -234,6 +687,10 @@ export async function generateAllQuestionText(
     console.log(`  Cache hits: ${cacheHits}`)
     console.log(`  LLM generated: ${llmGenerated - cacheHits}`)
     console.log(`  Fallbacks used: ${fallbacks}`)
+    if (options.rephrase) {
+      const rephrased = questions.filter((q) => q.originalPrompt).length
+      console.log(`  Prompts rephrased: ${rephrased}/${questions.length}`)
+    }
   }
 
   return questions
@@ -243,21 +700,72 @@ export async function generateAllQuestionText(
 // Helpers
 // =============================================================================
 
+/**
+ * Whether text generation may call the LLM
+ * Skipped runs never resolve the provider (so a bad LLM_PROVIDER can't fail
+ * them) and have no model to key cached text by, so they use fallbacks only.
+ */
+function usesLLM(options: TextGenerationOptions): boolean {
+  return !options.skipLLM && !isLLMSkipped()
+}
+
+/**
+ * Store a cache entry, or queue it when the caller batches writes
+ */
+async function writeCache(
+  date: string,
+  write: LLMCacheWrite,
+  options: TextGenerationOptions
+): Promise<void> {
+  if (options.cacheWrites) {
+    options.cacheWrites.push(write)
+  } else {
+    await setCache(date, write.key, write.text, write.model)
+  }
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping results in input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
 /**
  * Check if LLM is configured and ready
+ *
+ * @param skipLLM - Whether the caller skips LLM calls (e.g., --skip-llm)
  */
-export function checkLLMReady(): {
+export function checkLLMReady(skipLLM = false): {
   ready: boolean
   reason?: string
 } {
-  const config = getLLMConfig()
-
-  if (config.skipLLM) {
+  if (isLLMSkipped()) {
     return { ready: false, reason: "SKIP_LLM is enabled" }
   }
 
-  if (!config.hasApiKey) {
-    return { ready: false, reason: "OPENAI_API_KEY not set" }
+  if (skipLLM) {
+    return { ready: false, reason: "LLM calls skipped" }
+  }
+
+  const config = getLLMConfig()
+  if (config.unavailableReason) {
+    return { ready: false, reason: config.unavailableReason }
   }
 
   return { ready: true }
@@ -7,13 +7,14 @@
 
 import * as fs from "fs/promises"
 import * as path from "path"
-import type { Episode } from "@/lib/types/episode"
+import type { Episode, EpisodeIndex } from "@/lib/types/episode"
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
 const EPISODES_DIR = path.join(process.cwd(), "public", "episodes")
+const EPISODE_INDEX_PATH = path.join(EPISODES_DIR, "index.json")
 
 // =============================================================================
 // Path Utilities
@@ -195,6 +196,47 @@ export async function listAllEpisodeDates(): Promise<string[]> {
   }
 }
 
+/**
+ * Build the episode index from all stored episodes
+ */
+export async function buildEpisodeIndex(): Promise<EpisodeIndex> {
+  const dates = await listAllEpisodeDates()
+  const episodes: EpisodeIndex["episodes"] = []
+
+  for (const date of dates) {
+    const episode = await loadEpisode(date)
+    if (!episode) {
+      console.warn(`Could not load episode for ${date}, skipping from index`)
+      continue
+    }
+    episodes.push({
+      dateUtc: episode.dateUtc,
+      episodeType: episode.episodeType,
+      questionCount: episode.questions.length,
+    })
+  }
+
+  return {
+    episodes,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Rebuild and write the episode index manifest
+ *
+ * @returns Path where the index was saved and the number of episodes
+ */
+export async function writeEpisodeIndex(): Promise<{
+  filePath: string
+  count: number
+}> {
+  const index = await buildEpisodeIndex()
+  await fs.mkdir(EPISODES_DIR, { recursive: true })
+  await fs.writeFile(EPISODE_INDEX_PATH, JSON.stringify(index, null, 2), "utf-8")
+  return { filePath: EPISODE_INDEX_PATH, count: index.episodes.length }
+}
+
 /**
  * Get storage statistics
  */
@@ -64,7 +64,9 @@ export interface ProtocolDetail {
   mcap?: number
   raises?: Array<{
     date: string
+    /** Round size in millions of USD */
     amount: number
+    round?: string
   }>
 }
 
@@ -210,3 +212,102 @@ export interface ProtocolDEXData {
   chainBreakdown?: Record<string, { total24h?: number }>
   totalDataChart?: Array<[number, number]> // [timestamp, volume]
 }
+
+// =============================================================================
+// Stablecoin Data
+// =============================================================================
+
+/**
+ * Stablecoin from GET stablecoins.llama.fi/stablecoins
+ * Circulating amounts are in USD-pegged units (non-USD pegs are omitted)
+ */
+export interface StablecoinAsset {
+  id: string
+  name: string
+  symbol: string
+  pegType: string
+  pegMechanism?: string
+  /** Total circulating supply across all chains */
+  circulating: number
+  /** Current circulating supply by chain name */
+  chainCirculating: Record<string, number>
+  chains: string[]
+}
+
+/**
+ * Chain stablecoin supply from GET stablecoins.llama.fi/stablecoinchains
+ */
+export interface StablecoinChainEntry {
+  name: string
+  gecko_id?: string
+  tokenSymbol?: string
+  /** Total stablecoin supply on the chain in USD (all peg types) */
+  totalCirculatingUSD: number
+}
+
+/**
+ * Historical chain stablecoin supply from GET stablecoins.llama.fi/stablecoincharts/{chain}
+ */
+export interface StablecoinChartPoint {
+  date: number // Unix timestamp
+  /** Total stablecoin supply in USD (all peg types) */
+  totalCirculatingUSD: number
+}
+
+// =============================================================================
+// Yields Data
+// =============================================================================
+
+/**
+ * Yield pool from GET yields.llama.fi/pools
+ */
+export interface YieldPool {
+  /** Pool UUID */
+  pool: string
+  chain: string
+  /** Protocol slug (e.g., "aave-v3") */
+  project: string
+  symbol: string
+  tvlUsd: number
+  /** Total APY in percent (base + reward) */
+  apy?: number
+  apyBase?: number
+  apyReward?: number
+  /** Whether the pool only holds stablecoins */
+  stablecoin?: boolean
+  ilRisk?: string
+  exposure?: string
+  poolMeta?: string
+}
+
+// =============================================================================
+// Bridge Data
+// =============================================================================
+
+/**
+ * Bridge from GET bridges.llama.fi/bridges
+ */
+export interface BridgeEntry {
+  id: number
+  name: string
+  displayName: string
+  last24hVolume?: number
+  weeklyVolume?: number
+  monthlyVolume?: number
+  /** Chains the bridge connects */
+  chains: string[]
+  destinationChain?: string
+  slug?: string
+}
+
+/**
+ * Daily bridge volume for a chain from GET bridges.llama.fi/bridgevolume/{chain}
+ * Deposits leave the chain through a bridge, withdrawals arrive on it
+ */
+export interface BridgeVolumePoint {
+  date: number // Unix timestamp
+  depositUSD: number
+  withdrawUSD: number
+  depositTxs?: number
+  withdrawTxs?: number
+}
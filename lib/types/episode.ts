@@ -4,7 +4,7 @@
  * Defines the structure of episodes, questions, and difficulty scoring
  */
 
-import type { ProtocolPoolEntry, ChainPoolEntry } from "./pools"
+import type { ProtocolPoolEntry, ChainPoolEntry, CategoryPoolEntry } from "./pools"
 
 // =============================================================================
 // Question Formats
@@ -17,8 +17,9 @@ import type { ProtocolPoolEntry, ChainPoolEntry } from "./pools"
  * - mc4: 4-choice multiple choice
  * - mc6: 6-choice multiple choice
  * - rank4: Order 4 items
+ * - text: Write-in answer (fuzzy matched against aliases)
  */
-export type QuestionFormat = "tf" | "ab" | "mc4" | "mc6" | "rank4"
+export type QuestionFormat = "tf" | "ab" | "mc4" | "mc6" | "rank4" | "text"
 
 // =============================================================================
 // Difficulty System
@@ -64,6 +65,8 @@ export interface Question {
   format: QuestionFormat
   /** The question prompt shown to the user */
   prompt: string
+  /** Template prompt before LLM rephrasing (only set when rephrased) */
+  originalPrompt?: string
   /** Optional clues for fingerprint-style questions */
   clues?: string[]
   /** 
@@ -84,6 +87,16 @@ export interface Question {
   answerValue?: boolean
   /** Correct ranking order (for rank format) */
   answerOrder?: string[]
+  /**
+   * Whether choices are ordered buckets (e.g., TVL bands).
+   * One bucket off from the answer earns partial credit.
+   */
+  orderedChoices?: boolean
+  /**
+   * Accepted answers for write-in questions (text format).
+   * The first entry is the display name.
+   */
+  acceptedAnswers?: string[]
   /** Explanation shown after answering */
   explanation: string
   /** Difficulty target for this slot */
@@ -108,6 +121,8 @@ export interface QuestionDraft {
   answerIndex?: number
   answerValue?: boolean
   answerOrder?: string[]
+  orderedChoices?: boolean
+  acceptedAnswers?: string[]
   /** Signals for difficulty calculation */
   signals: DifficultySignals
   /** Structured data for generating LLM explanation */
@@ -137,19 +152,28 @@ export interface ChainTopic {
   name: string
 }
 
+/**
+ * Category topic for episode
+ */
+export interface CategoryTopic {
+  slug: string
+  /** DefiLlama category name (e.g., "Liquid Staking") */
+  name: string
+}
+
 /**
  * Union type for topics
  */
-export type Topic = ProtocolTopic | ChainTopic
+export type Topic = ProtocolTopic | ChainTopic | CategoryTopic
 
 // =============================================================================
 // Episode Structure
 // =============================================================================
 
 /**
- * Episode type (protocol or chain focused)
+ * Episode type (protocol, chain, or protocol category focused)
  */
-export type EpisodeType = "protocol" | "chain"
+export type EpisodeType = "protocol" | "chain" | "category"
 
 /**
  * A complete episode ready for storage/serving
@@ -169,6 +193,52 @@ export interface Episode {
   generatedAt: string
   /** Optional build log for debugging */
   buildLog?: BuildLogEntry[]
+  /** Metric sources, present when generated in snapshot mode */
+  dataSnapshot?: DataSnapshot
+}
+
+/**
+ * Records which metrics a snapshot-mode episode rewound to its date
+ */
+export interface DataSnapshot {
+  /** Date the data was rewound to (YYYY-MM-DD) */
+  asOf: string
+  /** Metrics recomputed from historical series as of the date */
+  asOfMetrics: string[]
+  /** Metrics only available as latest values at generation time */
+  latestMetrics: string[]
+}
+
+/**
+ * Episode index entry (spoiler-free summary of a published episode)
+ */
+export interface EpisodeIndexEntry {
+  /** UTC date of the episode */
+  dateUtc: string
+  /** Episode type (the topic is omitted to avoid spoilers) */
+  episodeType: EpisodeType
+  /** Number of questions */
+  questionCount: number
+}
+
+/**
+ * Manifest of all published episodes
+ * Stored at: /public/episodes/index.json
+ */
+export interface EpisodeIndex {
+  episodes: EpisodeIndexEntry[]
+  generatedAt: string
+}
+
+/**
+ * Topic that can be picked for practice mode
+ */
+export interface PracticeTopic {
+  type: EpisodeType
+  slug: string
+  name: string
+  /** Protocol category (protocol topics only) */
+  category?: string
 }
 
 // =============================================================================
@@ -189,7 +259,10 @@ export interface BuildLogEntry {
     | "adjusted"
     | "fallback"
     | "post_balance"
+    | "data_warning"
   reason?: string
+  /** Extra context (e.g., the endpoint and field behind a data warning) */
+  detail?: string
   score?: number
   target?: DifficultyTarget
   originalFormat?: string
@@ -213,6 +286,10 @@ export interface FetchedData {
   protocolFees?: import("./defillama").ProtocolFeesData
   /** Protocol revenue data */
   protocolRevenue?: import("./defillama").ProtocolFeesData
+  /** Protocol DEX volume data (DEX protocols only) */
+  protocolDexVolume?: import("./defillama").ProtocolDEXData
+  /** DEX volume leaderboard (for volume rank among DEXs) */
+  dexOverview?: import("./defillama").AllDEXOverview
   /** Chain list */
   chainList?: import("./defillama").ChainListEntry[]
   /** Chain TVL history */
@@ -221,8 +298,20 @@ export interface FetchedData {
   chainFees?: import("./defillama").ChainFeesOverview
   /** Chain DEX volume overview */
   chainDexVolume?: import("./defillama").ChainDEXOverview
+  /** Yield pools for the protocol (yields API project matches the slug) */
+  yieldPools?: import("./defillama").YieldPool[]
+  /** USD stablecoins with supply by chain (for dominant stablecoin) */
+  stablecoins?: import("./defillama").StablecoinAsset[]
+  /** Chain stablecoin supply history */
+  chainStablecoinHistory?: import("./defillama").StablecoinChartPoint[]
+  /** Bridges with volumes and connected chains (for busiest connected bridge) */
+  bridges?: import("./defillama").BridgeEntry[]
+  /** Daily bridge deposits and withdrawals for the chain */
+  chainBridgeVolume?: import("./defillama").BridgeVolumePoint[]
   /** Chain pool with pre-computed metrics (for C4 growth ranking) */
   chainPool?: import("./pools").ChainPoolEntry[]
+  /** Write-in alias entries (for text format fingerprint questions) */
+  aliases?: import("./pools").AliasEntry[]
 }
 
 /**
@@ -259,6 +348,34 @@ export interface DerivedMetrics {
   revenue7d?: number
   revToFeesRatio?: number
   tvlVolatility?: number
+  /** Total disclosed funding in USD */
+  totalRaised?: number
+  raiseCount?: number
+  /** Largest disclosed round in USD */
+  largestRaiseAmount?: number
+  /** Date of the largest round (YYYY-MM-DD) */
+  largestRaiseDate?: string
+  largestRaiseRound?: string
+  /** Market cap divided by current TVL */
+  mcapToTvl?: number
+  /** DEX volume over the last 7 days */
+  volume7d?: number
+  /** 7d DEX volume divided by current TVL */
+  volumeToTvl?: number
+  /** Last 30d DEX volume vs the 30d before (e.g., 0.15 for +15%) */
+  volumeChange30d?: number
+  topVolumeChain?: string
+  topVolumeChainShare?: number
+  /** Rank by 7d volume among all DEXs */
+  dexVolumeRank?: number
+  /** Yield pools above the minimum pool TVL */
+  yieldPoolCount?: number
+  /** Median APY across yield pools, in percent */
+  medianApy?: number
+  /** Share of yield pool TVL in stablecoin-only pools */
+  stablePoolShare?: number
+  /** Symbol of the largest yield pool by TVL */
+  topYieldPool?: string
 
   // Chain metrics
   chainTvlRank?: number
@@ -267,6 +384,42 @@ export interface DerivedMetrics {
   chainAthValue?: number
   chainAthDate?: number
   chainAthMonth?: string
+  /** Total stablecoin supply on the chain in USD */
+  chainStablecoinSupply?: number
+  /** 30d change in chain stablecoin supply (e.g., 0.05 for +5%) */
+  chainStablecoinChange30d?: number
+  /** Stablecoin supply divided by chain TVL */
+  stablecoinToTvl?: number
+  dominantStablecoin?: string
+  /** Dominant stablecoin's share of USD stablecoin supply on the chain */
+  dominantStablecoinShare?: number
+  /** Net bridge flow into the chain over 7 days in USD (withdrawals minus deposits) */
+  bridgeNetFlow7d?: number
+  /** Net bridge flow into the chain over 30 days in USD (withdrawals minus deposits) */
+  bridgeNetFlow30d?: number
+  /** Bridge deposits plus withdrawals over 7 days in USD */
+  bridgeVolume7d?: number
+  /** Bridge deposits plus withdrawals over 30 days in USD */
+  bridgeVolume30d?: number
+  /** Display name of the connected bridge with the most monthly volume across all its chains */
+  busiestBridge?: string
+
+  // Category metrics
+  /** Protocols with TVL in the category */
+  categoryProtocolCount?: number
+  /** Largest protocol in the category by TVL */
+  categoryLeader?: string
+  /** Leader's share of category TVL */
+  categoryLeaderShare?: number
+  /** Top 3 protocols' combined share of category TVL */
+  categoryTop3Share?: number
+  /** Chain holding the most category TVL */
+  categoryTopChain?: string
+  categoryTopChainShare?: number
+  /** Chains with category TVL */
+  categoryChainCount?: number
+  /** Rank by 7d TVL growth among pool-eligible categories */
+  categoryGrowthRank?: number
 
   // Comparison data for quantitative fallbacks
   /** Protocols within ±5 rank positions for TVL comparisons */
@@ -275,6 +428,8 @@ export interface DerivedMetrics {
   categoryProtocols?: ComparisonEntry[]
   /** Chains within ±5 rank positions for TVL comparisons */
   nearbyChains?: ComparisonEntry[]
+  /** Categories within ±3 rank positions for TVL comparisons */
+  nearbyCategories?: ComparisonEntry[]
   /** Current TVL value (for threshold questions) */
   currentTvl?: number
 }
@@ -288,9 +443,11 @@ export interface TemplateContext {
   /** Episode type */
   episodeType: EpisodeType
   /** Selected topic */
-  topic: ProtocolPoolEntry | ChainPoolEntry
+  topic: ProtocolPoolEntry | ChainPoolEntry | CategoryPoolEntry
   /** Fetched API data */
   data: FetchedData
   /** Computed metrics */
   derived: DerivedMetrics
+  /** Metric sources, set in snapshot mode */
+  snapshot?: DataSnapshot
 }
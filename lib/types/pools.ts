@@ -1,7 +1,7 @@
 /**
  * Topic Pool Entry Types
  * 
- * These schemas define the structure of protocol and chain pools
+ * These schemas define the structure of protocol, chain, and category pools
  * stored in /data/pools/*.json
  */
 
@@ -18,6 +18,8 @@ export interface ProtocolPoolEntry {
   hasFeesData: boolean
   hasRevenueData: boolean
   hasVolumeData: boolean
+  /** Whether DefiLlama lists yield pools for this protocol (unset: decided by category) */
+  hasYieldData?: boolean
   historyDays: number
   lastUpdated: string // ISO date string
 }
@@ -35,6 +37,23 @@ export interface ChainPoolEntry {
   historyDays: number
   /** 30-day TVL change as a decimal (e.g., 0.15 = +15%, -0.10 = -10%) */
   change30d?: number
+  /** Whether DefiLlama tracks stablecoin supply on this chain (unset: try fetching) */
+  hasStablecoinData?: boolean
+  lastUpdated: string // ISO date string
+}
+
+/**
+ * Category pool entry - represents a protocol category eligible for quiz topics
+ */
+export interface CategoryPoolEntry {
+  slug: string // Kebab-case category (e.g., "liquid-staking")
+  name: string // DefiLlama category name used in /protocols (e.g., "Liquid Staking")
+  tvlRank: number // Rank among categories by TVL
+  tvl: number
+  protocolCount: number
+  chainCount: number
+  /** 7-day TVL change as a decimal, TVL-weighted across protocols */
+  change7d?: number
   lastUpdated: string // ISO date string
 }
 
@@ -50,6 +69,13 @@ export interface PoolOverrides {
     blocklist: string[]
     forceInclude: string[]
   }
+  /** Category names (e.g., "Lending"); forceInclude skips the size thresholds */
+  categories?: {
+    blocklist: string[]
+    forceInclude: string[]
+  }
+  /** Extra write-in aliases keyed by protocol/chain slug (e.g., "Binance": ["BSC"]) */
+  aliases?: Record<string, string[]>
 }
 
 /**
@@ -64,3 +90,27 @@ export interface ChainPool {
   chains: ChainPoolEntry[]
   generatedAt: string // ISO timestamp
 }
+
+export interface CategoryPool {
+  categories: CategoryPoolEntry[]
+  generatedAt: string // ISO timestamp
+}
+
+/**
+ * Alias entry - accepted write-in answers for a protocol or chain
+ */
+export interface AliasEntry {
+  slug: string
+  name: string
+  type: "protocol" | "chain"
+  /** Accepted spellings, including the display name */
+  aliases: string[]
+}
+
+/**
+ * Alias database stored in /data/pools/aliases.json
+ */
+export interface AliasDatabase {
+  entries: AliasEntry[]
+  generatedAt: string // ISO timestamp
+}
@@ -0,0 +1,34 @@
+/**
+ * Episode Schedule Config Types
+ *
+ * Schema for /data/schedule.json, which maps weekdays to episode types and
+ * pins topics (and optionally templates) for special-event dates.
+ */
+
+import type { EpisodeType } from "./episode"
+
+/**
+ * Date-specific schedule override (e.g., a chain's mainnet anniversary)
+ */
+export interface ScheduleOverride {
+  date: string // YYYY-MM-DD
+  type: EpisodeType
+  /** Pool slug of the topic to use instead of weighted selection */
+  topic?: string
+  /** Template IDs tried first in every slot after the hook */
+  templates?: string[]
+  /** Why the date is special (shown in the schedule listing) */
+  note?: string
+}
+
+/**
+ * Schedule configuration file
+ */
+export interface ScheduleConfig {
+  /**
+   * Episode type by weekday. Keys are names ("wednesday"), three-letter
+   * names ("wed"), or numbers ("3", 0 = Sunday). Unlisted days keep the default.
+   */
+  weekdays?: Record<string, EpisodeType>
+  overrides?: ScheduleOverride[]
+}
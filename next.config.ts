@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Practice route handlers read topic pools (and aliases) at runtime
+  outputFileTracingIncludes: {
+    "/api/practice/**": ["./data/pools/**"],
+  },
 };
 
 export default nextConfig;
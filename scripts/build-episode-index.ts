@@ -0,0 +1,23 @@
+#!/usr/bin/env bun
+/**
+ * Episode Index Build Script
+ *
+ * Scans public/episodes/ and writes public/episodes/index.json, a spoiler-free
+ * manifest of every published episode. The archive page reads this instead of
+ * probing each date individually. Runs automatically before `next build`.
+ *
+ * Usage: bun run scripts/build-episode-index.ts
+ */
+
+import { writeEpisodeIndex } from "../lib/storage/episodes"
+
+async function main() {
+  const { filePath, count } = await writeEpisodeIndex()
+  console.log(`Episode index written: ${count} episodes`)
+  console.log(`Path: ${filePath}`)
+}
+
+main().catch((error) => {
+  console.error("Episode index build failed:", error)
+  process.exit(1)
+})
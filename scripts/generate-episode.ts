@@ -11,19 +11,56 @@
  *   bun scripts/generate-episode.ts --today
  *   bun scripts/generate-episode.ts --verbose
  *   bun scripts/generate-episode.ts --skip-llm
+ *   bun scripts/generate-episode.ts --rephrase (LLM-rephrased, verified prompts)
  *   bun scripts/generate-episode.ts --force (regenerate even if exists)
+ *   bun scripts/generate-episode.ts --no-api-cache (always fetch fresh DefiLlama data)
+ *   bun scripts/generate-episode.ts --record-fixtures
+ *   bun scripts/generate-episode.ts --replay-fixtures (offline, from recorded data)
+ *   bun scripts/generate-episode.ts 2025-12-14 --snapshot (facts as of that date)
  *
  * Environment:
- *   OPENAI_API_KEY - Required for LLM generation
+ *   OPENAI_API_KEY - Required for LLM generation (openai provider)
+ *   LLM_PROVIDER - 'openai' (default), 'openai-compatible', or 'stub'
+ *   LLM_MODEL - Model name (default: gpt-4o-mini; required for openai-compatible)
+ *   LLM_BASE_URL - API base URL for openai-compatible
+ *   LLM_API_KEY - API key for openai-compatible (optional)
  *   SKIP_LLM - Set to 'true' to skip LLM calls
  *   LLM_TIMEOUT_MS - Timeout for LLM calls (default: 10000)
  *   LLM_MAX_RETRIES - Max retries for LLM calls (default: 2)
+ *   LLM_RETRY_BASE_MS - First retry delay, doubled per retry (default: 1000)
+ *   LLM_CONCURRENCY - Max LLM calls in flight per episode (default: 3)
+ *   LLM_INPUT_COST_PER_1M / LLM_OUTPUT_COST_PER_1M - Pricing for cost estimates
+ *   DEFILLAMA_CACHE - Set to 'off' to disable the DefiLlama response cache
+ *   DEFILLAMA_FIXTURES - 'record' or 'replay' DefiLlama responses
+ *   DEFILLAMA_FIXTURES_DIR - Fixture directory (default: data/fixtures/defillama)
+ *   EPISODE_WEEKDAYS - Weekday overrides, e.g. 'wed=category,sat=category'
  */
 
 import { generateEpisode } from "../lib/generation/generate-episode"
-import { saveEpisode, episodeExists, getPublicEpisodePath } from "../lib/storage/episodes"
+import {
+  saveEpisode,
+  episodeExists,
+  getPublicEpisodePath,
+  writeEpisodeIndex,
+} from "../lib/storage/episodes"
 import { getCacheStats } from "../lib/llm/cache"
-import { getLLMConfig } from "../lib/llm/client"
+import {
+  diffLLMUsageStats,
+  getLLMConfig,
+  getLLMUsageStats,
+  isLLMSkipped,
+  type LLMUsageStats,
+} from "../lib/llm/client"
+import {
+  configureFixtures,
+  getFixtureConfig,
+  getFixtureStats,
+} from "../lib/api/fixtures"
+import {
+  configureApiCache,
+  getApiCacheConfig,
+  getApiCacheStats,
+} from "../lib/api/cache"
 
 // =============================================================================
 // CLI Arguments
@@ -34,8 +71,10 @@ interface CliOptions {
   verbose: boolean
   skipLLM: boolean
   skipCache: boolean
+  rephrase: boolean
   force: boolean
   stripBuildLog: boolean
+  snapshot: boolean
 }
 
 function parseArgs(): CliOptions {
@@ -45,8 +84,10 @@ function parseArgs(): CliOptions {
     verbose: false,
     skipLLM: false,
     skipCache: false,
+    rephrase: false,
     force: false,
     stripBuildLog: false,
+    snapshot: false,
   }
 
   for (const arg of args) {
@@ -58,10 +99,22 @@ function parseArgs(): CliOptions {
       options.skipLLM = true
     } else if (arg === "--skip-cache") {
       options.skipCache = true
+    } else if (arg === "--rephrase") {
+      options.rephrase = true
     } else if (arg === "--force" || arg === "-f") {
       options.force = true
     } else if (arg === "--strip-build-log") {
       options.stripBuildLog = true
+    } else if (arg === "--snapshot") {
+      options.snapshot = true
+    } else if (arg === "--no-api-cache") {
+      configureApiCache({ enabled: false })
+    } else if (arg === "--record-fixtures") {
+      configureFixtures({ mode: "record" })
+    } else if (arg === "--replay-fixtures") {
+      configureFixtures({ mode: "replay" })
+    } else if (arg.startsWith("--fixtures-dir=")) {
+      configureFixtures({ dir: arg.slice("--fixtures-dir=".length) })
     } else if (arg === "--help" || arg === "-h") {
       printHelp()
       process.exit(0)
@@ -128,15 +181,33 @@ Options:
   --verbose, -v     Enable verbose logging
   --skip-llm        Skip LLM calls, use fallback explanations
   --skip-cache      Skip LLM cache, force regeneration
+  --rephrase        Rephrase question prompts with the LLM (verified)
   --force, -f       Regenerate even if episode already exists
   --strip-build-log Remove build log from saved episode
+  --snapshot        Rewind DefiLlama histories to the episode date
+  --no-api-cache    Bypass the DefiLlama response cache
+  --record-fixtures Save DefiLlama responses as fixtures
+  --replay-fixtures Serve DefiLlama responses from fixtures (no network)
+  --fixtures-dir=D  Fixture directory (default: data/fixtures/defillama)
   --help, -h        Show this help message
 
 Environment Variables:
-  OPENAI_API_KEY    OpenAI API key (required for LLM)
+  OPENAI_API_KEY    OpenAI API key (required for the openai provider)
+  LLM_PROVIDER      'openai' (default), 'openai-compatible', or 'stub'
+  LLM_MODEL         Model name (default: gpt-4o-mini)
+  LLM_BASE_URL      API base URL for openai-compatible
+  LLM_API_KEY       API key for openai-compatible (optional)
   SKIP_LLM          Set to 'true' to skip LLM globally
   LLM_TIMEOUT_MS    LLM call timeout in ms (default: 10000)
   LLM_MAX_RETRIES   Max LLM retry attempts (default: 2)
+  LLM_RETRY_BASE_MS First retry delay in ms, doubled per retry (default: 1000)
+  LLM_CONCURRENCY   Max LLM calls in flight per episode (default: 3)
+  LLM_INPUT_COST_PER_1M   USD per 1M input tokens (overrides built-in pricing)
+  LLM_OUTPUT_COST_PER_1M  USD per 1M output tokens (overrides built-in pricing)
+  DEFILLAMA_CACHE         Set to 'off' to disable the DefiLlama response cache
+  DEFILLAMA_FIXTURES      'record' or 'replay' DefiLlama responses
+  DEFILLAMA_FIXTURES_DIR  Fixture directory
+  EPISODE_WEEKDAYS        Weekday overrides (e.g., 'wed=category,sat=category')
 
 Examples:
   bun scripts/generate-episode.ts                          # Generate for today
@@ -145,6 +216,8 @@ Examples:
   bun scripts/generate-episode.ts --verbose               # With detailed logging
   bun scripts/generate-episode.ts --skip-llm              # Without LLM calls
   bun scripts/generate-episode.ts --force                 # Overwrite existing
+  bun scripts/generate-episode.ts 2025-12-14 --replay-fixtures  # Offline rebuild
+  bun scripts/generate-episode.ts 2025-12-14 --snapshot   # Facts as of that date
 `)
 }
 
@@ -156,6 +229,16 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
+function formatLLMUsage(usage: LLMUsageStats): string {
+  // Runs without calls (e.g., --skip-llm) cost nothing and never resolve the provider
+  const priced = usage.calls === 0 || getLLMConfig().pricing !== undefined
+  const cost = priced ? `~$${usage.costUsd.toFixed(4)}` : "cost unknown"
+  return (
+    `${usage.calls} calls (${usage.retries} retries, ${usage.failures} failed), ` +
+    `${usage.inputTokens} input + ${usage.outputTokens} output tokens, ${cost}`
+  )
+}
+
 // =============================================================================
 // Main
 // =============================================================================
@@ -189,12 +272,15 @@ async function generateForDate(
   console.log()
 
   const startTime = Date.now()
+  const usageBefore = getLLMUsageStats()
 
   try {
     const episode = await generateEpisode(date, {
       skipLLM: options.skipLLM,
       skipCache: options.skipCache,
       verbose: options.verbose,
+      rephrase: options.rephrase,
+      snapshot: options.snapshot,
     })
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(2)
@@ -222,11 +308,16 @@ async function generateForDate(
     console.log(`Episode ID: ${episode.episodeId}`)
     console.log(`Topic: ${episode.topic.name}`)
     console.log(`Questions: ${episode.questions.length}`)
+    if (episode.dataSnapshot) {
+      console.log(`Snapshot as of: ${episode.dataSnapshot.asOf}`)
+      console.log(`  Latest-available metrics: ${episode.dataSnapshot.latestMetrics.join(", ")}`)
+    }
 
     const llmCount = episode.questions.filter((q) => !q.llmFallback).length
     const fallbackCount = episode.questions.length - llmCount
     console.log(`LLM explanations: ${llmCount}`)
     console.log(`Fallback explanations: ${fallbackCount}`)
+    console.log(`LLM usage: ${formatLLMUsage(diffLLMUsageStats(usageBefore))}`)
     console.log(`Duration: ${duration}s`)
     console.log()
     console.log(`Public path: ${getPublicEpisodePath(date)}`)
@@ -249,16 +340,27 @@ async function main(): Promise<void> {
   console.log()
   console.log(`Dates: ${options.dates.length === 1 ? options.dates[0] : `${options.dates[0]} to ${options.dates[options.dates.length - 1]} (${options.dates.length} days)`}`)
   console.log(`Time: ${new Date().toISOString()}`)
+  const fixtureConfig = getFixtureConfig()
+  if (fixtureConfig.mode !== "off") {
+    console.log(`DefiLlama fixtures: ${fixtureConfig.mode} (${fixtureConfig.dir})`)
+  }
   console.log()
 
-  // Show LLM configuration
-  if (options.verbose) {
+  // Show LLM configuration (skipped runs don't resolve the provider)
+  if (options.verbose && (options.skipLLM || isLLMSkipped())) {
+    console.log("LLM: skipped (fallback explanations only)")
+    console.log()
+  } else if (options.verbose) {
     const llmConfig = getLLMConfig()
     console.log("LLM Configuration:")
+    console.log(`  Provider: ${llmConfig.provider}`)
     console.log(`  Model: ${llmConfig.model}`)
+    if (llmConfig.baseUrl) {
+      console.log(`  Base URL: ${llmConfig.baseUrl}`)
+    }
     console.log(`  Timeout: ${llmConfig.timeoutMs}ms`)
     console.log(`  Max retries: ${llmConfig.maxRetries}`)
-    console.log(`  Skip LLM: ${llmConfig.skipLLM || options.skipLLM}`)
+    console.log(`  Concurrency: ${llmConfig.concurrency}`)
     console.log(`  Has API key: ${llmConfig.hasApiKey}`)
     console.log()
   }
@@ -278,6 +380,40 @@ async function main(): Promise<void> {
     }
   }
 
+  // Show LLM usage for the whole run
+  if (options.dates.length > 1) {
+    console.log(`LLM usage (all dates): ${formatLLMUsage(getLLMUsageStats())}`)
+  }
+
+  // Show DefiLlama response cache usage (replay mode never reaches the cache)
+  if (getApiCacheConfig().enabled && fixtureConfig.mode !== "replay") {
+    const apiCacheStats = getApiCacheStats()
+    const lookups = apiCacheStats.hits + apiCacheStats.misses
+    const hitRate = lookups > 0 ? Math.round((apiCacheStats.hits / lookups) * 100) : 0
+    console.log(
+      `API cache: ${apiCacheStats.hits} hits, ${apiCacheStats.misses} misses ` +
+        `(${apiCacheStats.expired} expired, ${hitRate}% hit rate)`
+    )
+  }
+
+  // Show fixture usage
+  if (fixtureConfig.mode !== "off") {
+    const fixtureStats = getFixtureStats()
+    console.log(
+      fixtureConfig.mode === "record"
+        ? `Fixtures recorded: ${fixtureStats.recorded}`
+        : `Fixtures replayed: ${fixtureStats.replayed} (missing: ${fixtureStats.missing})`
+    )
+    console.log()
+  }
+
+  // Rebuild the episode index so the archive picks up new episodes
+  if (results.some((r) => r.success)) {
+    const index = await writeEpisodeIndex()
+    console.log(`Episode index updated: ${index.count} episodes`)
+    console.log()
+  }
+
   // Final summary for multiple dates
   if (options.dates.length > 1) {
     console.log("=".repeat(60))
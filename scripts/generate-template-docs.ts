@@ -12,11 +12,14 @@
 import { writeFile } from "fs/promises"
 import { PROTOCOL_TEMPLATE_CONFIGS } from "../lib/generation/templates/protocols"
 import { CHAIN_TEMPLATE_CONFIGS } from "../lib/generation/templates/chains"
+import { CATEGORY_TEMPLATE_CONFIGS } from "../lib/generation/templates/categories"
 import {
   PROTOCOL_MATRIX,
   CHAIN_MATRIX,
+  CATEGORY_MATRIX,
   PROTOCOL_FALLBACKS,
   CHAIN_FALLBACKS,
+  CATEGORY_FALLBACKS,
 } from "../lib/generation/templates/index"
 import type { FallbackConfig } from "../lib/generation/templates/config"
 
@@ -141,6 +144,16 @@ function categorizeFallbacks(fallbacks: FallbackConfig[]): FallbackCategory[] {
     })
   }
 
+  // Bridge Net Flow
+  const bridgeFlow = fallbacks.filter((f) => f.id.includes("bridge_"))
+  if (bridgeFlow.length > 0) {
+    categories.push({
+      name: "Bridge Net Flow",
+      description: "Questions about whether net bridge flows exceed a threshold",
+      fallbacks: bridgeFlow,
+    })
+  }
+
   return categories
 }
 
@@ -160,8 +173,9 @@ async function generateDocs() {
   lines.push(
     "This document defines the question templates used in DeFidle: " +
       `${Object.keys(PROTOCOL_TEMPLATE_CONFIGS).length} protocol templates (P1-P15), ` +
-      `${Object.keys(CHAIN_TEMPLATE_CONFIGS).length} chain templates (C1-C12), and ` +
-      `${PROTOCOL_FALLBACKS.length + CHAIN_FALLBACKS.length} fallback templates.`
+      `${Object.keys(CHAIN_TEMPLATE_CONFIGS).length} chain templates (C1-C12), ` +
+      `${Object.keys(CATEGORY_TEMPLATE_CONFIGS).length} category templates (CAT1-CAT6), and ` +
+      `${PROTOCOL_FALLBACKS.length + CHAIN_FALLBACKS.length + CATEGORY_FALLBACKS.length} fallback templates.`
   )
   lines.push("")
   lines.push("> **Note**: All templates use **free DefiLlama API endpoints only**. No Pro API key required.")
@@ -173,8 +187,10 @@ async function generateDocs() {
   lines.push("- [Conventions](#conventions)")
   lines.push("- [Protocol Templates (P1-P15)](#protocol-templates-p1-p15)")
   lines.push("- [Chain Templates (C1-C12)](#chain-templates-c1-c12)")
+  lines.push("- [Category Templates (CAT1-CAT6)](#category-templates-cat1-cat6)")
   lines.push("- [Protocol Fallbacks](#protocol-fallbacks)")
   lines.push("- [Chain Fallbacks](#chain-fallbacks)")
+  lines.push("- [Category Fallbacks](#category-fallbacks)")
   lines.push("- [Template Summary](#template-summary)")
   lines.push("- [Semantic Topic Reference](#semantic-topic-reference)")
   lines.push("")
@@ -245,6 +261,29 @@ async function generateDocs() {
     lines.push("")
   }
 
+  // Category Templates
+  lines.push("## Category Templates (CAT1-CAT6)")
+  lines.push("")
+
+  for (const config of Object.values(CATEGORY_TEMPLATE_CONFIGS)) {
+    const slots = getSlotAssignments(config.id, CATEGORY_MATRIX)
+
+    lines.push(`### ${config.id}: ${config.name}`)
+    lines.push("")
+    lines.push(config.description)
+    lines.push("")
+    lines.push("| Property | Value |")
+    lines.push("|----------|-------|")
+    lines.push(`| **ID** | \`${config.id}\` |`)
+    lines.push(`| **Type** | ${config.type} |`)
+    lines.push(`| **Semantic Topics** | ${formatSemanticTopics(config.semanticTopics)} |`)
+    lines.push(`| **Slot Assignments** | ${slots.join(", ") || "None"} |`)
+    lines.push(`| **Reusable** | ${config.allowReuse ? "Yes" : "No"} |`)
+    lines.push("")
+    lines.push("---")
+    lines.push("")
+  }
+
   // Protocol Fallbacks
   lines.push("## Protocol Fallbacks")
   lines.push("")
@@ -296,6 +335,29 @@ async function generateDocs() {
   lines.push("---")
   lines.push("")
 
+  // Category Fallbacks
+  lines.push("## Category Fallbacks")
+  lines.push("")
+
+  const categoryCategories = categorizeFallbacks(CATEGORY_FALLBACKS)
+  for (const category of categoryCategories) {
+    lines.push(`### ${category.name}`)
+    lines.push("")
+    lines.push(category.description)
+    lines.push("")
+    lines.push("| ID | Format | Difficulty | Semantic Topics |")
+    lines.push("|----|--------|------------|-----------------|")
+    for (const fb of category.fallbacks) {
+      lines.push(
+        `| \`${fb.id}\` | ${formatFallbackFormat(fb.format)} | ${formatFallbackDifficulty(fb.difficulty)} | ${formatSemanticTopics(fb.semanticTopics)} |`
+      )
+    }
+    lines.push("")
+  }
+
+  lines.push("---")
+  lines.push("")
+
   // Summary Tables
   lines.push("## Template Summary")
   lines.push("")
@@ -324,6 +386,19 @@ async function generateDocs() {
     )
   }
 
+  lines.push("")
+  lines.push("### Category Templates")
+  lines.push("")
+  lines.push("| ID | Name | Semantic Topics | Slots |")
+  lines.push("|----|------|-----------------|-------|")
+
+  for (const config of Object.values(CATEGORY_TEMPLATE_CONFIGS)) {
+    const slots = getSlotAssignments(config.id, CATEGORY_MATRIX)
+    lines.push(
+      `| ${config.id} | ${config.name} | ${formatSemanticTopics(config.semanticTopics)} | ${slots.join(", ")} |`
+    )
+  }
+
   lines.push("")
   lines.push("### Fallback Summary")
   lines.push("")
@@ -334,6 +409,8 @@ async function generateDocs() {
   const protocolDifficulties = new Set(PROTOCOL_FALLBACKS.map((f) => f.difficulty))
   const chainFormats = new Set(CHAIN_FALLBACKS.map((f) => f.format))
   const chainDifficulties = new Set(CHAIN_FALLBACKS.map((f) => f.difficulty))
+  const categoryFormats = new Set(CATEGORY_FALLBACKS.map((f) => f.format))
+  const categoryDifficulties = new Set(CATEGORY_FALLBACKS.map((f) => f.difficulty))
 
   lines.push(
     `| Protocol | ${PROTOCOL_FALLBACKS.length} | ${[...protocolFormats].join(", ")} | ${[...protocolDifficulties].join(", ")} |`
@@ -341,6 +418,9 @@ async function generateDocs() {
   lines.push(
     `| Chain | ${CHAIN_FALLBACKS.length} | ${[...chainFormats].join(", ")} | ${[...chainDifficulties].join(", ")} |`
   )
+  lines.push(
+    `| Category | ${CATEGORY_FALLBACKS.length} | ${[...categoryFormats].join(", ")} | ${[...categoryDifficulties].join(", ")} |`
+  )
 
   lines.push("")
 
@@ -370,9 +450,16 @@ async function generateDocs() {
       topicUsage.set(topic, existing)
     }
   }
+  for (const config of Object.values(CATEGORY_TEMPLATE_CONFIGS)) {
+    for (const topic of config.semanticTopics) {
+      const existing = topicUsage.get(topic) ?? []
+      existing.push(config.id)
+      topicUsage.set(topic, existing)
+    }
+  }
 
   // Add fallback topics
-  for (const fb of [...PROTOCOL_FALLBACKS, ...CHAIN_FALLBACKS]) {
+  for (const fb of [...PROTOCOL_FALLBACKS, ...CHAIN_FALLBACKS, ...CATEGORY_FALLBACKS]) {
     for (const topic of fb.semanticTopics) {
       const existing = topicUsage.get(topic) ?? []
       const fallbackId = `FALLBACK_${fb.id.toUpperCase()}`
@@ -403,8 +490,10 @@ async function generateDocs() {
   console.log("Generated docs/question-templates.md")
   console.log(`  - ${Object.keys(PROTOCOL_TEMPLATE_CONFIGS).length} protocol templates`)
   console.log(`  - ${Object.keys(CHAIN_TEMPLATE_CONFIGS).length} chain templates`)
+  console.log(`  - ${Object.keys(CATEGORY_TEMPLATE_CONFIGS).length} category templates`)
   console.log(`  - ${PROTOCOL_FALLBACKS.length} protocol fallbacks`)
   console.log(`  - ${CHAIN_FALLBACKS.length} chain fallbacks`)
+  console.log(`  - ${CATEGORY_FALLBACKS.length} category fallbacks`)
   console.log(`  - ${topicUsage.size} semantic topics`)
 }
 
@@ -0,0 +1,544 @@
+#!/usr/bin/env bun
+/**
+ * LLM Cache Maintenance Script
+ *
+ * Lists, prunes, invalidates, exports, and imports entries in
+ * data/llm-cache/{YYYY-MM}.json, and reports explanations that repeat
+ * across dates.
+ *
+ * Usage:
+ *   bun scripts/llm-cache.ts list [--month=2025-12] [--template=P1_FINGERPRINT] [--by=template]
+ *   bun scripts/llm-cache.ts prune --dry-run   (entries no published episode uses)
+ *   bun scripts/llm-cache.ts invalidate --template=P1_FINGERPRINT
+ *   bun scripts/llm-cache.ts invalidate --model=gpt-4o-mini --month=2025-12
+ *   bun scripts/llm-cache.ts export backup.json [--month=2025-12]
+ *   bun scripts/llm-cache.ts import backup.json [--overwrite]
+ *   bun scripts/llm-cache.ts duplicates [--threshold=0.8]
+ *
+ * Export files have the same shape as the monthly cache files, so a monthly
+ * file can be imported directly. Imported entries go to the file for their
+ * key's date.
+ */
+
+import * as fs from "fs/promises"
+import {
+  listCacheMonths,
+  loadCacheMonth,
+  parseLLMCacheKey,
+  saveCacheMonth,
+  type LLMCacheEntry,
+  type LLMCacheFile,
+  type ParsedLLMCacheKey,
+} from "../lib/llm/cache"
+import { listAllEpisodeDates, loadEpisode } from "../lib/storage/episodes"
+
+// =============================================================================
+// CLI Arguments
+// =============================================================================
+
+type Command = "list" | "prune" | "invalidate" | "export" | "import" | "duplicates"
+
+const COMMANDS: readonly Command[] = ["list", "prune", "invalidate", "export", "import", "duplicates"]
+
+type GroupBy = "date" | "template" | "model"
+
+interface CliOptions {
+  command: Command
+  file: string | null
+  month: string | null
+  date: string | null
+  template: string | null
+  model: string | null
+  contentType: string | null
+  by: GroupBy | null
+  threshold: number
+  dryRun: boolean
+  overwrite: boolean
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2)
+  const positional: string[] = []
+  const options: Omit<CliOptions, "command" | "file"> = {
+    month: null,
+    date: null,
+    template: null,
+    model: null,
+    contentType: null,
+    by: null,
+    threshold: 0.8,
+    dryRun: false,
+    overwrite: false,
+  }
+
+  for (const arg of args) {
+    if (arg === "--dry-run") {
+      options.dryRun = true
+    } else if (arg === "--overwrite") {
+      options.overwrite = true
+    } else if (arg.startsWith("--month=")) {
+      options.month = arg.slice("--month=".length)
+      if (!/^\d{4}-\d{2}$/.test(options.month)) fail(`Invalid --month value: ${arg}`)
+    } else if (arg.startsWith("--date=")) {
+      options.date = arg.slice("--date=".length)
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(options.date)) fail(`Invalid --date value: ${arg}`)
+    } else if (arg.startsWith("--template=")) {
+      options.template = arg.slice("--template=".length)
+    } else if (arg.startsWith("--model=")) {
+      options.model = arg.slice("--model=".length)
+    } else if (arg.startsWith("--type=")) {
+      options.contentType = arg.slice("--type=".length)
+    } else if (arg.startsWith("--by=")) {
+      const by = arg.slice("--by=".length)
+      if (by !== "date" && by !== "template" && by !== "model") fail(`Invalid --by value: ${arg}`)
+      options.by = by
+    } else if (arg.startsWith("--threshold=")) {
+      const threshold = Number(arg.slice("--threshold=".length))
+      if (!(threshold > 0 && threshold <= 1)) fail(`Invalid --threshold value: ${arg}`)
+      options.threshold = threshold
+    } else if (arg === "--help" || arg === "-h") {
+      printHelp()
+      process.exit(0)
+    } else if (!arg.startsWith("--")) {
+      positional.push(arg)
+    } else {
+      fail(`Unknown argument: ${arg}`)
+    }
+  }
+
+  const [command, file = null, ...rest] = positional
+  if (!command) fail("Missing command")
+  if (!COMMANDS.includes(command as Command)) fail(`Unknown command: ${command}`)
+  if (rest.length > 0) fail(`Unexpected argument: ${rest[0]}`)
+  if ((command === "export" || command === "import") && !file) fail(`${command} needs a file path`)
+  if (command !== "export" && command !== "import" && file) fail(`Unexpected argument: ${file}`)
+  if (command === "invalidate" && !options.template && !options.model) {
+    fail("invalidate needs --template or --model")
+  }
+
+  return { command: command as Command, file, ...options }
+}
+
+function fail(message: string): never {
+  console.error(message)
+  printHelp()
+  process.exit(1)
+}
+
+function printHelp(): void {
+  console.log(`
+DeFidle LLM Cache
+
+Usage:
+  bun scripts/llm-cache.ts <command> [options]
+
+Commands:
+  list              List entries (or counts with --by)
+  prune             Remove entries not used by any published episode
+  invalidate        Remove entries for a template or model
+  export <file>     Write entries to a JSON file
+  import <file>     Merge entries from a JSON file into the cache
+  duplicates        Report repeated explanations across dates
+
+Filters (list, invalidate, export, duplicates; prune takes --month):
+  --month=YYYY-MM   Only entries for this month
+  --date=YYYY-MM-DD Only entries for this date
+  --template=ID     Only entries for this template (e.g., P1_FINGERPRINT)
+  --model=NAME      Only entries from this model ('gpt-4o-mini' or 'openai:gpt-4o-mini')
+  --type=TYPE       Only 'explanation' or 'rephrase' entries
+
+Options:
+  --by=FIELD        Count list entries by 'date', 'template', or 'model'
+  --dry-run         Report what prune/invalidate would remove without writing
+  --overwrite       Replace existing entries on import (default: keep them)
+  --threshold=N     Word-overlap similarity for near-duplicates, 0-1 (default: 0.8)
+  --help, -h        Show this help message
+
+Examples:
+  bun scripts/llm-cache.ts list --by=template
+  bun scripts/llm-cache.ts prune --dry-run
+  bun scripts/llm-cache.ts invalidate --template=C1_FINGERPRINT
+  bun scripts/llm-cache.ts export backup.json --month=2025-12
+  bun scripts/llm-cache.ts duplicates --threshold=0.7
+`)
+}
+
+// =============================================================================
+// Entries
+// =============================================================================
+
+interface CacheItem {
+  key: string
+  month: string
+  /** Null for keys that don't parse (only listed when no filters are set) */
+  parsed: ParsedLLMCacheKey | null
+  entry: LLMCacheEntry
+}
+
+/**
+ * Load every cache entry, optionally limited to one month
+ */
+async function loadItems(month: string | null): Promise<CacheItem[]> {
+  const months = month ? [month] : await listCacheMonths()
+  const items: CacheItem[] = []
+  for (const m of months) {
+    const cache = await loadCacheMonth(m)
+    for (const [key, entry] of Object.entries(cache)) {
+      items.push({ key, month: m, parsed: parseLLMCacheKey(key), entry })
+    }
+  }
+  return items
+}
+
+/**
+ * Check an entry against the --date, --template, --model, and --type filters
+ */
+function matchesFilters(item: CacheItem, options: CliOptions): boolean {
+  const { parsed, entry } = item
+  if (!parsed) return !options.date && !options.template && !options.model && !options.contentType
+  if (options.date && parsed.date !== options.date) return false
+  if (options.template && parsed.templateId !== options.template) return false
+  if (options.model && entry.model !== options.model && parsed.modelKey !== options.model) {
+    return false
+  }
+  if (options.contentType && parsed.contentType !== options.contentType) return false
+  return true
+}
+
+/**
+ * Remove entries from their monthly files
+ */
+async function removeItems(items: CacheItem[]): Promise<void> {
+  const keysByMonth = new Map<string, Set<string>>()
+  for (const item of items) {
+    const keys = keysByMonth.get(item.month) ?? new Set<string>()
+    keys.add(item.key)
+    keysByMonth.set(item.month, keys)
+  }
+
+  for (const [month, keys] of keysByMonth) {
+    const cache = await loadCacheMonth(month)
+    for (const key of keys) delete cache[key]
+    await saveCacheMonth(month, cache)
+  }
+}
+
+function preview(text: string, length = 70): string {
+  const flat = text.replace(/\s+/g, " ")
+  return flat.length > length ? flat.slice(0, length - 1) + "…" : flat
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+async function listEntries(options: CliOptions): Promise<void> {
+  const items = (await loadItems(options.month)).filter((item) => matchesFilters(item, options))
+
+  if (options.by) {
+    const counts = new Map<string, number>()
+    for (const { parsed, entry } of items) {
+      const group =
+        options.by === "date"
+          ? parsed?.date
+          : options.by === "template"
+            ? parsed?.templateId
+            : (parsed?.modelKey ?? entry.model)
+      counts.set(group ?? "(unparsed)", (counts.get(group ?? "(unparsed)") ?? 0) + 1)
+    }
+    console.log(`\n=== LLM cache entries by ${options.by} ===\n`)
+    const groups = [...counts.entries()].sort(([a], [b]) => a.localeCompare(b))
+    for (const [group, count] of groups) {
+      console.log(`${group.padEnd(24)} ${count}`)
+    }
+  } else {
+    console.log(`\n=== LLM cache entries ===\n`)
+    for (const { key, parsed, entry } of items) {
+      if (!parsed) {
+        console.log(`(unparsed key) ${key}`)
+        continue
+      }
+      console.log(
+        `${parsed.date}  ${parsed.episodeType.padEnd(8)} ${parsed.topicSlug.padEnd(16)} ` +
+          `${parsed.questionSlot.padEnd(2)} ${parsed.templateId.padEnd(4)} ` +
+          `${parsed.contentType.padEnd(11)} ${(parsed.modelKey ?? entry.model).padEnd(20)} ` +
+          preview(entry.text)
+      )
+    }
+  }
+
+  console.log(`\n${items.length} entries`)
+}
+
+/**
+ * Collect the explanations and prompts each published question uses,
+ * keyed by date|episodeType|topicSlug|slot|templateId
+ */
+async function loadPublishedTexts(): Promise<Map<string, Set<string>>> {
+  const published = new Map<string, Set<string>>()
+  for (const date of await listAllEpisodeDates()) {
+    const episode = await loadEpisode(date)
+    if (!episode) continue
+    for (const question of episode.questions) {
+      const prefix = [
+        episode.dateUtc,
+        episode.episodeType,
+        episode.topic.slug,
+        question.slot,
+        question.templateId,
+      ].join("|")
+      published.set(prefix, new Set([question.explanation, question.prompt]))
+    }
+  }
+  return published
+}
+
+async function pruneEntries(options: CliOptions): Promise<void> {
+  const published = await loadPublishedTexts()
+  const items = await loadItems(options.month)
+
+  // An entry is in use if a published question at its date, topic, slot, and
+  // template shows its text (stale regenerations and fallbacks aren't)
+  const unused = items.filter(({ parsed, entry }) => {
+    if (!parsed) return true
+    const prefix = [
+      parsed.date,
+      parsed.episodeType,
+      parsed.topicSlug,
+      parsed.questionSlot,
+      parsed.templateId,
+    ].join("|")
+    return !published.get(prefix)?.has(entry.text)
+  })
+
+  console.log(`\n=== Prune: ${unused.length} of ${items.length} entries unused ===\n`)
+  for (const { key, entry } of unused) {
+    console.log(`${key}\n  ${preview(entry.text)}`)
+  }
+
+  await applyRemoval(unused, options)
+}
+
+async function invalidateEntries(options: CliOptions): Promise<void> {
+  const items = (await loadItems(options.month)).filter((item) => matchesFilters(item, options))
+  const filters = [
+    options.template && `template ${options.template}`,
+    options.model && `model ${options.model}`,
+  ].filter(Boolean)
+
+  console.log(`\n=== Invalidate ${filters.join(", ")}: ${items.length} entries ===\n`)
+  for (const { key } of items) {
+    console.log(key)
+  }
+
+  await applyRemoval(items, options)
+}
+
+async function applyRemoval(items: CacheItem[], options: CliOptions): Promise<void> {
+  if (items.length === 0) {
+    console.log("Nothing to remove")
+  } else if (options.dryRun) {
+    console.log(`\nDry run: ${items.length} entries would be removed`)
+  } else {
+    await removeItems(items)
+    console.log(`\nRemoved ${items.length} entries`)
+  }
+}
+
+async function exportEntries(options: CliOptions): Promise<void> {
+  const items = (await loadItems(options.month)).filter((item) => matchesFilters(item, options))
+  const cache: LLMCacheFile = {}
+  for (const { key, entry } of items) {
+    cache[key] = entry
+  }
+
+  await fs.writeFile(options.file!, JSON.stringify(cache, null, 2), "utf-8")
+  console.log(`Exported ${items.length} entries to ${options.file}`)
+}
+
+function isCacheEntry(value: unknown): value is LLMCacheEntry {
+  if (!value || typeof value !== "object") return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.text === "string" &&
+    typeof entry.model === "string" &&
+    typeof entry.generatedAt === "string"
+  )
+}
+
+async function importEntries(options: CliOptions): Promise<void> {
+  let data: unknown
+  try {
+    data = JSON.parse(await fs.readFile(options.file!, "utf-8"))
+  } catch (error) {
+    console.error(`Could not read ${options.file}:`, error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    console.error(`${options.file} is not a cache file (expected an object of entries)`)
+    process.exit(1)
+  }
+
+  const byMonth = new Map<string, LLMCacheFile>()
+  let invalid = 0
+  for (const [key, entry] of Object.entries(data as Record<string, unknown>)) {
+    const parsed = parseLLMCacheKey(key)
+    if (!parsed || !isCacheEntry(entry)) {
+      invalid++
+      continue
+    }
+    const month = parsed.date.slice(0, 7)
+    const entries = byMonth.get(month) ?? {}
+    entries[key] = entry
+    byMonth.set(month, entries)
+  }
+
+  let added = 0
+  let replaced = 0
+  let kept = 0
+  for (const [month, entries] of byMonth) {
+    const cache = await loadCacheMonth(month)
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!cache[key]) {
+        added++
+      } else if (options.overwrite) {
+        replaced++
+      } else {
+        kept++
+        continue
+      }
+      cache[key] = entry
+    }
+    await saveCacheMonth(month, cache)
+  }
+
+  console.log(`Imported ${options.file}: ${added} added, ${replaced} replaced, ${kept} kept`)
+  if (kept > 0) console.log("  (use --overwrite to replace existing entries)")
+  if (invalid > 0) console.log(`  Skipped ${invalid} invalid entries`)
+}
+
+// =============================================================================
+// Duplicates
+// =============================================================================
+
+/**
+ * Word trigrams of a text, with numbers masked so explanations that only
+ * differ in figures count as near-duplicates
+ */
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/\d+(?:[.,]\d+)*/g, "#")
+    .split(/[^\p{L}\p{N}#%$]+/u)
+    .filter(Boolean)
+  const result = new Set<string>()
+  for (let i = 0; i + 3 <= words.length; i++) {
+    result.add(words.slice(i, i + 3).join(" "))
+  }
+  if (result.size === 0 && words.length > 0) result.add(words.join(" "))
+  return result
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const item of a) {
+    if (b.has(item)) shared++
+  }
+  const union = a.size + b.size - shared
+  return union === 0 ? 0 : shared / union
+}
+
+async function reportDuplicates(options: CliOptions): Promise<void> {
+  const items = (await loadItems(options.month))
+    .filter((item) => matchesFilters(item, options))
+    .filter((item): item is CacheItem & { parsed: ParsedLLMCacheKey } => {
+      // Rephrasings follow their template's wording, so only explanations count
+      return item.parsed?.contentType === "explanation"
+    })
+
+  // Exact duplicates: same text on more than one date
+  const byText = new Map<string, typeof items>()
+  for (const item of items) {
+    const text = item.entry.text.trim()
+    byText.set(text, [...(byText.get(text) ?? []), item])
+  }
+  const exact = [...byText.entries()].filter(
+    ([, group]) => new Set(group.map((item) => item.parsed.date)).size > 1
+  )
+
+  console.log(`\n=== Exact duplicates across dates: ${exact.length} ===\n`)
+  for (const [text, group] of exact) {
+    console.log(`"${preview(text)}"`)
+    for (const { parsed } of group) {
+      console.log(`  ${parsed.date} ${parsed.topicSlug} ${parsed.questionSlot} ${parsed.templateId}`)
+    }
+  }
+
+  // Near-duplicates: one representative per distinct text, compared pairwise
+  const distinct = [...byText.values()].map((group) => ({
+    item: group[0],
+    dates: new Set(group.map((item) => item.parsed.date)),
+    shingles: shingles(group[0].entry.text),
+  }))
+  const near: { a: CacheItem; b: CacheItem; similarity: number }[] = []
+  for (let i = 0; i < distinct.length; i++) {
+    for (let j = i + 1; j < distinct.length; j++) {
+      const a = distinct[i]
+      const b = distinct[j]
+      // Same-date pairs are different questions in one episode, not repeats
+      if (new Set([...a.dates, ...b.dates]).size === 1) continue
+      const similarity = jaccard(a.shingles, b.shingles)
+      if (similarity >= options.threshold) {
+        near.push({ a: a.item, b: b.item, similarity })
+      }
+    }
+  }
+  near.sort((x, y) => y.similarity - x.similarity)
+
+  console.log(
+    `\n=== Near-duplicates across dates (similarity >= ${options.threshold}): ${near.length} ===\n`
+  )
+  for (const { a, b, similarity } of near) {
+    console.log(`${similarity.toFixed(2)}  ${describe(a)}\n      ${describe(b)}`)
+  }
+
+  console.log(`\nChecked ${items.length} explanations (${distinct.length} distinct)`)
+}
+
+function describe({ parsed, entry }: CacheItem): string {
+  return `${parsed?.date} ${parsed?.templateId}: "${preview(entry.text, 60)}"`
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const options = parseArgs()
+
+  switch (options.command) {
+    case "list":
+      await listEntries(options)
+      break
+    case "prune":
+      await pruneEntries(options)
+      break
+    case "invalidate":
+      await invalidateEntries(options)
+      break
+    case "export":
+      await exportEntries(options)
+      break
+    case "import":
+      await importEntries(options)
+      break
+    case "duplicates":
+      await reportDuplicates(options)
+      break
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -3,9 +3,15 @@
  * Pool Refresh Script
  * 
  * Fetches top protocols and chains from DefiLlama API
- * and generates pool JSON files for quiz topic selection.
+ * and generates pool JSON files for quiz topic selection,
+ * plus the write-in alias database derived from them.
+ * The category pool is aggregated from the protocols list.
  * 
- * Usage: bun run scripts/refresh-pools.ts
+ * Usage: bun run scripts/refresh-pools.ts [--no-api-cache]
+ *
+ * DefiLlama responses go through the shared API response cache, so a rerun
+ * (or a generate run right after) reuses fresh responses. Pass
+ * --no-api-cache to always fetch fresh data.
  */
 
 import { writeFile, readFile, mkdir } from "fs/promises"
@@ -17,20 +23,27 @@ import {
   getChainTVLHistory,
   getAllFees,
   getAllDEXVolume,
+  getStablecoinChains,
+  getYieldPools,
   getProtocolHistoryDays,
   getChainHistoryDays,
 } from "@/lib/api/defillama"
+import { configureApiCache, getApiCacheConfig, getApiCacheStats } from "@/lib/api/cache"
 import type {
   ProtocolPoolEntry,
   ChainPoolEntry,
+  CategoryPoolEntry,
   PoolOverrides,
   ProtocolPool,
   ChainPool,
+  CategoryPool,
 } from "@/lib/types/pools"
 import {
   isExcludedCategory,
   EXCLUDED_PROTOCOL_CATEGORIES,
 } from "@/lib/generation/constants"
+import { buildAliasDatabase } from "@/lib/generation/aliases"
+import { aggregateCategories, isSignificantCategory } from "@/lib/generation/categories"
 
 const POOLS_DIR = "./data/pools"
 const OVERRIDES_PATH = "./data/overrides.json"
@@ -40,6 +53,7 @@ const TOP_PROTOCOLS_TO_FETCH = 150
 const TOP_CHAINS_TO_FETCH = 50
 const FINAL_PROTOCOL_COUNT = 100
 const FINAL_CHAIN_COUNT = 30
+const FINAL_CATEGORY_COUNT = 20
 const MIN_HISTORY_DAYS = 30
 const MIN_CHAIN_PROTOCOLS = 10
 const RATE_LIMIT_DELAY_MS = 50 // Reduced delay for faster processing
@@ -133,6 +147,17 @@ async function refreshProtocolPool(
     console.warn("Failed to fetch DEX volumes overview:", error)
   }
 
+  // Yields projects use protocol slugs, with versions suffixed (e.g., "uniswap-v3")
+  let yieldProjects: Set<string> = new Set()
+  try {
+    console.log("Fetching yield pools...")
+    yieldProjects = new Set((await getYieldPools()).map((p) => p.project))
+  } catch (error) {
+    console.warn("Failed to fetch yield pools:", error)
+  }
+  const hasYieldPools = (slug: string) =>
+    yieldProjects.has(slug) || [...yieldProjects].some((p) => p.startsWith(`${slug}-`))
+
   // Process each protocol
   const poolEntries: ProtocolPoolEntry[] = []
   let rank = 0
@@ -176,6 +201,7 @@ async function refreshProtocolPool(
       hasFeesData,
       hasRevenueData: hasFeesData, // Revenue data comes with fees
       hasVolumeData,
+      hasYieldData: hasYieldPools(protocol.slug),
       historyDays,
       lastUpdated: formatDate(),
     }
@@ -213,6 +239,7 @@ async function refreshProtocolPool(
           hasFeesData: feesData.has(slug),
           hasRevenueData: feesData.has(slug),
           hasVolumeData: volumeData.has(slug),
+          hasYieldData: hasYieldPools(slug),
           historyDays,
           lastUpdated: formatDate(),
         })
@@ -257,6 +284,19 @@ async function refreshChainPool(
     }
   }
 
+  // Get chains with stablecoin supply for enrichment
+  const stablecoinChains: Set<string> = new Set()
+  try {
+    console.log("Fetching stablecoin chains...")
+    for (const chain of await getStablecoinChains()) {
+      if (chain.totalCirculatingUSD > 0) {
+        stablecoinChains.add(chain.name.toLowerCase())
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to fetch stablecoin chains:", error)
+  }
+
   // Process each chain
   const poolEntries: ChainPoolEntry[] = []
   let rank = 0
@@ -323,6 +363,7 @@ async function refreshChainPool(
       tokenSymbol: chain.tokenSymbol,
       historyDays,
       change30d,
+      hasStablecoinData: stablecoinChains.has(chain.name.toLowerCase()),
       lastUpdated: formatDate(),
     }
 
@@ -355,6 +396,7 @@ async function refreshChainPool(
           tvl,
           protocolCount: chainProtocolCounts.get(chainName) || 0,
           historyDays,
+          hasStablecoinData: stablecoinChains.has(chainName.toLowerCase()),
           lastUpdated: formatDate(),
         })
         console.log(`  Force-included ${chainName}`)
@@ -370,12 +412,72 @@ async function refreshChainPool(
   }
 }
 
+/**
+ * Refresh category pool
+ * Categories are aggregated from the protocols list, so no extra fetches are needed.
+ */
+async function refreshCategoryPool(
+  overrides: PoolOverrides
+): Promise<CategoryPool> {
+  console.log("\nAggregating categories...")
+  const categories = aggregateCategories(await getProtocols())
+  const blocklist = overrides.categories?.blocklist ?? []
+  const forceInclude = overrides.categories?.forceInclude ?? []
+
+  const poolEntries: CategoryPoolEntry[] = []
+
+  for (const [index, category] of categories.entries()) {
+    const rank = index + 1
+    const forced = forceInclude.includes(category.name)
+
+    // Skip blocklisted categories
+    if (blocklist.includes(category.name)) {
+      console.log(`  Skipping ${category.name} (blocklisted)`)
+      continue
+    }
+
+    // Apply size thresholds (force-included categories skip them)
+    if (!forced && (poolEntries.length >= FINAL_CATEGORY_COUNT || !isSignificantCategory(category))) {
+      continue
+    }
+
+    poolEntries.push({
+      slug: category.slug,
+      name: category.name,
+      tvlRank: rank,
+      tvl: category.tvl,
+      protocolCount: category.protocols.length,
+      chainCount: category.chains.length,
+      change7d: category.change7d,
+      lastUpdated: formatDate(),
+    })
+    console.log(
+      `  Added ${category.name} (rank ${rank}, ${category.protocols.length} protocols, ${category.chains.length} chains)`
+    )
+  }
+
+  const missing = forceInclude.filter((name) => !poolEntries.some((c) => c.name === name))
+  for (const name of missing) {
+    console.warn(`  Failed to force-include ${name}: no protocols in this category`)
+  }
+
+  return {
+    categories: poolEntries,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
 /**
  * Main entry point
  */
 async function main() {
+  if (process.argv.includes("--no-api-cache")) {
+    configureApiCache({ enabled: false })
+  }
+
   console.log("=== DeFidle Pool Refresh ===")
-  console.log(`Date: ${formatDate()}\n`)
+  console.log(`Date: ${formatDate()}`)
+  console.log(`API cache: ${getApiCacheConfig().enabled ? "enabled" : "disabled"}\n`)
 
   // Ensure pools directory exists
   if (!existsSync(POOLS_DIR)) {
@@ -406,6 +508,33 @@ async function main() {
   )
   console.log(`\nChain pool written: ${chainPool.chains.length} chains`)
 
+  // Refresh category pool
+  const categoryPool = await refreshCategoryPool(overrides)
+  await writeFile(
+    `${POOLS_DIR}/categories.json`,
+    JSON.stringify(categoryPool, null, 2)
+  )
+  console.log(`\nCategory pool written: ${categoryPool.categories.length} categories`)
+
+  // Build write-in alias database from both pools
+  const aliasDb = buildAliasDatabase(
+    protocolPool.protocols,
+    chainPool.chains,
+    overrides.aliases
+  )
+  await writeFile(
+    `${POOLS_DIR}/aliases.json`,
+    JSON.stringify(aliasDb, null, 2)
+  )
+  console.log(`Alias database written: ${aliasDb.entries.length} entries`)
+
+  if (getApiCacheConfig().enabled) {
+    const apiCacheStats = getApiCacheStats()
+    console.log(
+      `\nAPI cache: ${apiCacheStats.hits} hits, ${apiCacheStats.misses} misses (${apiCacheStats.expired} expired)`
+    )
+  }
+
   console.log("\n=== Pool Refresh Complete ===")
 }
 
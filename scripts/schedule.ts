@@ -0,0 +1,211 @@
+#!/usr/bin/env bun
+/**
+ * Episode Schedule Script
+ *
+ * Lists the upcoming episode schedule and validates data/schedule.json:
+ * every override's pinned topic must be in its type's pool, and every
+ * forced template must exist for the episode type.
+ *
+ * Usage:
+ *   bun scripts/schedule.ts [start] [--days=N] [--topics]
+ *   bun scripts/schedule.ts 2025-12-14 --days=28
+ *   bun scripts/schedule.ts --topics  (resolve each date's topic from the pools)
+ *
+ * Exits with code 1 if the config is invalid or an override can't be honored.
+ *
+ * Environment:
+ *   EPISODE_WEEKDAYS - Weekday overrides, e.g. 'wed=category,sat=category'
+ */
+
+import {
+  configureSchedule,
+  getDayName,
+  getEpisodeType,
+  getScheduleOverride,
+  getScheduleOverrides,
+  getTodayDateString,
+  loadScheduleConfig,
+  parseWeekdaySchedule,
+  SCHEDULE_CONFIG_PATH,
+} from "../lib/generation/schedule"
+import { loadTopicPool, selectTopic } from "../lib/generation/topic-selection"
+import { getAllTemplates } from "../lib/generation/templates"
+import type { EpisodeType } from "../lib/types/episode"
+
+// =============================================================================
+// CLI Arguments
+// =============================================================================
+
+interface CliOptions {
+  start: string
+  days: number
+  topics: boolean
+  configPath: string
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2)
+  const options: CliOptions = {
+    start: getTodayDateString(),
+    days: 14,
+    topics: false,
+    configPath: SCHEDULE_CONFIG_PATH,
+  }
+
+  for (const arg of args) {
+    if (arg === "--topics") {
+      options.topics = true
+    } else if (arg.startsWith("--days=")) {
+      const days = Number(arg.slice("--days=".length))
+      if (!Number.isInteger(days) || days < 1) {
+        console.error(`Invalid --days value: ${arg}`)
+        process.exit(1)
+      }
+      options.days = days
+    } else if (arg.startsWith("--config=")) {
+      options.configPath = arg.slice("--config=".length)
+    } else if (arg === "--help" || arg === "-h") {
+      printHelp()
+      process.exit(0)
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(arg)) {
+      options.start = arg
+    } else {
+      console.error(`Unknown argument: ${arg}`)
+      printHelp()
+      process.exit(1)
+    }
+  }
+
+  return options
+}
+
+function printHelp(): void {
+  console.log(`
+DeFidle Episode Schedule
+
+Usage:
+  bun scripts/schedule.ts [start] [options]
+
+Arguments:
+  start             First date in YYYY-MM-DD format (default: today)
+
+Options:
+  --days=N          Number of days to list (default: 14)
+  --topics          Resolve each date's topic from the pools
+  --config=PATH     Schedule config file (default: ${SCHEDULE_CONFIG_PATH})
+  --help, -h        Show this help message
+
+Environment Variables:
+  EPISODE_WEEKDAYS  Weekday overrides (e.g., 'wed=category,sat=category')
+
+Examples:
+  bun scripts/schedule.ts                      # Next two weeks
+  bun scripts/schedule.ts 2025-12-14 --days=28 # Four weeks from a date
+  bun scripts/schedule.ts --topics             # Include selected topics
+`)
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + "T00:00:00Z")
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split("T")[0]
+}
+
+/**
+ * Check every override against the topic pools and template registry
+ *
+ * @returns Problems found (empty if all overrides can be honored)
+ */
+async function validateOverrides(): Promise<string[]> {
+  const problems: string[] = []
+  const pools = new Map<EpisodeType, Set<string> | null>()
+
+  for (const override of getScheduleOverrides()) {
+    if (override.topic) {
+      if (!pools.has(override.type)) {
+        const pool = await loadTopicPool(override.type).catch(() => null)
+        pools.set(override.type, pool ? new Set(pool.map((t) => t.slug)) : null)
+      }
+      const slugs = pools.get(override.type)
+      if (!slugs) {
+        problems.push(`${override.date}: ${override.type} pool not found (run refresh-pools)`)
+      } else if (!slugs.has(override.topic)) {
+        problems.push(`${override.date}: topic "${override.topic}" is not in the ${override.type} pool`)
+      }
+    }
+
+    const templateIds = new Set(getAllTemplates(override.type).map((t) => t.id))
+    for (const id of override.templates ?? []) {
+      if (!templateIds.has(id)) {
+        problems.push(`${override.date}: template ${id} is not a ${override.type} template`)
+      }
+    }
+  }
+
+  return problems
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  const options = parseArgs()
+
+  try {
+    const fromEnv = process.env.EPISODE_WEEKDAYS
+    configureSchedule(
+      loadScheduleConfig(options.configPath),
+      fromEnv ? parseWeekdaySchedule(fromEnv) : {}
+    )
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+
+  console.log(`\n=== Episode schedule from ${options.start} (${options.days} days) ===\n`)
+
+  for (let i = 0; i < options.days; i++) {
+    const date = addDays(options.start, i)
+    const type = getEpisodeType(date)
+    const override = getScheduleOverride(date)
+
+    let line = `${date}  ${getDayName(date).padEnd(9)}  ${type.padEnd(8)}`
+    if (options.topics) {
+      // Report why no topic was picked (e.g., a missing pool) instead of hiding it
+      const topic = await selectTopic(date, type).catch((error: Error) => error)
+      line += topic instanceof Error ? `  (no topic: ${topic.message})` : `  ${topic.slug}`
+    } else if (override?.topic) {
+      line += `  ${override.topic}`
+    }
+    if (override) {
+      line += "  [override]"
+      if (override.templates?.length) line += ` templates: ${override.templates.join(", ")}`
+      if (override.note) line += ` - ${override.note}`
+    }
+    console.log(line)
+  }
+
+  const overrides = getScheduleOverrides()
+  const upcoming = overrides.filter((o) => o.date >= options.start)
+  console.log(`\nOverrides: ${overrides.length} total, ${upcoming.length} from ${options.start}`)
+
+  const problems = await validateOverrides()
+  if (problems.length > 0) {
+    console.error(`\n${problems.length} schedule problem(s):`)
+    for (const problem of problems) {
+      console.error(`  - ${problem}`)
+    }
+    process.exit(1)
+  }
+  console.log("All overrides valid")
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -2,6 +2,8 @@
  * Test script for episode generation
  *
  * Run with: bun scripts/test-episode-generation.ts
+ * Offline: DEFILLAMA_FIXTURES=replay bun scripts/test-episode-generation.ts
+ * (record the fixtures first with DEFILLAMA_FIXTURES=record)
  */
 
 import { generateEpisode } from "../lib/generation/generate-episode"